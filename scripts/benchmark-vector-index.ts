@@ -0,0 +1,150 @@
+// Benchmark the IVF vector index against brute-force search on synthetic corpora
+// Usage: bun run benchmark:ann [--sizes=10000,50000,100000] [--dims=384] [--queries=100] [--k=10] [--seed=42]
+import { findTopKSimilar } from '../src/utils/vector-utils';
+import { chooseClusterCount, chooseProbeCount, nearestCentroids, trainCentroids } from '../src/utils/ivf-utils';
+
+interface Item {
+  id: number;
+  embedding: number[];
+}
+
+interface BenchmarkOptions {
+  sizes: number[];
+  dims: number;
+  queries: number;
+  k: number;
+  seed: number;
+}
+
+function parseArgs(argv: string[]): BenchmarkOptions {
+  const args = new Map(
+    argv
+      .filter(arg => arg.startsWith('--'))
+      .map(arg => arg.slice(2).split('=') as [string, string])
+  );
+
+  return {
+    sizes: (args.get('sizes') || '10000,50000,100000').split(',').map(Number),
+    dims: Number(args.get('dims') || 384),
+    queries: Number(args.get('queries') || 100),
+    k: Number(args.get('k') || 10),
+    seed: Number(args.get('seed') || 42)
+  };
+}
+
+// Seeded PRNG (mulberry32) so runs are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function randomVector(dims: number, random: () => number, center?: number[], spread: number = 1): number[] {
+  return Array.from({ length: dims }, (_, i) => (center ? center[i] : 0) + gaussian(random) * spread);
+}
+
+// Notes cluster around topics, so vectors are drawn around a few hundred topic centers
+function generateCorpus(size: number, dims: number, random: () => number): Item[] {
+  const topics = Array.from({ length: Math.max(10, Math.round(size / 200)) }, () => randomVector(dims, random));
+  return Array.from({ length: size }, (_, id) => ({
+    id,
+    embedding: randomVector(dims, random, topics[Math.floor(random() * topics.length)], 0.6)
+  }));
+}
+
+// Queries are perturbed copies of stored vectors, like a question about a saved note
+function generateQueries(corpus: Item[], count: number, random: () => number): number[][] {
+  return Array.from({ length: count }, () => {
+    const source = corpus[Math.floor(random() * corpus.length)].embedding;
+    return randomVector(source.length, random, source, 0.5);
+  });
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+function buildIndex(corpus: Item[], random: () => number): { centroids: number[][]; buckets: Item[][] } {
+  const centroids = trainCentroids(corpus.map(item => item.embedding), chooseClusterCount(corpus.length), undefined, random);
+  const buckets: Item[][] = centroids.map(() => []);
+  corpus.forEach(item => {
+    const [cluster] = nearestCentroids(item.embedding, centroids, 1);
+    buckets[cluster].push(item);
+  });
+  return { centroids, buckets };
+}
+
+function searchIndex(query: number[], index: { centroids: number[][]; buckets: Item[][] }, probes: number, k: number): Item[] {
+  const candidates = nearestCentroids(query, index.centroids, probes).flatMap(cluster => index.buckets[cluster]);
+  return findTopKSimilar(query, candidates, k).map(result => result.item);
+}
+
+function recall(expected: Item[], actual: Item[]): number {
+  if (expected.length === 0) return 1;
+  const found = new Set(actual.map(item => item.id));
+  return expected.filter(item => found.has(item.id)).length / expected.length;
+}
+
+function runBenchmark(size: number, options: BenchmarkOptions) {
+  const random = createRandom(options.seed + size);
+  const corpus = generateCorpus(size, options.dims, random);
+  const queries = generateQueries(corpus, options.queries, random);
+
+  console.log(`\n${size} vectors, ${options.dims} dimensions, ${options.queries} queries, top ${options.k}`);
+
+  const brute = time(() => queries.map(query => findTopKSimilar(query, corpus, options.k).map(result => result.item)));
+  const bruteLatency = brute.ms / queries.length;
+
+  const build = time(() => buildIndex(corpus, random));
+  const index = build.result;
+  const clusters = index.centroids.length;
+  console.log(`IVF build: ${clusters} clusters in ${(build.ms / 1000).toFixed(2)}s`);
+
+  const defaultProbes = chooseProbeCount(clusters);
+  const probeCounts = Array.from(new Set([1, 2, 4, defaultProbes, defaultProbes * 2]))
+    .filter(probes => probes <= clusters)
+    .sort((a, b) => a - b);
+
+  const rows = [{
+    method: 'brute force',
+    'recall@k': '1.000',
+    'avg ms': bruteLatency.toFixed(2),
+    speedup: '1.0x',
+    'scanned %': '100.0'
+  }];
+
+  probeCounts.forEach(probes => {
+    const ann = time(() => queries.map(query => searchIndex(query, index, probes, options.k)));
+    const scanned = queries.reduce((total, query) =>
+      total + nearestCentroids(query, index.centroids, probes)
+        .reduce((sum, cluster) => sum + index.buckets[cluster].length, 0), 0);
+
+    const latency = ann.ms / queries.length;
+    const averageRecall = ann.result.reduce((sum, results, i) => sum + recall(brute.result[i], results), 0) / queries.length;
+    rows.push({
+      method: `IVF nprobe=${probes}${probes === defaultProbes ? ' (default)' : ''}`,
+      'recall@k': averageRecall.toFixed(3),
+      'avg ms': latency.toFixed(2),
+      speedup: `${(bruteLatency / latency).toFixed(1)}x`,
+      'scanned %': (scanned / queries.length / size * 100).toFixed(1)
+    });
+  });
+
+  console.table(rows);
+}
+
+const options = parseArgs(process.argv.slice(2));
+options.sizes.forEach(size => runBenchmark(size, options));
@@ -1,4 +1,5 @@
 // AI service interface for all providers
+import { NoteSummary } from '../storage/storage-interface';
 
 export interface AIService {
   // Initialize the AI service
@@ -10,14 +11,29 @@ export interface AIService {
   // Generate embeddings for text
   generateEmbedding(text: string): Promise<number[]>;
 
+  // Identifier of the model behind generateEmbedding, e.g. 'openai/text-embedding-3-small'
+  getEmbeddingModel(): string;
+
   // Generate text completion
   generateCompletion(prompt: string, context?: string): Promise<string>;
 
   // Generate tags for content
   generateTags(content: string): Promise<string[]>;
 
+  // One-line TL;DR and key points of a note's content
+  summarize(content: string): Promise<NoteSummary>;
+
   // Answer a question based on context
   answerQuestion(question: string, context: string): Promise<string>;
+
+  // Same as answerQuestion, yielding the answer as it is generated; stops when the signal aborts
+  // history holds the earlier turns of the conversation, oldest first
+  streamAnswer(question: string, context: string, history?: ChatTurn[], signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'ai';
+  content: string;
 }
 
 export interface EmbeddingResponse {
@@ -1,5 +1,10 @@
-import { AIService } from './ai-interface';
+import { AIService, ChatTurn } from './ai-interface';
+import { NoteSummary } from '../storage/storage-interface';
 import { cleanTags } from '../utils/tag-utils';
+import { buildSummaryPrompt, extractiveSummary, summarizeInParts } from '../utils/summary-utils';
+import { CITATION_INSTRUCTION, conversationSection } from '../utils/chat-utils';
+
+const SUMMARY_PART_LENGTH = 3000; // The on-device model has a small context window
 
 // Chrome built-in AI API service
 export class ChromeAIService implements AIService {
@@ -48,11 +53,17 @@ export class ChromeAIService implements AIService {
       const result = await this.embedder.embed(text);
       return Array.from(result);
     } catch (error) {
+      // Hash vectors would be stored under the embedder's model name, so fail instead
       console.error('Embedding generation failed:', error);
-      return this.createSimpleEmbedding(text);
+      throw new Error('Failed to generate embedding');
     }
   }
 
+  getEmbeddingModel(): string {
+    // The hash fallback is only comparable with itself
+    return this.embedder ? 'chrome/embedder' : 'chrome/hash-384';
+  }
+
   private createSimpleEmbedding(text: string, dimensions: number = 384): number[] {
     // Simple deterministic embedding based on text content
     // This is a fallback and not suitable for production semantic search
@@ -132,33 +143,73 @@ ${content.substring(0, 500)}`;
       .map(([word]) => word);
   }
 
-  async answerQuestion(question: string, context: string): Promise<string> {
+  async summarize(content: string): Promise<NoteSummary> {
     if (!this.session) {
-      throw new Error('Chrome AI session not initialized');
+      return extractiveSummary(content);
     }
 
     try {
-      const prompt = `You are a helpful assistant that answers questions based on the user's saved notes.
+      const summary = await summarizeInParts(content, SUMMARY_PART_LENGTH, text =>
+        this.session.prompt(buildSummaryPrompt(text, SUMMARY_PART_LENGTH)));
+      return summary || extractiveSummary(content);
+    } catch (error) {
+      console.error('Summarization failed:', error);
+      return extractiveSummary(content);
+    }
+  }
+
+  private answerPrompt(question: string, context: string, history: ChatTurn[] = []): string {
+    return `You are a helpful assistant that answers questions based on the user's saved notes.
 
 Context (user's saved notes):
-${context.substring(0, 3000)}
+${context}
 
-User Question: ${question}
+${conversationSection(history)}User Question: ${question}
 
 Instructions:
 - Answer naturally and conversationally
 - If the question is about what content they have, describe it clearly
 - If comparing items, explain the differences
 - Be specific and reference the actual content from the notes
+- ${CITATION_INSTRUCTION}
 
 Answer:`;
+  }
 
-      const result = await this.session.prompt(prompt);
+  async answerQuestion(question: string, context: string): Promise<string> {
+    if (!this.session) {
+      throw new Error('Chrome AI session not initialized');
+    }
+
+    try {
+      const result = await this.session.prompt(this.answerPrompt(question, context));
       return result.trim();
     } catch (error) {
       console.error('Question answering failed:', error);
       throw new Error('Failed to answer question');
     }
   }
+
+  async *streamAnswer(question: string, context: string, history: ChatTurn[] = [], signal?: AbortSignal): AsyncGenerator<string> {
+    if (!this.session) {
+      throw new Error('Chrome AI session not initialized');
+    }
+
+    try {
+      const stream = this.session.promptStreaming(this.answerPrompt(question, context, history), { signal });
+      let received = '';
+      for await (const chunk of stream as AsyncIterable<string>) {
+        // Older Chrome versions send the whole answer so far rather than just the new text
+        const cumulative = received.length > 0 && chunk.startsWith(received);
+        const text = cumulative ? chunk.slice(received.length) : chunk;
+        received = cumulative ? chunk : received + chunk;
+        if (text) yield text;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Streaming answer failed:', error);
+      throw new Error('Failed to answer question');
+    }
+  }
 }
 
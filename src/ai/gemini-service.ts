@@ -1,11 +1,15 @@
 import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import { AIService } from './ai-interface';
+import { AIService, ChatTurn } from './ai-interface';
+import { NoteSummary } from '../storage/storage-interface';
 import { cleanTags } from '../utils/tag-utils';
+import { SUMMARY_INPUT_LENGTH, buildSummaryPrompt, summarizeInParts } from '../utils/summary-utils';
+import { CITATION_INSTRUCTION, conversationSection } from '../utils/chat-utils';
 
 export class GeminiService implements AIService {
   private client: GoogleGenerativeAI | null = null;
   private model: GenerativeModel | null = null;
   private apiKey: string;
+  private static readonly EMBEDDING_MODEL = 'embedding-001';
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
@@ -38,7 +42,7 @@ export class GeminiService implements AIService {
 
     try {
       // Use Gemini's embedding model
-      const embeddingModel = this.client.getGenerativeModel({ model: 'embedding-001' });
+      const embeddingModel = this.client.getGenerativeModel({ model: GeminiService.EMBEDDING_MODEL });
       const result = await embeddingModel.embedContent(text);
       
       return result.embedding.values;
@@ -48,6 +52,10 @@ export class GeminiService implements AIService {
     }
   }
 
+  getEmbeddingModel(): string {
+    return `gemini/${GeminiService.EMBEDDING_MODEL}`;
+  }
+
   async generateCompletion(prompt: string, context?: string): Promise<string> {
     const model = this.ensureModel();
 
@@ -89,16 +97,31 @@ ${content.substring(0, 1000)}`;
     }
   }
 
-  async answerQuestion(question: string, context: string): Promise<string> {
+  async summarize(content: string): Promise<NoteSummary> {
     const model = this.ensureModel();
 
     try {
-      const prompt = `You are a helpful assistant that answers questions based on the user's saved notes.
+      const summary = await summarizeInParts(content, SUMMARY_INPUT_LENGTH, async text => {
+        const result = await model.generateContent(buildSummaryPrompt(text));
+        return (await result.response).text();
+      });
+      if (!summary) {
+        throw new Error('Empty summary');
+      }
+      return summary;
+    } catch (error) {
+      console.error('Gemini summarization failed:', error);
+      throw new Error('Failed to summarize note');
+    }
+  }
+
+  private answerPrompt(question: string, context: string, history: ChatTurn[] = []): string {
+    return `You are a helpful assistant that answers questions based on the user's saved notes.
 
 Context (user's saved notes):
-${context.substring(0, 4000)}
+${context}
 
-User Question: ${question}
+${conversationSection(history)}User Question: ${question}
 
 Instructions:
 - Answer naturally and conversationally
@@ -106,10 +129,16 @@ Instructions:
 - If comparing items, explain the differences
 - If no relevant information exists, say "I don't have any notes about that."
 - Be specific and reference the actual content from the notes
+- ${CITATION_INSTRUCTION}
 
 Answer:`;
+  }
 
-      const result = await model.generateContent(prompt);
+  async answerQuestion(question: string, context: string): Promise<string> {
+    const model = this.ensureModel();
+
+    try {
+      const result = await model.generateContent(this.answerPrompt(question, context));
       const response = await result.response;
       return response.text().trim();
     } catch (error) {
@@ -117,5 +146,23 @@ Answer:`;
       throw new Error('Failed to answer question');
     }
   }
+
+  async *streamAnswer(question: string, context: string, history: ChatTurn[] = [], signal?: AbortSignal): AsyncGenerator<string> {
+    const model = this.ensureModel();
+
+    try {
+      const result = await model.generateContentStream(this.answerPrompt(question, context, history));
+      for await (const chunk of result.stream) {
+        // This SDK version can't abort the request, so cancelling stops reading it instead
+        if (signal?.aborted) return;
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Gemini streaming answer failed:', error);
+      throw new Error('Failed to answer question');
+    }
+  }
 }
 
@@ -1,10 +1,14 @@
 import OpenAI from 'openai';
-import { AIService } from './ai-interface';
+import { AIService, ChatTurn } from './ai-interface';
+import { NoteSummary } from '../storage/storage-interface';
 import { cleanTags } from '../utils/tag-utils';
+import { SUMMARY_INPUT_LENGTH, SUMMARY_INSTRUCTION, summarizeInParts } from '../utils/summary-utils';
+import { CITATION_INSTRUCTION, recentTurns } from '../utils/chat-utils';
 
 export class OpenAIService implements AIService {
   private client: OpenAI | null = null;
   private apiKey: string;
+  private static readonly EMBEDDING_MODEL = 'text-embedding-3-small';
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
@@ -37,7 +41,7 @@ export class OpenAIService implements AIService {
 
     try {
       const response = await client.embeddings.create({
-        model: 'text-embedding-3-small',
+        model: OpenAIService.EMBEDDING_MODEL,
         input: text,
         encoding_format: 'float'
       });
@@ -49,6 +53,10 @@ export class OpenAIService implements AIService {
     }
   }
 
+  getEmbeddingModel(): string {
+    return `openai/${OpenAIService.EMBEDDING_MODEL}`;
+  }
+
   async generateCompletion(prompt: string, context?: string): Promise<string> {
     const client = this.ensureClient();
 
@@ -116,22 +124,62 @@ export class OpenAIService implements AIService {
     }
   }
 
+  async summarize(content: string): Promise<NoteSummary> {
+    const client = this.ensureClient();
+
+    try {
+      const summary = await summarizeInParts(content, SUMMARY_INPUT_LENGTH, async text => {
+        const response = await client.chat.completions.create({
+          model: 'gpt-4o-mini',
+          messages: [
+            {
+              role: 'system',
+              content: SUMMARY_INSTRUCTION
+            },
+            {
+              role: 'user',
+              content: text
+            }
+          ],
+          temperature: 0.3,
+          max_tokens: 300
+        });
+        return response.choices[0]?.message?.content || '';
+      });
+      if (!summary) {
+        throw new Error('Empty summary');
+      }
+      return summary;
+    } catch (error) {
+      console.error('OpenAI summarization failed:', error);
+      throw new Error('Failed to summarize note');
+    }
+  }
+
+  private answerMessages(question: string, context: string, history: ChatTurn[] = []): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      {
+        role: 'system',
+        content: `You are a helpful assistant that answers questions based on the user's saved notes. Answer naturally and conversationally. If the question is about what content they have, describe it clearly. If comparing items, explain the differences. Be specific and reference the actual content from the notes. ${CITATION_INSTRUCTION}`
+      },
+      ...recentTurns(history).map((turn): OpenAI.Chat.ChatCompletionMessageParam => ({
+        role: turn.role === 'user' ? 'user' : 'assistant',
+        content: turn.content
+      })),
+      {
+        role: 'user',
+        content: `Context (user's saved notes):\n${context}\n\nUser Question: ${question}`
+      }
+    ];
+  }
+
   async answerQuestion(question: string, context: string): Promise<string> {
     const client = this.ensureClient();
 
     try {
       const response = await client.chat.completions.create({
         model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant that answers questions based on the user\'s saved notes. Answer naturally and conversationally. If the question is about what content they have, describe it clearly. If comparing items, explain the differences. Be specific and reference the actual content from the notes.'
-          },
-          {
-            role: 'user',
-            content: `Context (user's saved notes):\n${context.substring(0, 4000)}\n\nUser Question: ${question}`
-          }
-        ],
+        messages: this.answerMessages(question, context),
         temperature: 0.7,
         max_tokens: 500
       });
@@ -142,5 +190,28 @@ export class OpenAIService implements AIService {
       throw new Error('Failed to answer question');
     }
   }
+
+  async *streamAnswer(question: string, context: string, history: ChatTurn[] = [], signal?: AbortSignal): AsyncGenerator<string> {
+    const client = this.ensureClient();
+
+    try {
+      const stream = await client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: this.answerMessages(question, context, history),
+        temperature: 0.7,
+        max_tokens: 500,
+        stream: true
+      }, { signal });
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('OpenAI streaming answer failed:', error);
+      throw new Error('Failed to answer question');
+    }
+  }
 }
 
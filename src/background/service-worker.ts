@@ -1,6 +1,149 @@
 // Background service worker for Chrome extension
 import { StorageFactory } from '../storage/storage-factory';
+import { IndexDBStorage } from '../storage/indexdb-storage';
+import { SupabaseStorage } from '../storage/supabase-storage';
+import { MirroredStorage } from '../storage/mirrored-storage';
+import { SyncedStorage } from '../storage/synced-storage';
+import { LOCAL_NOTES_COPIED_KEY } from '../storage/sync-engine';
 import { AIFactory } from '../ai/ai-factory';
+import { AIService, ChatTurn } from '../ai/ai-interface';
+import { Collection, NewNote, Note, NoteAnnotation, NoteChunk, NoteSummary, StorageBackend, TextAnchor, VectorSearchResult } from '../storage/storage-interface';
+import { ExtractedArticle } from '../content/article-extractor';
+import { PageHighlight } from '../content/page-highlights';
+import { chunkText } from '../utils/chunk-utils';
+import { averageVectors, cosineSimilarity, isCompatibleEmbedding } from '../utils/vector-utils';
+import { DuplicateMatch, DuplicateResolution, MergeableNote, clusterDuplicates, findDuplicatesOf, mergeNotes } from '../utils/duplicate-utils';
+import { RRF_K, reciprocalRankFusion } from '../utils/search-utils';
+import { AppConfig, ConfigManager, clampContextBudget } from '../utils/config';
+import { CaptionSegment, buildVideoUrl, getDeepLink, joinSegments, selectClipWindow } from '../utils/youtube-utils';
+import { base64ToBytes, buildVaultZip, bytesToBase64, markdownToNote, readVaultZip } from '../utils/vault-utils';
+import { BackupNote, ConflictMode, createBackup, parseBackup } from '../utils/backup-utils';
+import { SOURCE_TAGS, cleanTags } from '../utils/tag-utils';
+import {
+  TagTaxonomyStore, applySynonyms, canSetParent, canonicalTag, mergeInTaxonomy, removeFromTaxonomy, renameInTaxonomy,
+  suggestTagChanges, summarizeTags, tagStatistics
+} from '../utils/tag-taxonomy';
+import {
+  childCollections, cleanCollectionName, collectionSubtree, createsCollectionCycle, inCollections, nextCollectionOrder
+} from '../utils/collection-utils';
+import { annotationText, blendAnnotationEmbedding, cleanAnnotation, sameAnnotation } from '../utils/annotation-utils';
+import { buildStandaloneQuestionPrompt, cleanStandaloneQuestion, markCitedSources } from '../utils/chat-utils';
+import { ChatScope, ChatThreadStore } from '../utils/chat-threads';
+import { SUMMARY_MIN_LENGTH } from '../utils/summary-utils';
+import { RELATED_LIMIT, RelatedEntry, RelatedNotesStore, nearestNotes, withNeighbour } from '../utils/related-notes';
+import { buildNoteGraph } from '../utils/note-graph';
+import {
+  DIGEST_PERIOD_MS, ReviewCard, ReviewDigest, ReviewGrade, ReviewStore, buildDigestPrompt, dueNotes, gradeCard, groupByTopic, newCard, plainDigest,
+  startOfDay
+} from '../utils/review-utils';
+import { RetrievalPipeline, RetrievedNote, buildContext } from '../retrieval/retrieval-pipeline';
+
+const HYBRID_SEARCH_LIMIT = 20;
+const SCOPED_SEARCH_MULTIPLIER = 5;
+
+// Notes picked by the user are read whole, up to this many characters between them; longer ones are read through
+// their passages closest to the question
+const SCOPED_CONTEXT_BUDGET = 12000;
+const PASSAGE_SEPARATOR = ' … ';
+
+const QUICK_ANNOTATE_SIZE = { width: 420, height: 560 };
+const DUPLICATE_WINDOW_SIZE = { width: 480, height: 620 };
+
+// Saves that matched existing notes wait in session storage for the user's choice, long enough to come back to
+const PENDING_SAVES_KEY = 'pendingSaves';
+const PENDING_SAVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DUPLICATE_CANDIDATES = 10; // Nearest notes checked for near-duplicates on save
+
+// The graph view draws at most this many notes, newest first
+const GRAPH_MAX_NOTES = 400;
+const GRAPH_FILL_BATCH = 50; // Notes given a related list each time the graph opens, before it is drawn
+
+// Tag cleanup suggestions compare the names of this many of the most used tags
+const TAG_SUGGESTION_LIMIT = 150;
+
+// Selections saved before anchors were recorded are found by their text, if it is short enough to be a quote
+const MAX_QUOTE_LENGTH = 2000;
+
+// A note the side panel should show, set when a highlight is clicked on a page
+const OPEN_NOTE_KEY = 'openNoteRequest';
+
+// Long-lived port the side panel opens to receive chat answers as they are generated
+const CHAT_PORT = 'chat-stream';
+
+// Re-embedding job state lives in chrome.storage.local so it survives service worker restarts
+const REEMBED_JOB_KEY = 'reembedJob';
+const REEMBED_ALARM = 'reembed-resume';
+
+// Periodic sync with Supabase, on top of the sync that follows every local write
+const SYNC_ALARM = 'sync';
+const SYNC_INTERVAL_MINUTES = 5;
+
+// Hourly check that keeps the review badge current and writes the digest when its period is up
+const REVIEW_ALARM = 'review';
+const REVIEW_INTERVAL_MINUTES = 60;
+const DIGEST_MAX_NOTES = 30; // Newest notes of the period a digest covers; the prompt grows with every one
+
+interface ReembedJob {
+  status: 'running' | 'paused' | 'completed' | 'failed';
+  model: string; // Embedding model notes are being moved to
+  total: number;
+  processed: number;
+  failedNoteIds: string[]; // Skipped so a bad note can't stall the job
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+// A new note held back because it matches saved notes. Session storage has a quota, so only the draft is kept
+// and it is embedded again once the user decides
+interface PendingSave {
+  id: string;
+  note: NoteDraft;
+  matches: DuplicateMatch[];
+  createdAt: number;
+  selection?: SelectionSave;
+}
+
+type NoteDraft = Omit<NewNote, 'embedding' | 'embeddingModel' | 'embeddingDimensions'>;
+
+// A selection saved from the context menu, which gets the same follow-up when it was held as a duplicate
+interface SelectionSave {
+  tabId?: number;
+}
+
+type EmbeddedChunk = Awaited<ReturnType<typeof embedChunks>>[number];
+
+// Either the saved note, or the id of a save waiting in the duplicate window
+type SaveOutcome = { note: Note; pendingId?: undefined } | { note?: undefined; pendingId: string };
+
+let reembedRunning = false;
+let reembedStopRequested = false;
+
+// Tag names embedded for cleanup suggestions, by model, for as long as the service worker lives
+const tagNameEmbeddings = new Map<string, number[]>();
+
+// Recent hybrid search queries embedded, by model, so running a search again doesn't call the provider;
+// the oldest is dropped past the limit
+const queryEmbeddings = new Map<string, number[]>();
+const QUERY_EMBEDDING_CACHE_SIZE = 50;
+
+// Progress of a storage backend migration, watched by the options page
+const MIGRATION_KEY = 'storageMigration';
+
+interface StorageMigration {
+  status: 'running' | 'completed' | 'failed';
+  from: AppConfig['storageBackend'];
+  to: AppConfig['storageBackend'];
+  total: number;
+  copied: number;
+  failed: { id: string; title: string; error: string }[];
+  truncated: number; // Embeddings cut down to the Supabase vector column size
+  missing: string[]; // Note ids not found in the target when verifying
+  targetCount?: number;
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
 
 // Helper function to format timestamp
 function formatTimestamp(seconds: number): string {
@@ -29,6 +172,19 @@ chrome.runtime.onInstalled.addListener(() => {
     }
   });
 
+  // Full-page article context menu
+  chrome.contextMenus.create({
+    id: 'save-page',
+    title: 'Save Page to AI Notes',
+    contexts: ['page']
+  }, () => {
+    if (chrome.runtime.lastError) {
+      console.error('Error creating save-page menu:', chrome.runtime.lastError);
+    } else {
+      console.log('✓ Created "Save Page to AI Notes" context menu');
+    }
+  });
+
   // YouTube video context menu (only on video pages)
   chrome.contextMenus.create({
     id: 'save-youtube-clip',
@@ -65,12 +221,16 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
       // Get page info
       const url = tab?.url || '';
       const title = tab?.title || 'Untitled';
+      const anchor = tab?.id ? await getSelectionAnchor(tab.id, info.frameId) : null;
 
-      // Save the note
-      await saveNote(info.selectionText, url, title);
+      // Save the note; a duplicate waits for the user's choice in its own window
+      const selection = { tabId: tab?.id };
+      const { note } = await saveNote(info.selectionText, url, title, anchor, selection);
+      if (!note) return;
 
-      // Show success notification (if available)
-      if (chrome.notifications) {
+      const config = await ConfigManager.getConfig();
+      await finishSelectionSave(note, selection);
+      if (!config.quickAnnotate && chrome.notifications) {
         chrome.notifications.create({
           type: 'basic',
           iconUrl: chrome.runtime.getURL('icons/icon48.png'),
@@ -92,6 +252,10 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     }
   }
 
+  if (info.menuItemId === 'save-page' && tab?.id) {
+    await savePageWithNotification(tab.id);
+  }
+
   if (info.menuItemId === 'save-youtube-clip' && tab?.id && tab?.url) {
     console.log('🎥 YouTube clip save triggered!');
     
@@ -148,21 +312,22 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
         // Fetch transcript (with timeout)
         const transcriptResponse = await Promise.race([
           chrome.tabs.sendMessage(tab.id, { action: 'fetchTranscript' }),
-          new Promise((resolve) => setTimeout(() => resolve({ transcript: '' }), 5000))
+          new Promise((resolve) => setTimeout(() => resolve({ segments: [] }), 5000))
         ]) as any;
         
-        const transcript = transcriptResponse?.transcript || '';
-        console.log('Transcript length:', transcript.length);
+        const segments: CaptionSegment[] = transcriptResponse?.segments || [];
+        console.log('Transcript segments:', segments.length);
 
         console.log('Saving YouTube clip...');
-        await saveYouTubeClip({
+        const { note } = await saveYouTubeClip({
           videoId: response.videoId,
           timestamp: response.timestamp,
           title: response.title,
           channel: response.channel,
           thumbnail: response.thumbnail,
-          transcript
+          segments
         });
+        if (!note) return;
 
         // Show success notification
         console.log('✓ YouTube clip saved successfully!');
@@ -194,29 +359,193 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   }
 });
 
+// Keyboard command to save the whole page
+chrome.commands.onCommand.addListener(async (command) => {
+  if (command !== 'save-page') return;
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id) {
+    await savePageWithNotification(tab.id);
+  }
+});
+
+// Once a selection is saved, its page highlights it and the note is offered for annotation while the reason
+// for saving is fresh
+async function finishSelectionSave(note: Note, selection: SelectionSave): Promise<void> {
+  if (selection.tabId) {
+    chrome.tabs.sendMessage(selection.tabId, { action: 'refreshHighlights' }).catch(() => {});
+  }
+
+  const config = await ConfigManager.getConfig();
+  if (config.quickAnnotate) {
+    await openQuickAnnotate(note.id);
+  }
+}
+
+// Small window for adding an annotation to a note that was just saved
+async function openQuickAnnotate(noteId: string): Promise<void> {
+  try {
+    await chrome.windows.create({
+      url: chrome.runtime.getURL(`ui/annotate/annotate.html?id=${encodeURIComponent(noteId)}`),
+      type: 'popup',
+      width: QUICK_ANNOTATE_SIZE.width,
+      height: QUICK_ANNOTATE_SIZE.height,
+      focused: true
+    });
+  } catch (error) {
+    // The note is saved either way
+    console.error('Failed to open quick annotate window:', error);
+  }
+}
+
+// Window asking whether a save that matches saved notes should merge, replace or be kept alongside them
+async function openDuplicateWindow(pendingId: string): Promise<void> {
+  await chrome.windows.create({
+    url: chrome.runtime.getURL(`ui/duplicate/duplicate.html?id=${encodeURIComponent(pendingId)}`),
+    type: 'popup',
+    width: DUPLICATE_WINDOW_SIZE.width,
+    height: DUPLICATE_WINDOW_SIZE.height,
+    focused: true
+  });
+}
+
+async function savePageWithNotification(tabId: number): Promise<void> {
+  try {
+    const title = await savePage(tabId);
+    if (chrome.notifications) {
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+        title: 'Squirrel',
+        message: `Saved "${title}"`
+      });
+    }
+  } catch (error: any) {
+    console.error('Failed to save page:', error);
+    if (chrome.notifications) {
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+        title: 'Squirrel',
+        message: error.message || 'Failed to save page. Please try again.'
+      });
+    }
+  }
+}
+
+// Extract the main article from a tab and save it as a note; returns the article title
+async function savePage(tabId: number): Promise<string> {
+  let response: any;
+  try {
+    response = await Promise.race([
+      chrome.tabs.sendMessage(tabId, { action: 'extractArticle' }),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 5000))
+    ]);
+  } catch (e) {
+    console.log('✗ Content script not ready:', e);
+    throw new Error('Please refresh the page (F5) and try again!');
+  }
+
+  const article = response?.article;
+  if (!article || !article.content) {
+    throw new Error(response?.error || 'No article content found on this page');
+  }
+
+  await saveArticle(article);
+  return article.title;
+}
+
+// Split content into overlapping passages and embed each one, blending in the annotation if there is one
+async function embedChunks(aiService: AIService, content: string, annotation?: NoteAnnotation) {
+  const chunks = chunkText(content);
+  const embeddingModel = aiService.getEmbeddingModel();
+  const embedded = [];
+
+  const annotationContent = annotationText(annotation);
+  const annotationEmbedding = annotationContent ? await aiService.generateEmbedding(annotationContent) : null;
+
+  // Sequential to stay within provider rate limits on long transcripts
+  for (const chunk of chunks) {
+    const passageEmbedding = await aiService.generateEmbedding(chunk.content);
+    const embedding = annotationEmbedding ? blendAnnotationEmbedding(passageEmbedding, annotationEmbedding) : passageEmbedding;
+    embedded.push({
+      ...chunk,
+      embedding,
+      embeddingModel,
+      embeddingDimensions: embedding.length
+    });
+  }
+
+  return embedded;
+}
+
+// Note-level embedding from its passages, tagged with the model that produced it
+function noteEmbedding(aiService: AIService, chunks: { embedding: number[] }[]) {
+  const embedding = averageVectors(chunks.map(chunk => chunk.embedding));
+  return {
+    embedding,
+    embeddingModel: aiService.getEmbeddingModel(),
+    embeddingDimensions: embedding.length
+  };
+}
+
+// Ask the page where the selection is; pages the content script has not loaded into get no anchor
+async function getSelectionAnchor(tabId: number, frameId?: number): Promise<TextAnchor | null> {
+  try {
+    const response: any = await Promise.race([
+      chrome.tabs.sendMessage(tabId, { action: 'getSelectionAnchor' }, { frameId }),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 1000))
+    ]);
+    return response?.anchor || null;
+  } catch {
+    return null;
+  }
+}
+
+// AI tags with known synonyms swapped for the tag they were merged into
+async function generateTags(aiService: AIService, content: string): Promise<string[]> {
+  const [tags, taxonomy] = await Promise.all([aiService.generateTags(content), TagTaxonomyStore.get()]);
+  return applySynonyms(taxonomy, tags);
+}
+
+// TL;DR and key points for long notes; a failed summary never costs the user their note
+async function summarizeContent(aiService: AIService, content: string): Promise<NoteSummary | undefined> {
+  const config = await ConfigManager.getConfig();
+  if (!config.noteSummaries || content.length < SUMMARY_MIN_LENGTH) return undefined;
+
+  try {
+    return await aiService.summarize(content);
+  } catch (error) {
+    console.error('Summary failed, saving without one:', error);
+    return undefined;
+  }
+}
+
 // Save note with AI processing
-async function saveNote(content: string, url: string, pageTitle: string): Promise<void> {
+async function saveNote(content: string, url: string, pageTitle: string, anchor?: TextAnchor | null, selection?: SelectionSave): Promise<SaveOutcome> {
   try {
     const storage = await StorageFactory.getStorage();
     const aiService = await AIFactory.getAIService();
 
-    // Generate embedding and tags in parallel
-    const [embedding, tags] = await Promise.all([
-      aiService.generateEmbedding(content),
-      aiService.generateTags(content)
+    // Generate passage embeddings, tags and summary in parallel
+    const [chunks, tags, summary] = await Promise.all([
+      embedChunks(aiService, content),
+      generateTags(aiService, content),
+      summarizeContent(aiService, content)
     ]);
 
-    // Save to storage
-    await storage.saveNote({
+    return await saveUnlessDuplicate(storage, {
       content,
-      embedding,
+      ...noteEmbedding(aiService, chunks),
       tags,
+      ...(summary && { summary }),
       source: {
         url,
         title: pageTitle,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...(anchor && { anchor })
       }
-    });
+    }, chunks, selection);
   } catch (error: any) {
     // Log detailed error information
     console.error('Error saving note:', {
@@ -237,27 +566,33 @@ async function saveYouTubeClip(clip: {
   title: string;
   channel: string;
   thumbnail: string;
-  transcript: string;
-}): Promise<void> {
+  segments: CaptionSegment[];
+}): Promise<SaveOutcome> {
   try {
     const storage = await StorageFactory.getStorage();
     const aiService = await AIFactory.getAIService();
+    const config = await ConfigManager.getConfig();
 
     // Build timestamped URL
-    const videoUrl = `https://www.youtube.com/watch?v=${clip.videoId}&t=${clip.timestamp}s`;
+    const videoUrl = buildVideoUrl(clip.videoId, clip.timestamp);
     
+    // Keep only the captions around the timestamp, aligned to their position in the content
+    const prefix = `${clip.title}\n\n`;
+    const clipSegments = selectClipWindow(clip.segments, clip.timestamp, config.youtubeClipWindow);
+    const { transcript, segments } = joinSegments(clipSegments, prefix.length);
+
     // Create content: transcript or title if no transcript
-    const content = clip.transcript 
-      ? `${clip.title}\n\n${clip.transcript}`
+    const content = transcript 
+      ? `${prefix}${transcript}`
       : clip.title;
 
-    // For transcript, get a context window around the timestamp (if available)
-    const contextContent = clip.transcript || content;
+    const contextContent = transcript || content;
 
-    // Generate embedding and tags
-    const [embedding, tags] = await Promise.all([
-      aiService.generateEmbedding(contextContent),
-      aiService.generateTags(contextContent)
+    // Generate passage embeddings, tags and summary; long transcripts are what summaries are most for
+    const [chunks, tags, summary] = await Promise.all([
+      embedChunks(aiService, content),
+      generateTags(aiService, contextContent),
+      summarizeContent(aiService, content)
     ]);
 
     // Add 'youtube' tag
@@ -266,10 +601,11 @@ async function saveYouTubeClip(clip: {
     }
 
     // Save to storage with video metadata
-    await storage.saveNote({
+    return await saveUnlessDuplicate(storage, {
       content,
-      embedding,
+      ...noteEmbedding(aiService, chunks),
       tags,
+      ...(summary && { summary }),
       source: {
         url: videoUrl,
         title: `${clip.title} [${formatTimestamp(clip.timestamp)}]`,
@@ -278,9 +614,10 @@ async function saveYouTubeClip(clip: {
         videoTimestamp: clip.timestamp,
         channel: clip.channel,
         thumbnail: clip.thumbnail,
+        transcriptSegments: segments.length > 0 ? segments : undefined,
         type: 'youtube'
       }
-    });
+    }, chunks);
   } catch (error: any) {
     console.error('Error saving YouTube clip:', {
       message: error?.message,
@@ -290,6 +627,79 @@ async function saveYouTubeClip(clip: {
   }
 }
 
+// Saved notes from the same page or nearest in meaning, narrowed to copies and near-duplicates of the note
+async function findSaveDuplicates(storage: StorageBackend, note: NewNote, threshold: number): Promise<DuplicateMatch[]> {
+  const [samePage, nearest] = await Promise.all([
+    storage.getNotesByUrl(note.source.url),
+    storage.searchByVector(note.embedding, DUPLICATE_CANDIDATES, note.embeddingModel)
+  ]);
+  return await findDuplicatesOf(note, [...samePage, ...nearest.map(result => result.note)], threshold);
+}
+
+// Save a prepared note, unless it matches saved notes: then it is held and the user picks what to do
+async function saveUnlessDuplicate(storage: StorageBackend, note: NewNote, chunks: EmbeddedChunk[], selection?: SelectionSave): Promise<SaveOutcome> {
+  const config = await ConfigManager.getConfig();
+  if (config.duplicateCheck) {
+    // A failed check shouldn't cost the user their note
+    const matches = await findSaveDuplicates(storage, note, config.duplicateThreshold).catch(error => {
+      console.error('Duplicate check failed, saving anyway:', error);
+      return [];
+    });
+
+    if (matches.length > 0) {
+      const { embedding, embeddingModel, embeddingDimensions, ...draft } = note;
+      const pendingId = await holdPendingSave({ id: crypto.randomUUID(), note: draft, matches, createdAt: Date.now(), selection });
+      await openDuplicateWindow(pendingId);
+      return { pendingId };
+    }
+  }
+
+  const saved = await storage.saveNote(note);
+  await storage.saveChunks(saved.id, chunks);
+  await updateRelatedNotes(storage, saved);
+  return { note: saved };
+}
+
+// Save a full-page article with its metadata
+async function saveArticle(article: ExtractedArticle): Promise<void> {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+
+    const content = `${article.title}\n\n${article.content}`;
+
+    const [chunks, tags, summary] = await Promise.all([
+      embedChunks(aiService, content),
+      generateTags(aiService, content),
+      summarizeContent(aiService, content)
+    ]);
+
+    const note = await storage.saveNote({
+      content,
+      ...noteEmbedding(aiService, chunks),
+      tags,
+      ...(summary && { summary }),
+      source: {
+        url: article.url,
+        title: article.title,
+        timestamp: Date.now(),
+        type: 'article',
+        byline: article.byline || undefined,
+        publishedAt: article.publishedAt || undefined,
+        siteName: article.siteName || undefined
+      }
+    });
+    await storage.saveChunks(note.id, chunks);
+    await updateRelatedNotes(storage, note);
+  } catch (error: any) {
+    console.error('Error saving article:', {
+      message: error?.message,
+      fullError: error
+    });
+    throw error;
+  }
+}
+
 // Message handler for communication with UI
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   handleMessage(request, sender).then(sendResponse).catch(error => {
@@ -299,29 +709,165 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   return true; // Keep channel open for async response
 });
 
+// Chat answers stream over a port: the panel sends { type: 'ask', question, threadId, noteIds?, collectionId? } or { type: 'cancel' },
+// and gets 'sources', then 'token' messages, then 'done' or 'cancelled' (with the saved threadId) or 'error'
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== CHAT_PORT) return;
+
+  let controller: AbortController | null = null;
+  let connected = true;
+  const send = (message: any) => {
+    if (connected) port.postMessage(message);
+  };
+
+  port.onMessage.addListener((message) => {
+    if (message.type === 'cancel') {
+      controller?.abort();
+    } else if (message.type === 'ask') {
+      controller?.abort();
+      controller = new AbortController();
+      streamAnswer(message.question, message.threadId || null, controller.signal, send, {
+        noteIds: message.noteIds,
+        collectionId: message.collectionId
+      });
+    }
+  });
+
+  // Closing the panel stops generation
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    controller?.abort();
+  });
+});
+
 async function handleMessage(request: any, sender: chrome.runtime.MessageSender): Promise<any> {
   const { action, data } = request;
 
   switch (action) {
-    case 'saveNote':
-      await saveNote(data.content, data.url, data.title);
-      return { success: true };
+    case 'saveNote': {
+      const { pendingId } = await saveNote(data.content, data.url, data.title, data.anchor);
+      return { success: true, duplicate: !!pendingId };
+    }
+
+    case 'getPendingSave':
+      return await getPendingSave(data.id);
+
+    case 'resolvePendingSave':
+      return await resolvePendingSave(data.id, data.resolution, data.targetId);
+
+    case 'discardPendingSave':
+      return await discardPendingSave(data.id);
+
+    case 'findDuplicates':
+      return await findDuplicates();
+
+    case 'resolveDuplicates':
+      return await resolveDuplicates(data.keepId, data.noteIds, data.merge);
+
+    case 'getPageHighlights':
+      return await getPageHighlights(data.url);
+
+    case 'openNoteInPanel':
+      return await openNoteInPanel(data.id, sender.tab?.id);
+
+    case 'savePage':
+      return { success: true, title: await savePage(data.tabId) };
 
     case 'searchNotes':
-      return await searchNotes(data.query);
+      return await searchNotes(data.query, data.mode, data.collectionId);
 
     case 'getRecentNotes':
-      return await getRecentNotes(data.limit);
+      return await getRecentNotes(data.limit, data.collectionId);
+
+    case 'updateNote':
+      return await updateNote(data.id, data.updates);
+
+    case 'suggestTags':
+      return await suggestTags(data.id, data.content);
+
+    case 'summarizeNote':
+      return await summarizeNote(data.id);
 
     case 'deleteNote':
       return await deleteNote(data.id);
 
     case 'askQuestion':
-      return await askQuestion(data.question);
+      return await askQuestion(data.question, { noteIds: data.noteIds, collectionId: data.collectionId });
+
+    case 'getCollections':
+      return await getCollections();
+
+    case 'createCollection':
+      return await createCollection(data.name, data.parentId ?? null);
+
+    case 'updateCollection':
+      return await updateCollection(data.id, data.changes);
+
+    case 'moveCollection':
+      return await moveCollection(data.id, data.direction);
+
+    case 'deleteCollection':
+      return await deleteCollection(data.id);
+
+    case 'addToCollection':
+      return await addToCollection(data.noteIds, data.collectionId);
 
     case 'getTags':
       return await getTags();
 
+    case 'getTagTaxonomy':
+      return await getTagTaxonomy();
+
+    case 'renameTag':
+      return await renameTag(data.tag, data.name);
+
+    case 'mergeTags':
+      return await mergeTags(data.tags, data.into);
+
+    case 'deleteTag':
+      return await deleteTag(data.tag);
+
+    case 'setTagParent':
+      return await setTagParent(data.tag, data.parent ?? null);
+
+    case 'removeTagSynonym':
+      return await removeTagSynonym(data.alias);
+
+    case 'suggestTagChanges':
+      return await getTagSuggestions();
+
+    case 'getRelatedNotes':
+      return await getRelatedNotes(data.id);
+
+    case 'getNoteGraph':
+      return await getNoteGraph(data?.collectionId);
+
+    case 'getNote':
+      return await getNote(data.id);
+
+    case 'getReviewQueue':
+      return await getReviewQueue();
+
+    case 'reviewNote':
+      return await reviewNote(data.id, data.grade);
+
+    case 'generateDigest':
+      return await generateDigestNow();
+
+    case 'getChatThreads':
+      return { threads: await ChatThreadStore.list() };
+
+    case 'getChatThread':
+      return { thread: await ChatThreadStore.get(data.id) };
+
+    case 'renameChatThread':
+      await ChatThreadStore.rename(data.id, data.title);
+      return { success: true };
+
+    case 'deleteChatThread':
+      await ChatThreadStore.delete(data.id);
+      return { success: true };
+
     case 'getConfig':
       return await chrome.storage.sync.get('config');
 
@@ -330,145 +876,1233 @@ async function handleMessage(request: any, sender: chrome.runtime.MessageSender)
       // Clear instances to force recreation with new config
       StorageFactory.clearInstance();
       AIFactory.clearInstance();
+      await updateReviewBadge();
       return { success: true };
 
     case 'deleteAllNotes':
       return await deleteAllNotes();
 
+    case 'getVectorIndexStats':
+      return await getVectorIndexStats();
+
+    case 'rebuildVectorIndex':
+      return await rebuildVectorIndex();
+
+    case 'exportVault':
+      return await exportVault();
+
+    case 'importVault':
+      return await importVault(data.zip, data.regenerateEmbeddings);
+
+    case 'createBackup':
+      return await backupNotes();
+
+    case 'restoreBackup':
+      return await restoreBackup(data.backup, data.conflictMode);
+
+    case 'migrateStorage':
+      return await migrateStorage(data.config);
+
+    case 'getEmbeddingStatus':
+      return await getEmbeddingStatus();
+
+    case 'startReembed':
+      return await startReembedJob();
+
+    case 'pauseReembed':
+      return await pauseReembedJob();
+
+    case 'getSyncStatus':
+      return await getSyncStatus();
+
+    case 'syncNow':
+      return await syncNow();
+
     default:
       throw new Error(`Unknown action: ${action}`);
   }
 }
 
-async function searchNotes(query: string) {
+// With a collectionId, only notes in that collection or the ones nested under it are searched
+async function searchNotes(query: string, mode?: 'keyword' | 'hybrid', collectionId?: string) {
   try {
     const storage = await StorageFactory.getStorage();
+    const config = await ConfigManager.getConfig();
+    const scope = collectionId ? await collectionScope(storage, collectionId) : null;
 
-    // Use simple text search instead of vector search to avoid irrelevant results
-    const notes = await storage.searchNotes(query);
+    if ((mode || config.searchMode) === 'hybrid') {
+      return { notes: await hybridSearch(query, config.similarityFloor, scope) };
+    }
 
-    return { notes };
+    // Keyword search, ranked by the storage backend
+    const notes = (await storage.searchNotes(query)).filter(note => !scope || inCollections(note, scope));
+    return { notes: notes.map(note => withMatchUrl(note, query)) };
   } catch (error) {
     console.error('Search error:', error);
     throw error;
   }
 }
 
-async function getRecentNotes(limit: number = 10) {
+// Rank notes by keyword relevance and vector similarity, fused with reciprocal rank fusion
+async function hybridSearch(query: string, similarityFloor: number, scope: string[] | null = null) {
+  const storage = await StorageFactory.getStorage();
+  const aiService = await AIFactory.getAIService();
+
+  // Keyword results come back best first from the storage backend's full-text search
+  const keywordResults = (await storage.searchNotes(query)).filter(note => !scope || inCollections(note, scope));
+
+  // Only trust semantic matches above the similarity floor
+  let vectorResults: VectorSearchResult[] = [];
   try {
-    const storage = await StorageFactory.getStorage();
-    const notes = await storage.getRecentNotes(limit);
-    return { notes };
+    const queryEmbedding = await embedSearchQuery(aiService, query);
+    // A collection keeps only some matches, so look further down the list for it
+    const limit = scope ? HYBRID_SEARCH_LIMIT * SCOPED_SEARCH_MULTIPLIER : HYBRID_SEARCH_LIMIT;
+    vectorResults = (await storage.searchByVector(queryEmbedding, limit, aiService.getEmbeddingModel()))
+      .filter(result => result.similarity >= similarityFloor && (!scope || inCollections(result.note, scope)));
   } catch (error) {
-    console.error('Get recent notes error:', error);
-    throw error;
+    console.warn('Vector search failed, using keyword results only:', error);
   }
+
+  const notesById = new Map(keywordResults.map(note => [note.id, note]));
+  const keywordRanks = new Map(keywordResults.map((note, index) => [note.id, index + 1]));
+  const vectorMatches = new Map(vectorResults.map(result => [result.note.id, result]));
+
+  const fused = reciprocalRankFusion(
+    [keywordResults.map(note => note.id), vectorResults.map(result => result.note.id)],
+    id => id
+  ).slice(0, HYBRID_SEARCH_LIMIT);
+
+  // Scale so a note ranked first by both keyword and vector search scores 1
+  const maxScore = 2 / (RRF_K + 1);
+
+  return fused.map(({ item: id, score }) => {
+    const vectorMatch = vectorMatches.get(id);
+    const keywordRank = keywordRanks.get(id);
+    const note = notesById.get(id) || vectorMatch!.note;
+
+    return {
+      ...withMatchUrl(note, query, vectorMatch?.passage),
+      score: Math.min(score / maxScore, 1),
+      keywordRank: keywordRank ?? null,
+      similarity: vectorMatch?.similarity ?? null,
+      matchType: keywordRank !== undefined && vectorMatch ? 'both' : keywordRank !== undefined ? 'keyword' : 'semantic'
+    };
+  });
 }
 
-async function deleteNote(id: string) {
+async function embedSearchQuery(aiService: AIService, query: string): Promise<number[]> {
+  const key = `${aiService.getEmbeddingModel()} ${query}`;
+  let embedding = queryEmbeddings.get(key);
+  if (embedding) {
+    // Move it to the newest end
+    queryEmbeddings.delete(key);
+  } else {
+    embedding = await aiService.generateEmbedding(query);
+  }
+
+  queryEmbeddings.set(key, embedding);
+  if (queryEmbeddings.size > QUERY_EMBEDDING_CACHE_SIZE) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+  }
+  return embedding;
+}
+
+// Link transcript hits to the moment the match is spoken
+function withMatchUrl(note: Note, query: string, passage?: NoteChunk | null): Note & { matchUrl?: string } {
+  if (!note.source?.transcriptSegments) return note;
+
+  const matchOffset = note.content.toLowerCase().indexOf(query.toLowerCase());
+  if (matchOffset >= 0) {
+    return { ...note, matchUrl: getDeepLink(note, matchOffset) };
+  }
+  return passage ? { ...note, matchUrl: getDeepLink(note, passage.start) } : note;
+}
+
+// A collection's notes are listed in full, newest first, rather than cut to the latest few
+async function getRecentNotes(limit: number = 10, collectionId?: string) {
   try {
     const storage = await StorageFactory.getStorage();
-    await storage.deleteNote(id);
-    return { success: true };
+    if (collectionId) {
+      const notes = await storage.getNotesInCollections(await collectionScope(storage, collectionId));
+      return { notes: notes.sort((a, b) => b.createdAt - a.createdAt) };
+    }
+    const notes = await storage.getRecentNotes(limit);
+    return { notes };
   } catch (error) {
-    console.error('Delete note error:', error);
+    console.error('Get recent notes error:', error);
     throw error;
   }
 }
 
-async function askQuestion(question: string) {
+// Edits from the note detail view; changed content or annotation gets new passages and a new embedding
+async function updateNote(id: string, updates: { content?: string; title?: string; tags?: string[]; annotation?: NoteAnnotation; collectionIds?: string[] }) {
   try {
     const storage = await StorageFactory.getStorage();
-    const aiService = await AIFactory.getAIService();
+    const note = await storage.getNote(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
 
-    // Check if the question is asking about a specific type of content
-    const questionLower = question.toLowerCase();
-    const isYouTubeQuery = questionLower.includes('youtube') || questionLower.includes('video');
-    
-    let relevantNotes: any[] = [];
-
-    if (isYouTubeQuery) {
-      // Get all notes and filter for YouTube videos
-      console.log('YouTube-specific query detected, filtering for youtube tag');
-      const allNotes = await storage.getAllNotes();
-      relevantNotes = allNotes
-        .filter(note => note.tags.includes('youtube') || note.source?.type === 'youtube')
-        .slice(0, 10); // Limit to 10 most recent YouTube videos
-      
-      console.log('Found', relevantNotes.length, 'YouTube videos');
-    } else {
-      // Use vector search for general queries
-      const queryEmbedding = await aiService.generateEmbedding(question);
-      console.log('Query embedding generated, dimensions:', queryEmbedding.length);
-      
-      relevantNotes = await storage.searchByVector(queryEmbedding, 5);
-      console.log('Vector search returned', relevantNotes.length, 'notes');
-
-      // If no results from vector search, try getting recent notes as fallback
-      if (relevantNotes.length === 0) {
-        console.log('No vector matches, falling back to recent notes');
-        const recentNotes = await storage.getRecentNotes(5);
-        relevantNotes.push(...recentNotes);
+    const changes: Partial<Note> = {};
+    let source = note.source;
+
+    if (updates.tags) {
+      changes.tags = applySynonyms(await TagTaxonomyStore.get(), cleanTags(updates.tags));
+    }
+
+    if (updates.collectionIds) {
+      // Collections deleted meanwhile are dropped
+      const existing = new Set((await storage.getCollections()).map(collection => collection.id));
+      changes.collectionIds = [...new Set(updates.collectionIds)].filter(collectionId => existing.has(collectionId));
+    }
+
+    const title = updates.title?.trim();
+    if (title && title !== note.source.title) {
+      source = { ...source, title };
+    }
+
+    let annotation = note.annotation;
+    if ('annotation' in updates) {
+      annotation = cleanAnnotation(updates.annotation);
+      if (!sameAnnotation(annotation, note.annotation)) {
+        changes.annotation = annotation;
       }
     }
 
-    // Combine note contents as context with better formatting
-    const context = relevantNotes
-      .map((note, index) => {
-        const isVideo = note.tags.includes('youtube') || note.source?.type === 'youtube';
-        
-        if (isVideo) {
-          // For YouTube videos, extract title and provide video context
-          const lines = note.content.split('\n');
-          const title = lines[0] || 'Unknown video';
-          const description = lines.slice(1).join(' ').substring(0, 200);
-          
-          return `${index + 1}. YouTube Video: "${title}"
-   - Topic tags: ${note.tags.filter(t => t !== 'youtube').join(', ') || 'general'}
-   - Description: ${description || 'No description available'}
-   - URL: ${note.source?.url || 'N/A'}`;
-        } else {
-          // For regular notes
-          return `${index + 1}. Note about: ${note.tags.slice(0, 3).join(', ')}
-   - Content: ${note.content.substring(0, 250)}...
-   - Source: ${note.source?.title || 'Unknown'}`;
-        }
-      })
-      .join('\n\n');
+    const content = updates.content?.trim() ?? note.content;
+    if (!content) {
+      throw new Error('Note is empty');
+    }
+    if (content !== note.content) {
+      changes.content = content;
+      // Caption positions no longer line up with edited text; links fall back to the saved moment
+      if (source.transcriptSegments) {
+        source = { ...source, transcriptSegments: undefined };
+      }
+    }
 
-    console.log('Context length:', context.length, 'chars');
-    console.log('Context preview:', context.substring(0, 500));
+    // The annotation is blended into the passage embeddings, so either change means embedding again
+    const annotationChanged = annotationText(annotation) !== annotationText(note.annotation);
+    let chunks: EmbeddedChunk[] | null = null;
+    if (content !== note.content || annotationChanged) {
+      const aiService = await AIFactory.getAIService();
+      chunks = await embedChunks(aiService, content, annotation);
+      Object.assign(changes, noteEmbedding(aiService, chunks));
 
-    // Generate answer
-    const answer = await aiService.answerQuestion(question, context);
+      // A summary of the old text would misdescribe the note
+      if (content !== note.content) {
+        changes.summary = await summarizeContent(aiService, content);
+      }
+    }
 
-    return {
-      answer,
-      sources: relevantNotes.map(note => ({
-        id: note.id,
-        content: note.content.substring(0, 200),
-        tags: note.tags,
-        isYouTube: note.tags.includes('youtube') || note.source?.type === 'youtube',
-        url: note.source?.url
-      }))
-    };
+    if (source !== note.source) {
+      changes.source = source;
+    }
+
+    // The note goes first, so a failed update leaves the old passages with the old text
+    const updated = await storage.updateNote(id, changes);
+    if (chunks) {
+      await storage.saveChunks(id, chunks);
+      await updateRelatedNotes(storage, updated);
+    }
+    return { note: updated };
   } catch (error) {
-    console.error('Question answering error:', error);
+    console.error('Update note error:', error);
     throw error;
   }
 }
 
-async function getTags() {
+// AI tags for a note being edited; nothing is saved until the edit is
+async function suggestTags(id: string, content: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+    const [note, tags] = await Promise.all([storage.getNote(id), generateTags(aiService, content)]);
+
+    // Videos keep the tag the side panel uses to show them as videos
+    if (note?.source.type === 'youtube' && !tags.includes('youtube')) {
+      tags.push('youtube');
+    }
+    return { tags };
+  } catch (error) {
+    console.error('Suggest tags error:', error);
+    throw error;
+  }
+}
+
+// Summary on request, for notes saved before summaries or too short to get one on save
+async function summarizeNote(id: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+    const note = await storage.getNote(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    const summary = await aiService.summarize(note.content);
+    const updated = await storage.updateNote(id, { summary });
+    return { note: updated };
+  } catch (error) {
+    console.error('Summarize note error:', error);
+    throw error;
+  }
+}
+
+async function deleteNote(id: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    await storage.deleteNote(id);
+    await forgetRelatedNotes([id]);
+    return { success: true };
+  } catch (error) {
+    console.error('Delete note error:', error);
+    throw error;
+  }
+}
+
+// Notes as the pages get them, without the embeddings they have no use for
+function withoutEmbedding(note: Note | NewNote) {
+  const { embedding, ...rest } = note;
+  return rest;
+}
+
+async function readPendingSaves(): Promise<Record<string, PendingSave>> {
+  const result = await chrome.storage.session.get(PENDING_SAVES_KEY);
+  return result[PENDING_SAVES_KEY] || {};
+}
+
+// Saves nobody decided on are dropped after a day
+async function holdPendingSave(pending: PendingSave): Promise<string> {
+  const saves = await readPendingSaves();
+  const fresh = Object.values(saves).filter(save => Date.now() - save.createdAt < PENDING_SAVE_MAX_AGE_MS);
+  await chrome.storage.session.set({
+    [PENDING_SAVES_KEY]: Object.fromEntries([...fresh, pending].map(save => [save.id, save]))
+  });
+  return pending.id;
+}
+
+async function releasePendingSave(id: string): Promise<void> {
+  const saves = await readPendingSaves();
+  delete saves[id];
+  await chrome.storage.session.set({ [PENDING_SAVES_KEY]: saves });
+}
+
+// The held note and the saved notes it matches, for the duplicate window
+async function getPendingSave(id: string) {
+  try {
+    const pending = (await readPendingSaves())[id];
+    if (!pending) {
+      throw new Error('This save was already handled');
+    }
+
+    const storage = await StorageFactory.getStorage();
+    const notes = await Promise.all(pending.matches.map(match => storage.getNote(match.noteId)));
+    return {
+      note: pending.note,
+      matches: pending.matches
+        .map((match, i) => ({ ...match, note: notes[i] && withoutEmbedding(notes[i]!) }))
+        .filter(match => !!match.note)
+    };
+  } catch (error) {
+    console.error('Get pending save error:', error);
+    throw error;
+  }
+}
+
+// Write the result of merging notes into the target, embedding again only when the text or annotation changed
+async function saveMergedNote(storage: StorageBackend, target: Note, merged: MergeableNote): Promise<Note> {
+  const changes: Partial<Note> = { ...merged };
+
+  let chunks: EmbeddedChunk[] | null = null;
+  if (merged.content !== target.content || annotationText(merged.annotation) !== annotationText(target.annotation)) {
+    const aiService = await AIFactory.getAIService();
+    chunks = await embedChunks(aiService, merged.content, merged.annotation);
+    Object.assign(changes, noteEmbedding(aiService, chunks));
+    if (merged.content !== target.content) {
+      changes.summary = await summarizeContent(aiService, merged.content);
+    }
+  }
+
+  const updated = await storage.updateNote(target.id, changes);
+  if (chunks) {
+    await storage.saveChunks(target.id, chunks);
+  }
+  return updated;
+}
+
+// The user's choice for a held save: merge it into a match, replace the match with it, or keep both
+async function resolvePendingSave(id: string, resolution: DuplicateResolution, targetId?: string) {
+  try {
+    const pending = (await readPendingSaves())[id];
+    if (!pending) {
+      throw new Error('This save was already handled');
+    }
+
+    const storage = await StorageFactory.getStorage();
+    let note: Note;
+
+    if (resolution === 'keep-both') {
+      const aiService = await AIFactory.getAIService();
+      const chunks = await embedChunks(aiService, pending.note.content);
+      note = await storage.saveNote({ ...pending.note, ...noteEmbedding(aiService, chunks) });
+      await storage.saveChunks(note.id, chunks);
+    } else {
+      const target = targetId ? await storage.getNote(targetId) : null;
+      if (!target) {
+        throw new Error('The matching note no longer exists');
+      }
+
+      if (resolution === 'merge') {
+        note = await saveMergedNote(storage, target, mergeNotes(target, pending.note));
+      } else {
+        // The saved note keeps its id, annotation and collections; its annotation is blended into the new passages
+        const aiService = await AIFactory.getAIService();
+        const chunks = await embedChunks(aiService, pending.note.content, target.annotation);
+        note = await storage.updateNote(target.id, {
+          content: pending.note.content,
+          tags: pending.note.tags,
+          source: pending.note.source,
+          summary: pending.note.summary,
+          ...noteEmbedding(aiService, chunks)
+        });
+        await storage.saveChunks(target.id, chunks);
+      }
+    }
+
+    await releasePendingSave(id);
+    await updateRelatedNotes(storage, note);
+    if (pending.selection) {
+      await finishSelectionSave(note, pending.selection);
+    }
+    return { note };
+  } catch (error) {
+    console.error('Resolve pending save error:', error);
+    throw error;
+  }
+}
+
+async function discardPendingSave(id: string) {
+  try {
+    await releasePendingSave(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Discard pending save error:', error);
+    throw error;
+  }
+}
+
+// Every group of notes that repeat each other, for the maintenance view in settings
+async function findDuplicates() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const config = await ConfigManager.getConfig();
+    const notes = await storage.getAllNotes();
+    const byId = new Map(notes.map(note => [note.id, note]));
+
+    const clusters = await clusterDuplicates(notes, config.duplicateThreshold, async note =>
+      (await storage.searchByVector(note.embedding, DUPLICATE_CANDIDATES, note.embeddingModel)).map(result => result.note)
+    );
+    return {
+      clusters: clusters.map(cluster => ({
+        ...cluster,
+        notes: cluster.noteIds.map(noteId => withoutEmbedding(byId.get(noteId)!))
+      }))
+    };
+  } catch (error) {
+    console.error('Find duplicates error:', error);
+    throw error;
+  }
+}
+
+// Keep one note of a cluster and delete the rest, merging their text, tags and annotations into it first if asked
+async function resolveDuplicates(keepId: string, noteIds: string[], merge: boolean) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    let kept = await storage.getNote(keepId);
+    if (!kept) {
+      throw new Error('Note not found');
+    }
+
+    const others = (await Promise.all(noteIds.filter(noteId => noteId !== keepId).map(noteId => storage.getNote(noteId))))
+      .filter((note): note is Note => !!note);
+
+    if (merge && others.length > 0) {
+      const merged = others.reduce<MergeableNote>((result, other) => mergeNotes(result, other), kept);
+      kept = await saveMergedNote(storage, kept, merged);
+    }
+    for (const other of others) {
+      await storage.deleteNote(other.id);
+    }
+    await forgetRelatedNotes(others.map(other => other.id));
+    if (merge && others.length > 0) {
+      await updateRelatedNotes(storage, kept);
+    }
+
+    return { note: kept, deleted: others.length };
+  } catch (error) {
+    console.error('Resolve duplicates error:', error);
+    throw error;
+  }
+}
+
+// Find a note's nearest neighbours and offer the note to each of them, so links are known from both sides
+// without recomputing the whole library. Related notes are an extra, so a failure never fails the save
+async function updateRelatedNotes(storage: StorageBackend, note: Note): Promise<void> {
+  try {
+    const config = await ConfigManager.getConfig();
+    const candidates = await storage.searchByVector(note.embedding, RELATED_LIMIT * 2, note.embeddingModel);
+    const related = nearestNotes(note, candidates.map(result => result.note), config.similarityFloor);
+
+    const now = Date.now();
+    const entries = new Map<string, RelatedEntry>([[note.id, { embeddingModel: note.embeddingModel, related, updatedAt: now }]]);
+    const neighbourEntries = await RelatedNotesStore.get(related.map(neighbour => neighbour.noteId));
+    for (const neighbour of related) {
+      // Neighbours without a list yet get one the first time they are opened
+      const entry = neighbourEntries.get(neighbour.noteId);
+      if (!entry || entry.embeddingModel !== note.embeddingModel) continue;
+      const updated = withNeighbour(entry.related, { noteId: note.id, similarity: neighbour.similarity });
+      if (updated) entries.set(neighbour.noteId, { ...entry, related: updated, updatedAt: now });
+    }
+
+    await RelatedNotesStore.set(entries);
+  } catch (error) {
+    console.error('Failed to update related notes:', error);
+  }
+}
+
+// Drop deleted notes and take them out of their neighbours' lists; other lists that still name them are
+// cleaned up when read
+async function forgetRelatedNotes(noteIds: string[]): Promise<void> {
+  try {
+    const deleted = new Set(noteIds);
+    const entries = await RelatedNotesStore.get(noteIds);
+    const neighbourIds = [...new Set([...entries.values()].flatMap(entry => entry.related.map(neighbour => neighbour.noteId)))]
+      .filter(neighbourId => !deleted.has(neighbourId));
+
+    const neighbourEntries = await RelatedNotesStore.get(neighbourIds);
+    neighbourEntries.forEach(entry => {
+      entry.related = entry.related.filter(neighbour => !deleted.has(neighbour.noteId));
+    });
+
+    await RelatedNotesStore.set(neighbourEntries);
+    await RelatedNotesStore.remove(noteIds);
+  } catch (error) {
+    console.error('Failed to forget related notes:', error);
+  }
+}
+
+// "See also" for the note detail view; notes saved before related notes existed get their list now
+async function getRelatedNotes(id: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const note = await storage.getNote(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    let entry = (await RelatedNotesStore.get([id])).get(id);
+    if (!entry || entry.embeddingModel !== note.embeddingModel) {
+      await updateRelatedNotes(storage, note);
+      entry = (await RelatedNotesStore.get([id])).get(id);
+    }
+
+    const neighbours = entry?.related || [];
+    const notes = await Promise.all(neighbours.map(neighbour => storage.getNote(neighbour.noteId)));
+    return {
+      related: neighbours
+        .map((neighbour, i) => ({ note: notes[i] && withoutEmbedding(notes[i]!), similarity: neighbour.similarity }))
+        .filter(result => !!result.note)
+    };
+  } catch (error) {
+    console.error('Get related notes error:', error);
+    throw error;
+  }
+}
+
+// One at a time, so each note sees the lists the ones before it updated
+async function fillRelatedNotes(storage: StorageBackend, notes: Note[]): Promise<void> {
+  for (const note of notes) {
+    await updateRelatedNotes(storage, note);
+  }
+}
+
+// Notes with no stored list, or one found with an embedding model they no longer use
+function staleRelatedNotes(notes: Note[], entries: Map<string, RelatedEntry>): Note[] {
+  return notes.filter(note => {
+    const entry = entries.get(note.id);
+    return !entry || entry.embeddingModel !== note.embeddingModel;
+  });
+}
+
+// Nodes and links for the graph view, limited to the newest notes of the library or of a collection
+async function getNoteGraph(collectionId?: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const all = await storage.getAllNotes();
+    const scope = collectionId ? await collectionScope(storage, collectionId) : null;
+    const inScope = scope ? all.filter(note => inCollections(note, scope)) : all;
+    const notes = [...inScope].sort((a, b) => b.createdAt - a.createdAt).slice(0, GRAPH_MAX_NOTES);
+
+    // Stored lists are used as they are. Notes without a current one get it from the vector index, a batch
+    // per opening, and show only their tag links until then
+    const ids = notes.map(note => note.id);
+    await fillRelatedNotes(storage, staleRelatedNotes(notes, await RelatedNotesStore.get(ids)).slice(0, GRAPH_FILL_BATCH));
+    const entries = await RelatedNotesStore.get(ids);
+    const missing = staleRelatedNotes(notes, entries);
+    missing.forEach(note => entries.delete(note.id));
+
+    const related = new Map([...entries].map(([noteId, entry]) => [noteId, entry.related]));
+    return { graph: buildNoteGraph(notes, related), total: inScope.length, pending: missing.length };
+  } catch (error) {
+    console.error('Get note graph error:', error);
+    throw error;
+  }
+}
+
+// Notes due for review, as many as today's limit has left, with the latest digest. Cards of deleted notes,
+// here or on another device, are dropped on the way
+async function getReviewQueue() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const config = await ConfigManager.getConfig();
+    const [notes, cards, digests] = await Promise.all([storage.getAllNotes(), ReviewStore.getCards(), ReviewStore.getDigests()]);
+
+    const ids = new Set(notes.map(note => note.id));
+    const orphans = Object.keys(cards).filter(noteId => !ids.has(noteId));
+    if (orphans.length > 0) {
+      orphans.forEach(noteId => delete cards[noteId]);
+      await ReviewStore.saveCards(cards);
+    }
+
+    const due = config.reviewQueue ? dueNotes(notes, cards) : [];
+    const reviewedToday = reviewedSince(cards, startOfDay());
+    const left = Math.max(0, config.reviewDailyLimit - reviewedToday);
+    return {
+      enabled: config.reviewQueue,
+      queue: due.slice(0, left).map(({ note, card }) => ({ note: withoutEmbedding(note), card })),
+      due: due.length,
+      reviewedToday,
+      dailyLimit: config.reviewDailyLimit,
+      digest: digests[0] || null
+    };
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    throw error;
+  }
+}
+
+function reviewedSince(cards: Record<string, ReviewCard>, since: number): number {
+  return Object.values(cards).filter(card => (card.lastReviewedAt || 0) >= since).length;
+}
+
+// Remember pushes the next review further out, forgot brings it back tomorrow, archive ends it
+async function reviewNote(id: string, grade: ReviewGrade) {
+  try {
+    if (!['remember', 'forgot', 'archive'].includes(grade)) {
+      throw new Error(`Unknown review grade: ${grade}`);
+    }
+
+    const storage = await StorageFactory.getStorage();
+    const note = await storage.getNote(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    const cards = await ReviewStore.getCards();
+    const card = gradeCard(cards[id] || newCard(note), grade);
+    await ReviewStore.saveCards({ ...cards, [id]: card });
+    await updateReviewBadge();
+    return { card };
+  } catch (error) {
+    console.error('Review note error:', error);
+    throw error;
+  }
+}
+
+// Notes left to review today on the toolbar icon; cleared when review is off or nothing is due
+async function updateReviewBadge(): Promise<void> {
+  try {
+    const config = await ConfigManager.getConfig();
+    let count = 0;
+    if (config.reviewQueue) {
+      const storage = await StorageFactory.getStorage();
+      const [notes, cards] = await Promise.all([storage.getAllNotes(), ReviewStore.getCards()]);
+      const left = Math.max(0, config.reviewDailyLimit - reviewedSince(cards, startOfDay()));
+      count = Math.min(left, dueNotes(notes, cards).length);
+    }
+    await chrome.action.setBadgeText({ text: count > 0 ? String(count) : '' });
+  } catch (error) {
+    console.error('Failed to update review badge:', error);
+  }
+}
+
+// Digest of the newest notes saved over the last day or week, grouped by topic; a list of titles when the AI fails
+async function generateDigest(frequency: ReviewDigest['frequency']): Promise<ReviewDigest | null> {
+  const storage = await StorageFactory.getStorage();
+  const now = Date.now();
+  const from = now - DIGEST_PERIOD_MS[frequency];
+  const notes = (await storage.getAllNotes())
+    .filter(note => note.createdAt >= from)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, DIGEST_MAX_NOTES);
+  if (notes.length === 0) return null;
+
+  const topics = groupByTopic(notes, await TagTaxonomyStore.get());
+  const notesById = new Map(notes.map(note => [note.id, note]));
+  let text = '';
+  try {
+    const aiService = await AIFactory.getAIService();
+    text = (await aiService.generateCompletion(buildDigestPrompt(frequency, topics, notesById))).trim();
+  } catch (error) {
+    console.error('Digest failed, listing titles instead:', error);
+  }
+
+  const digest: ReviewDigest = {
+    id: crypto.randomUUID(),
+    frequency,
+    from,
+    to: now,
+    text: text || plainDigest(topics, notesById),
+    topics,
+    createdAt: now
+  };
+  await ReviewStore.addDigest(digest);
+  return digest;
+}
+
+// From the review tab; uses the configured period, or a week when scheduled digests are off
+async function generateDigestNow() {
+  try {
+    const config = await ConfigManager.getConfig();
+    const digest = await generateDigest(config.digestFrequency === 'off' ? 'weekly' : config.digestFrequency);
+    return { digest };
+  } catch (error) {
+    console.error('Generate digest error:', error);
+    throw error;
+  }
+}
+
+// Ids a collection-scoped search or chat covers: the collection and its nested collections
+async function collectionScope(storage: StorageBackend, collectionId: string): Promise<string[]> {
+  return collectionSubtree(await storage.getCollections(), collectionId);
+}
+
+async function getCollections() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    return { collections: collections.sort((a, b) => a.order - b.order || a.createdAt - b.createdAt) };
+  } catch (error) {
+    console.error('Get collections error:', error);
+    throw error;
+  }
+}
+
+async function createCollection(name: string, parentId: string | null) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    if (parentId && !collections.some(collection => collection.id === parentId)) {
+      throw new Error('Parent collection not found');
+    }
+
+    const now = Date.now();
+    const collection = await storage.putCollection({
+      id: crypto.randomUUID(),
+      name: cleanCollectionName(name),
+      parentId,
+      order: nextCollectionOrder(collections, parentId),
+      createdAt: now,
+      updatedAt: now
+    });
+    return { collection };
+  } catch (error) {
+    console.error('Create collection error:', error);
+    throw error;
+  }
+}
+
+// Rename, or move under another parent (null for the top level), where it goes after its new siblings
+async function updateCollection(id: string, changes: { name?: string; parentId?: string | null }) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    const collection = collections.find(c => c.id === id);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    const updated: Collection = { ...collection, updatedAt: Date.now() };
+    if (changes.name !== undefined) {
+      updated.name = cleanCollectionName(changes.name);
+    }
+    if (changes.parentId !== undefined && changes.parentId !== collection.parentId) {
+      if (createsCollectionCycle(collections, id, changes.parentId)) {
+        throw new Error('A collection cannot be moved inside itself');
+      }
+      if (changes.parentId && !collections.some(c => c.id === changes.parentId)) {
+        throw new Error('Parent collection not found');
+      }
+      updated.parentId = changes.parentId;
+      updated.order = nextCollectionOrder(collections, changes.parentId);
+    }
+
+    return { collection: await storage.putCollection(updated) };
+  } catch (error) {
+    console.error('Update collection error:', error);
+    throw error;
+  }
+}
+
+// Swap places with the sibling above or below
+async function moveCollection(id: string, direction: 'up' | 'down') {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    const collection = collections.find(c => c.id === id);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    // Renumber the siblings so equal orders left by concurrent edits can't make the swap a no-op
+    const siblings = childCollections(collections, collection.parentId);
+    const index = siblings.findIndex(c => c.id === id);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= siblings.length) {
+      return { success: true };
+    }
+    [siblings[index], siblings[target]] = [siblings[target], siblings[index]];
+
+    const now = Date.now();
+    for (const [order, sibling] of siblings.entries()) {
+      if (sibling.order !== order) {
+        await storage.putCollection({ ...sibling, order, updatedAt: now });
+      }
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Move collection error:', error);
+    throw error;
+  }
+}
+
+// Deletes the collection and the ones nested in it; their notes are kept, just taken out of them
+async function deleteCollection(id: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    const removed = collectionSubtree(collections, id);
+
+    const now = Date.now();
+    for (const collection of collections.filter(c => removed.includes(c.id))) {
+      await storage.putCollection({ ...collection, deletedAt: now, updatedAt: now });
+    }
+
+    for (const note of await storage.getNotesInCollections(removed)) {
+      await storage.updateNote(note.id, {
+        collectionIds: (note.collectionIds || []).filter(collectionId => !removed.includes(collectionId))
+      });
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Delete collection error:', error);
+    throw error;
+  }
+}
+
+async function addToCollection(noteIds: string[], collectionId: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const collections = await storage.getCollections();
+    if (!collections.some(collection => collection.id === collectionId)) {
+      throw new Error('Collection not found');
+    }
+
+    let added = 0;
+    for (const noteId of noteIds) {
+      const note = await storage.getNote(noteId);
+      if (!note || note.collectionIds?.includes(collectionId)) continue;
+      await storage.updateNote(noteId, { collectionIds: [...(note.collectionIds || []), collectionId] });
+      added++;
+    }
+    return { success: true, added };
+  } catch (error) {
+    console.error('Add to collection error:', error);
+    throw error;
+  }
+}
+
+async function askQuestion(question: string, scope: ChatScope = {}) {
+  try {
+    const aiService = await AIFactory.getAIService();
+    const { context, sources } = scope.noteIds?.length
+      ? await buildNoteContext(aiService, question, scope.noteIds)
+      : await buildAnswerContext(aiService, question, scope.collectionId);
+
+    // Generate answer
+    const answer = await aiService.answerQuestion(question, context);
+
+    return { answer, sources: markCitedSources(answer, sources) };
+  } catch (error) {
+    console.error('Question answering error:', error);
+    throw error;
+  }
+}
+
+// With noteIds the answer comes only from those notes, and with a collectionId only from that collection
+async function streamAnswer(question: string, threadId: string | null, signal: AbortSignal, send: (message: any) => void, scope: ChatScope = {}) {
+  try {
+    const aiService = await AIFactory.getAIService();
+    const thread = threadId ? await ChatThreadStore.get(threadId) : null;
+    const history = thread?.messages || [];
+
+    // Search with the follow-up resolved against the conversation, answer with the conversation in view
+    const { context, sources } = scope.noteIds?.length
+      ? await buildNoteContext(aiService, question, scope.noteIds)
+      : await buildAnswerContext(aiService, await standaloneQuestion(aiService, history, question), scope.collectionId);
+    if (signal.aborted) {
+      send({ type: 'cancelled', threadId });
+      return;
+    }
+
+    send({ type: 'sources', sources });
+    let answer = '';
+    for await (const text of aiService.streamAnswer(question, context, history, signal)) {
+      if (signal.aborted) break;
+      answer += text;
+      send({ type: 'token', text });
+    }
+
+    // A stopped answer is kept too, so the thread reads the same when reopened
+    const citedSources = markCitedSources(answer, sources);
+    const saved = answer ? await ChatThreadStore.appendExchange(thread?.id ?? null, question, answer, citedSources, scope) : thread;
+    send({ type: signal.aborted ? 'cancelled' : 'done', threadId: saved?.id ?? null, sources: citedSources });
+  } catch (error: any) {
+    console.error('Streaming answer error:', error);
+    send({ type: 'error', error: error?.message || String(error) });
+  }
+}
+
+// Rewrite a follow-up like "what about the second one?" into a question that can be searched on its own
+async function standaloneQuestion(aiService: AIService, history: ChatTurn[], question: string): Promise<string> {
+  if (history.length === 0) return question;
+
+  try {
+    const rewritten = cleanStandaloneQuestion(await aiService.generateCompletion(buildStandaloneQuestionPrompt(history, question)));
+    return rewritten || question;
+  } catch (error) {
+    console.error('Follow-up rewrite failed, searching with the question as asked:', error);
+    return question;
+  }
+}
+
+// Find the notes relevant to a question and format them as context for the AI
+async function buildAnswerContext(aiService: AIService, question: string, collectionId?: string) {
+  const storage = await StorageFactory.getStorage();
+  const config = await ConfigManager.getConfig();
+  const contextBudget = clampContextBudget(config.retrievalContextBudget, config.aiProvider);
+  const pipeline = new RetrievalPipeline({
+    storage,
+    aiService,
+    settings: {
+      topK: config.retrievalTopK,
+      contextBudget,
+      rerank: config.retrievalRerank,
+      queryFilters: config.retrievalQueryFilters
+    },
+    taxonomy: await TagTaxonomyStore.get()
+  });
+
+  const scope = collectionId ? { collectionIds: await collectionScope(storage, collectionId) } : {};
+  const { candidates } = await pipeline.retrieve(question, scope);
+  return buildContext(candidates, contextBudget);
+}
+
+// Context from the notes chosen by the user, skipping retrieval: whole notes when they fit the budget, otherwise
+// each note's passages closest to the question, so the answer still comes only from those notes
+async function buildNoteContext(aiService: AIService, question: string, noteIds: string[]) {
+  const storage = await StorageFactory.getStorage();
+  const config = await ConfigManager.getConfig();
+  const budget = clampContextBudget(SCOPED_CONTEXT_BUDGET, config.aiProvider);
+  const notes = (await Promise.all(noteIds.map(id => storage.getNote(id))))
+    .filter((note): note is Note => note !== null);
+
+  if (notes.length === 0) {
+    throw new Error('The selected notes no longer exist');
+  }
+
+  const length = notes.reduce((sum, note) => sum + note.content.length, 0);
+  if (length <= budget) {
+    return buildContext(notes.map(note => ({ note, passage: null })), budget);
+  }
+
+  const perNote = Math.floor(budget / notes.length);
+  const questionEmbedding = await aiService.generateEmbedding(question);
+  const embeddingModel = aiService.getEmbeddingModel();
+  const retrieved = await Promise.all(notes.map(async (note): Promise<RetrievedNote> => {
+    if (note.content.length <= perNote) return { note, passage: null };
+    const chunks = (await storage.getChunks(note.id)).filter(chunk => isCompatibleEmbedding(chunk, questionEmbedding, embeddingModel));
+    return { note, passage: closestPassages(chunks, questionEmbedding, perNote) };
+  }));
+  return buildContext(retrieved, budget);
+}
+
+// The chunks closest to the question that fit the space, joined in reading order; null leaves the note to be cut short
+function closestPassages(chunks: NoteChunk[], questionEmbedding: number[], space: number): NoteChunk | null {
+  const ranked = chunks
+    .map(chunk => ({ chunk, similarity: cosineSimilarity(chunk.embedding, questionEmbedding) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const picked: NoteChunk[] = [];
+  let used = 0;
+  for (const { chunk } of ranked) {
+    const size = chunk.content.length + (picked.length > 0 ? PASSAGE_SEPARATOR.length : 0);
+    if (picked.length > 0 && used + size > space) continue;
+    picked.push(chunk);
+    used += size;
+  }
+  if (picked.length === 0) return null;
+
+  picked.sort((a, b) => a.start - b.start);
+  return {
+    ...picked[0],
+    content: picked.map(chunk => chunk.content).join(PASSAGE_SEPARATOR),
+    end: picked[picked.length - 1].end
+  };
+}
+
+async function getNote(id: string) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    return { note: await storage.getNote(id) };
+  } catch (error) {
+    console.error('Get note error:', error);
+    throw error;
+  }
+}
+
+// Selections saved from this page, for the content script to highlight
+async function getPageHighlights(url: string): Promise<{ highlights: PageHighlight[] }> {
+  try {
+    const config = await ConfigManager.getConfig();
+    if (!config.pageHighlights) return { highlights: [] };
+
+    const storage = await StorageFactory.getStorage();
+    const notes = await storage.getNotesByUrl(url);
+    const highlights = notes
+      // Whole pages and YouTube clips are not passages of the page
+      .filter(note => !note.source.type && (note.source.anchor || note.content.length <= MAX_QUOTE_LENGTH))
+      .map(note => ({
+        noteId: note.id,
+        anchor: note.source.anchor || { quote: { exact: note.content, prefix: '', suffix: '' } },
+        tags: note.tags,
+        annotation: note.annotation
+      }));
+    return { highlights };
+  } catch (error) {
+    console.error('Get page highlights error:', error);
+    throw error;
+  }
+}
+
+// Open the side panel on a note clicked on a page; the panel picks the request up from storage
+async function openNoteInPanel(noteId: string, tabId?: number) {
+  try {
+    // The panel may only be opened while the click still counts as a user gesture, so before any await
+    const opening = tabId !== undefined ? chrome.sidePanel.open({ tabId }) : Promise.resolve();
+    await chrome.storage.local.set({ [OPEN_NOTE_KEY]: { id: noteId, requestedAt: Date.now() } });
+    await opening;
+    return { success: true };
+  } catch (error) {
+    console.error('Open note in panel error:', error);
+    throw error;
+  }
+}
+
+async function getTags() {
   try {
     const storage = await StorageFactory.getStorage();
     const tags = await storage.getTags();
     return { tags };
   } catch (error) {
-    console.error('Get tags error:', error);
+    console.error('Get tags error:', error);
+    throw error;
+  }
+}
+
+// Every tag with its note count, parent and aliases, for the tag manager
+async function getTagTaxonomy() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const [notes, taxonomy] = await Promise.all([storage.getAllNotes(), TagTaxonomyStore.get()]);
+    return { tags: summarizeTags(taxonomy, tagStatistics(notes).counts) };
+  } catch (error) {
+    console.error('Get tag taxonomy error:', error);
+    throw error;
+  }
+}
+
+// A name as notes store it; names cleanTags would drop are refused rather than silently lost
+function cleanTagName(name: string): string {
+  const [tag] = cleanTags([name || '']);
+  if (!tag) {
+    throw new Error(`"${name}" can't be used as a tag`);
+  }
+  return tag;
+}
+
+function assertEditableTag(tag: string) {
+  if (SOURCE_TAGS.has(tag)) {
+    throw new Error(`#${tag} marks the source type and can't be changed`);
+  }
+}
+
+// Rewrite the tags of every note carrying one, through updateNote like any edit from the side panel
+async function retagNotes(tag: string, retag: (tags: string[]) => string[]): Promise<number> {
+  const storage = await StorageFactory.getStorage();
+  const notes = await storage.searchByTag(tag);
+  for (const note of notes) {
+    await updateNote(note.id, { tags: retag(note.tags) });
+  }
+  return notes.length;
+}
+
+// The taxonomy is saved first, so updateNote already files retagged notes under the new names
+async function renameTag(tag: string, name: string) {
+  try {
+    assertEditableTag(tag);
+    const taxonomy = await TagTaxonomyStore.get();
+    // A tag renamed to one of its own aliases takes that name; any other alias means joining the tag it stands for
+    const cleaned = cleanTagName(name);
+    const renamed = taxonomy.synonyms[cleaned] === tag ? cleaned : canonicalTag(taxonomy, cleaned);
+    assertEditableTag(renamed);
+    if (renamed === tag) {
+      return { success: true, tag, updated: 0 };
+    }
+
+    await TagTaxonomyStore.save(renameInTaxonomy(taxonomy, tag, renamed));
+    const updated = await retagNotes(tag, tags => tags.map(t => (t === tag ? renamed : t)));
+    return { success: true, tag: renamed, updated };
+  } catch (error) {
+    console.error('Rename tag error:', error);
+    throw error;
+  }
+}
+
+// Merged tags stay behind as aliases of the one they went into; merging a name no note carries just adds the alias
+async function mergeTags(tags: string[], into: string) {
+  try {
+    let taxonomy = await TagTaxonomyStore.get();
+    const target = canonicalTag(taxonomy, cleanTagName(into));
+    const merged = [...new Set(tags.map(cleanTagName))].filter(tag => tag !== target);
+    [target, ...merged].forEach(assertEditableTag);
+
+    for (const tag of merged) {
+      taxonomy = mergeInTaxonomy(taxonomy, tag, target);
+    }
+    await TagTaxonomyStore.save(taxonomy);
+
+    let updated = 0;
+    for (const tag of merged) {
+      updated += await retagNotes(tag, noteTags => noteTags.map(t => (t === tag ? target : t)));
+    }
+    return { success: true, tag: target, updated };
+  } catch (error) {
+    console.error('Merge tags error:', error);
+    throw error;
+  }
+}
+
+// Children of the tag move up to its parent; the notes keep their other tags
+async function deleteTag(tag: string) {
+  try {
+    assertEditableTag(tag);
+    await TagTaxonomyStore.save(removeFromTaxonomy(await TagTaxonomyStore.get(), tag));
+    const updated = await retagNotes(tag, tags => tags.filter(t => t !== tag));
+    return { success: true, updated };
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    throw error;
+  }
+}
+
+// A null parent makes the tag top-level again
+async function setTagParent(tag: string, parent: string | null) {
+  try {
+    const taxonomy = await TagTaxonomyStore.get();
+    const parents = { ...taxonomy.parents };
+    if (parent) {
+      const parentTag = canonicalTag(taxonomy, cleanTagName(parent));
+      if (!canSetParent(taxonomy, tag, parentTag)) {
+        throw new Error(parentTag === tag ? "A tag can't be its own parent" : `#${parentTag} is already filed under #${tag}`);
+      }
+      parents[tag] = parentTag;
+    } else {
+      delete parents[tag];
+    }
+    await TagTaxonomyStore.save({ ...taxonomy, parents });
+    return { success: true };
+  } catch (error) {
+    console.error('Set tag parent error:', error);
+    throw error;
+  }
+}
+
+// New notes given the alias keep it; notes already merged are not split back out
+async function removeTagSynonym(alias: string) {
+  try {
+    const taxonomy = await TagTaxonomyStore.get();
+    const { [alias]: removed, ...synonyms } = taxonomy.synonyms;
+    await TagTaxonomyStore.save({ ...taxonomy, synonyms });
+    return { success: true };
+  } catch (error) {
+    console.error('Remove tag synonym error:', error);
+    throw error;
+  }
+}
+
+// Merge and parent suggestions for the tag manager; only the most used tags have their names embedded
+async function getTagSuggestions() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const [notes, taxonomy] = await Promise.all([storage.getAllNotes(), TagTaxonomyStore.get()]);
+    const stats = tagStatistics(notes);
+    const tags = [...stats.counts.keys()]
+      .filter(tag => !SOURCE_TAGS.has(tag))
+      .sort((a, b) => stats.counts.get(b)! - stats.counts.get(a)!)
+      .slice(0, TAG_SUGGESTION_LIMIT);
+
+    // Spelling and co-occurrence still give suggestions when embeddings can't be had
+    const nameEmbeddings = await embedTagNames(tags).catch(error => {
+      console.warn('Tag name embeddings failed, suggesting without them:', error);
+      return new Map<string, number[]>();
+    });
+    return { suggestions: suggestTagChanges(taxonomy, stats, nameEmbeddings) };
+  } catch (error) {
+    console.error('Suggest tag changes error:', error);
     throw error;
   }
 }
 
+async function embedTagNames(tags: string[]): Promise<Map<string, number[]>> {
+  const aiService = await AIFactory.getAIService();
+  const model = aiService.getEmbeddingModel();
+  const embeddings = new Map<string, number[]>();
+
+  // Sequential to stay within provider rate limits
+  for (const tag of tags) {
+    const key = `${model} ${tag}`;
+    let embedding = tagNameEmbeddings.get(key);
+    if (!embedding) {
+      embedding = await aiService.generateEmbedding(tag.replace(/-/g, ' '));
+      tagNameEmbeddings.set(key, embedding);
+    }
+    embeddings.set(tag, embedding);
+  }
+  return embeddings;
+}
+
 async function deleteAllNotes() {
   try {
     const storage = await StorageFactory.getStorage();
@@ -477,6 +2111,9 @@ async function deleteAllNotes() {
     for (const note of notes) {
       await storage.deleteNote(note.id);
     }
+    await RelatedNotesStore.clear();
+    await ReviewStore.clear();
+    await updateReviewBadge();
     return { success: true, deletedCount: notes.length };
   } catch (error) {
     console.error('Delete all notes error:', error);
@@ -484,6 +2121,491 @@ async function deleteAllNotes() {
   }
 }
 
+// The backend reads come from, looking through a storage mirror or sync
+function primaryStorage(storage: StorageBackend): StorageBackend {
+  if (storage instanceof MirroredStorage) return storage.primary;
+  if (storage instanceof SyncedStorage) return storage.local;
+  return storage;
+}
+
+// The ANN index only exists for local storage; direct Supabase access searches with pgvector
+async function getLocalStorage(): Promise<IndexDBStorage> {
+  const storage = primaryStorage(await StorageFactory.getStorage());
+  if (!(storage instanceof IndexDBStorage)) {
+    throw new Error('The vector index is only used with IndexedDB storage');
+  }
+  return storage;
+}
+
+async function getVectorIndexStats() {
+  try {
+    const storage = await getLocalStorage();
+    return { stats: await storage.getVectorIndexStats() };
+  } catch (error) {
+    console.error('Vector index stats error:', error);
+    throw error;
+  }
+}
+
+async function rebuildVectorIndex() {
+  try {
+    const storage = await getLocalStorage();
+    return { success: true, stats: await storage.rebuildVectorIndex() };
+  } catch (error) {
+    console.error('Vector index rebuild error:', error);
+    throw error;
+  }
+}
+
+// Export every note as a zipped Markdown vault (base64, since messages can't carry binary)
+async function exportVault() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const notes = await storage.getAllNotes();
+    const date = new Date().toISOString().slice(0, 10);
+
+    return {
+      fileName: `squirrel-vault-${date}.zip`,
+      zip: bytesToBase64(buildVaultZip(notes)),
+      count: notes.length
+    };
+  } catch (error) {
+    console.error('Vault export error:', error);
+    throw error;
+  }
+}
+
+// Import Markdown notes from a zipped vault; without regenerated embeddings they wait for the re-embed job
+async function importVault(zip: string, regenerateEmbeddings: boolean) {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+    const files = readVaultZip(base64ToBytes(zip));
+
+    let imported = 0;
+    const failed: { fileName: string; error: string }[] = [];
+
+    for (const { fileName, markdown } of files) {
+      try {
+        const vaultNote = markdownToNote(markdown, fileName);
+        if (!vaultNote.content.trim()) {
+          throw new Error('Note is empty');
+        }
+
+        const chunks = regenerateEmbeddings ? await embedChunks(aiService, vaultNote.content, vaultNote.annotation) : [];
+        const note = await storage.saveNote({
+          content: vaultNote.content,
+          tags: vaultNote.tags,
+          source: vaultNote.source,
+          annotation: vaultNote.annotation,
+          createdAt: vaultNote.createdAt,
+          updatedAt: vaultNote.updatedAt,
+          ...(regenerateEmbeddings ? noteEmbedding(aiService, chunks) : { embedding: [] })
+        });
+
+        if (chunks.length > 0) {
+          await storage.saveChunks(note.id, chunks);
+        }
+        imported++;
+      } catch (error: any) {
+        console.error('Vault import failed for', fileName, error);
+        failed.push({ fileName, error: error?.message || String(error) });
+      }
+    }
+
+    return { imported, failed };
+  } catch (error) {
+    console.error('Vault import error:', error);
+    throw error;
+  }
+}
+
+// Lossless JSON backup of every note with its passages and embeddings
+async function backupNotes() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const config = await ConfigManager.getConfig();
+    const notes = await storage.getAllNotes();
+
+    const backupNotes: BackupNote[] = [];
+    for (const note of notes) {
+      const chunks = await storage.getChunks(note.id);
+      backupNotes.push({
+        ...note,
+        chunks: chunks.map(({ id, noteId, ...chunk }) => chunk)
+      });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return {
+      fileName: `squirrel-backup-${date}.json`,
+      backup: JSON.stringify(createBackup(backupNotes, config.storageBackend, await storage.getCollections())),
+      count: notes.length
+    };
+  } catch (error) {
+    console.error('Backup error:', error);
+    throw error;
+  }
+}
+
+// Restore a backup into the current storage backend, which may differ from the one it was taken from
+async function restoreBackup(json: string, conflictMode: ConflictMode = 'skip') {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const backup = parseBackup(json);
+
+    const result = {
+      restored: 0,
+      skipped: 0,
+      duplicated: 0,
+      failed: [] as { id: string; title: string; error: string }[]
+    };
+
+    // Collections first, so restored notes land in them; existing ones are only replaced when overwriting
+    const existingCollections = new Set((await storage.getCollections()).map(collection => collection.id));
+    for (const collection of backup.collections) {
+      if (!existingCollections.has(collection.id) || conflictMode === 'overwrite') {
+        await storage.putCollection(collection);
+      }
+    }
+
+    for (const { chunks, ...note } of backup.notes) {
+      try {
+        const exists = !!(await storage.getNote(note.id));
+
+        if (exists && conflictMode === 'skip') {
+          result.skipped++;
+          continue;
+        }
+
+        let noteId = note.id;
+        if (exists && conflictMode === 'duplicate') {
+          // Keep both: the restored copy gets a new id
+          const { id, ...copy } = note;
+          noteId = (await storage.saveNote(copy)).id;
+          result.duplicated++;
+        } else {
+          await storage.putNote(note);
+          result.restored++;
+        }
+
+        // Replaces the passages of an overwritten note, even when the backup has none
+        await storage.saveChunks(noteId, chunks);
+      } catch (error: any) {
+        console.error('Restore failed for note', note.id, error);
+        result.failed.push({ id: note.id, title: note.source.title, error: error?.message || String(error) });
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Restore error:', error);
+    throw error;
+  }
+}
+
+async function saveMigration(migration: StorageMigration): Promise<void> {
+  await chrome.storage.local.set({ [MIGRATION_KEY]: { ...migration, updatedAt: Date.now() } });
+}
+
+// Copy every note and its passages from the current backend to the one in newConfig, verify, then switch
+// Ids are kept, so re-running after a partial failure only fills in what is missing
+async function migrateStorage(newConfig: AppConfig) {
+  const config = await ConfigManager.getConfig();
+  const targetConfig = { ...config, ...newConfig };
+
+  const migration: StorageMigration = {
+    status: 'running',
+    from: config.storageBackend,
+    to: targetConfig.storageBackend,
+    total: 0,
+    copied: 0,
+    failed: [],
+    truncated: 0,
+    missing: [],
+    startedAt: Date.now(),
+    updatedAt: Date.now()
+  };
+
+  try {
+    if (migration.from === migration.to) {
+      throw new Error('Choose a different storage backend to migrate to');
+    }
+
+    // Push pending local edits first so the copy taken from Supabase is current
+    const current = await StorageFactory.getStorage();
+    if (current instanceof SyncedStorage) {
+      await current.engine.sync();
+    }
+
+    const source = StorageFactory.createBackend(migration.from, config);
+    const target = StorageFactory.createBackend(migration.to, targetConfig);
+    await source.initialize();
+    await target.initialize();
+
+    for (const collection of await source.getCollections()) {
+      await target.putCollection(collection);
+    }
+
+    const notes = await source.getAllNotes();
+    migration.total = notes.length;
+    await saveMigration(migration);
+
+    for (const note of notes) {
+      try {
+        // SupabaseStorage pads or truncates vectors to its column size as it writes them
+        if (migration.to === 'supabase' && note.embedding.length > SupabaseStorage.VECTOR_DIMENSIONS) {
+          migration.truncated++;
+        }
+
+        const chunks = await source.getChunks(note.id);
+        await target.putNote(note);
+        await target.saveChunks(note.id, chunks.map(({ id, noteId, ...chunk }) => chunk));
+        migration.copied++;
+      } catch (error: any) {
+        console.error('Migration failed for note', note.id, error);
+        migration.failed.push({ id: note.id, title: note.source.title, error: error?.message || String(error) });
+      }
+      await saveMigration(migration);
+    }
+
+    // Verify every source note made it across
+    const targetNotes = await target.getAllNotes();
+    const targetIds = new Set(targetNotes.map(note => note.id));
+    migration.targetCount = targetNotes.length;
+    migration.missing = notes.filter(note => !targetIds.has(note.id)).map(note => note.id);
+
+    if (migration.failed.length > 0 || migration.missing.length > 0) {
+      migration.status = 'failed';
+      migration.error = 'Some notes were not copied; the storage backend was not switched';
+    } else {
+      migration.status = 'completed';
+      if (source instanceof IndexDBStorage) {
+        await source.outbox.setState(LOCAL_NOTES_COPIED_KEY, true);
+      }
+      await chrome.storage.sync.set({ config: targetConfig });
+      StorageFactory.clearInstance();
+      AIFactory.clearInstance();
+    }
+  } catch (error: any) {
+    console.error('Storage migration error:', error);
+    migration.status = 'failed';
+    migration.error = error?.message || String(error);
+  }
+
+  await saveMigration(migration);
+  return migration;
+}
+
+async function getReembedJob(): Promise<ReembedJob | null> {
+  const result = await chrome.storage.local.get(REEMBED_JOB_KEY);
+  return result[REEMBED_JOB_KEY] || null;
+}
+
+async function saveReembedJob(job: ReembedJob): Promise<void> {
+  await chrome.storage.local.set({ [REEMBED_JOB_KEY]: { ...job, updatedAt: Date.now() } });
+}
+
+// How many notes were embedded by the current model, and the state of any re-embedding job
+async function getEmbeddingStatus() {
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+    const model = aiService.getEmbeddingModel();
+    const notes = await storage.getAllNotes();
+
+    return {
+      model,
+      total: notes.length,
+      current: notes.filter(note => note.embeddingModel === model).length,
+      job: await getReembedJob()
+    };
+  } catch (error) {
+    console.error('Embedding status error:', error);
+    throw error;
+  }
+}
+
+async function startReembedJob() {
+  const aiService = await AIFactory.getAIService();
+  const existing = await getReembedJob();
+  const model = aiService.getEmbeddingModel();
+
+  // Resume a paused or interrupted job for the same model instead of starting over
+  const job: ReembedJob = existing && existing.model === model && existing.status !== 'completed'
+    ? { ...existing, status: 'running', error: undefined }
+    : {
+      status: 'running',
+      model,
+      total: 0,
+      processed: 0,
+      failedNoteIds: [],
+      startedAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+  await saveReembedJob(job);
+  // Wakes the worker to pick the job back up if Chrome shuts it down mid-run
+  chrome.alarms.create(REEMBED_ALARM, { periodInMinutes: 1 });
+
+  reembedStopRequested = false;
+  runReembedJob();
+  return { success: true, job };
+}
+
+async function pauseReembedJob() {
+  const job = await getReembedJob();
+  if (job && job.status === 'running') {
+    reembedStopRequested = true;
+    await saveReembedJob({ ...job, status: 'paused' });
+    await chrome.alarms.clear(REEMBED_ALARM);
+  }
+  return { success: true };
+}
+
+// Re-embed every note not yet embedded by the current model; safe to call repeatedly
+async function runReembedJob(): Promise<void> {
+  if (reembedRunning) return;
+
+  let job = await getReembedJob();
+  if (!job || job.status !== 'running') return;
+
+  reembedRunning = true;
+  try {
+    const storage = await StorageFactory.getStorage();
+    const aiService = await AIFactory.getAIService();
+    const model = aiService.getEmbeddingModel();
+
+    // The provider changed while the job was paused or interrupted
+    if (job.model !== model) {
+      job = { ...job, model, processed: 0, failedNoteIds: [], startedAt: Date.now() };
+    }
+
+    const notes = await storage.getAllNotes();
+    const failed = new Set(job.failedNoteIds);
+    const pending = notes.filter(note => note.embeddingModel !== model && !failed.has(note.id));
+    job = { ...job, total: notes.length, processed: Math.max(0, notes.length - pending.length - failed.size) };
+    await saveReembedJob(job);
+
+    for (const note of pending) {
+      if (reembedStopRequested) return;
+
+      try {
+        const chunks = await embedChunks(aiService, note.content, note.annotation);
+        // Chunks first: the note's model is what marks it as done if the worker stops here
+        await storage.saveChunks(note.id, chunks);
+        await storage.updateNote(note.id, noteEmbedding(aiService, chunks));
+        job.processed++;
+      } catch (error) {
+        console.error('Re-embedding failed for note', note.id, error);
+        job.failedNoteIds.push(note.id);
+      }
+
+      // A pause already saved its own state
+      if (reembedStopRequested) return;
+      await saveReembedJob(job);
+    }
+
+    await saveReembedJob({ ...job, status: 'completed' });
+    await chrome.alarms.clear(REEMBED_ALARM);
+
+    // Retrain the local ANN index on the new vectors
+    const primary = primaryStorage(storage);
+    if (primary instanceof IndexDBStorage) {
+      await primary.rebuildVectorIndex();
+    }
+  } catch (error: any) {
+    console.error('Re-embedding job error:', error);
+    await saveReembedJob({ ...job, status: 'failed', error: error?.message || String(error) });
+    await chrome.alarms.clear(REEMBED_ALARM);
+  } finally {
+    reembedRunning = false;
+  }
+}
+
+async function getSyncedStorage(): Promise<SyncedStorage> {
+  const storage = await StorageFactory.getStorage();
+  if (!(storage instanceof SyncedStorage)) {
+    throw new Error('Sync is only used with Supabase storage');
+  }
+  return storage;
+}
+
+async function getSyncStatus() {
+  try {
+    const storage = await getSyncedStorage();
+    return { status: await storage.engine.getStatus() };
+  } catch (error) {
+    console.error('Sync status error:', error);
+    throw error;
+  }
+}
+
+async function syncNow() {
+  try {
+    const storage = await getSyncedStorage();
+    await storage.engine.sync();
+    return { success: true, status: await storage.engine.getStatus() };
+  } catch (error) {
+    console.error('Sync error:', error);
+    throw error;
+  }
+}
+
+// Periodic sync picks up changes made on other devices while this one was idle
+async function runScheduledSync(): Promise<void> {
+  const storage = await StorageFactory.getStorage();
+  if (storage instanceof SyncedStorage) {
+    await storage.engine.sync().catch(error => console.error('Scheduled sync failed:', error));
+  }
+}
+
+// Refreshes the badge, and writes the digest once a full period has passed since the last one
+async function runScheduledReview(): Promise<void> {
+  try {
+    await updateReviewBadge();
+
+    const config = await ConfigManager.getConfig();
+    if (config.digestFrequency === 'off') return;
+    const [latest] = await ReviewStore.getDigests();
+    if (latest && Date.now() - latest.createdAt < DIGEST_PERIOD_MS[config.digestFrequency]) return;
+
+    const digest = await generateDigest(config.digestFrequency);
+    if (digest && chrome.notifications) {
+      const count = digest.topics.reduce((sum, topic) => sum + topic.noteIds.length, 0);
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+        title: 'Squirrel',
+        message: `Your ${digest.frequency} digest of ${count} note${count === 1 ? '' : 's'} is ready in the Review tab.`
+      });
+    }
+  } catch (error) {
+    console.error('Scheduled review failed:', error);
+  }
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === REEMBED_ALARM) {
+    runReembedJob();
+  } else if (alarm.name === SYNC_ALARM) {
+    runScheduledSync();
+  } else if (alarm.name === REVIEW_ALARM) {
+    runScheduledReview();
+  }
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  runReembedJob();
+  runScheduledSync();
+  runScheduledReview();
+});
+
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.alarms.create(SYNC_ALARM, { periodInMinutes: SYNC_INTERVAL_MINUTES });
+  chrome.alarms.create(REVIEW_ALARM, { periodInMinutes: REVIEW_INTERVAL_MINUTES });
+});
+
 // Handle extension icon click to open side panel
 chrome.action.onClicked.addListener((tab) => {
   if (tab.id) {
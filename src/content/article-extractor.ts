@@ -0,0 +1,173 @@
+// Readability-style extraction of the main article body from a page
+
+export interface ExtractedArticle {
+  title: string;
+  byline: string | null;
+  publishedAt: number | null;
+  siteName: string | null;
+  url: string;
+  content: string;
+}
+
+// Elements that never contain article text
+const STRIP_TAGS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas',
+  'form', 'button', 'input', 'select', 'textarea',
+  'nav', 'aside', 'footer', 'header', 'dialog'
+];
+
+// class/id hints for boilerplate (ads, comments, share bars, ...)
+const UNLIKELY_CANDIDATES = /(^|[\s_-])(ad|ads|advert|advertisement|banner|breadcrumbs?|comments?|disqus|cookie|consent|footer|masthead|menu|modal|nav|newsletter|outbrain|pagination|popup|promo|related|share|sharing|sidebar|social|sponsor|subscribe|taboola|tags|toolbar|widget)([\s_-]|$)/i;
+const MAYBE_CANDIDATES = /article|body|column|content|entry|main|post|story|text/i;
+
+// Block elements whose text is kept as separate paragraphs
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figcaption, td';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+export function extractArticle(doc: Document = document): ExtractedArticle {
+  const root = findArticleRoot(cleanDocument(doc));
+
+  return {
+    title: getTitle(doc),
+    byline: getByline(doc),
+    publishedAt: getPublishedAt(doc),
+    siteName: getMeta(doc, ['og:site_name', 'application-name']),
+    url: getCanonicalUrl(doc),
+    content: root ? collectText(root) : ''
+  };
+}
+
+// Work on a detached copy so the live page is never modified
+function cleanDocument(doc: Document): HTMLElement {
+  const body = doc.body.cloneNode(true) as HTMLElement;
+
+  body.querySelectorAll(STRIP_TAGS.join(',')).forEach(el => el.remove());
+  body.querySelectorAll('[hidden], [aria-hidden="true"], [role="navigation"], [role="complementary"], [role="banner"], [role="contentinfo"]')
+    .forEach(el => el.remove());
+
+  Array.from(body.querySelectorAll<HTMLElement>('*')).forEach(el => {
+    if (!body.contains(el) || el.tagName === 'ARTICLE' || el.tagName === 'MAIN') return;
+    const hint = `${el.className} ${el.id}`;
+    if (UNLIKELY_CANDIDATES.test(hint) && !MAYBE_CANDIDATES.test(hint)) {
+      el.remove();
+    }
+  });
+
+  return body;
+}
+
+function findArticleRoot(body: HTMLElement): HTMLElement | null {
+  // Prefer explicit semantic markup when it holds a reasonable amount of text
+  const semantic = body.querySelector<HTMLElement>('[itemprop="articleBody"], article, [role="main"], main');
+  if (semantic && textLength(semantic) > 500) {
+    return semantic;
+  }
+
+  // Otherwise score paragraph containers, readability-style
+  const scores = new Map<HTMLElement, number>();
+  body.querySelectorAll('p, pre, blockquote').forEach(paragraph => {
+    const text = paragraph.textContent?.trim() || '';
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parentElement;
+    const grandparent = parent?.parentElement;
+
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    // Penalize link-heavy containers such as link lists and teasers
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best || semantic || body;
+}
+
+function collectText(root: HTMLElement): string {
+  const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTOR))
+    // Skip blocks nested in another block (e.g. <p> inside <li>) to avoid duplicates
+    .filter(el => {
+      const outer = el.parentElement?.closest(BLOCK_SELECTOR);
+      return !outer || !root.contains(outer);
+    })
+    .map(el => normalizeWhitespace(el.textContent || ''))
+    .filter(text => text.length > 0);
+
+  if (blocks.length === 0) {
+    return normalizeWhitespace(root.textContent || '');
+  }
+
+  return blocks.join('\n\n');
+}
+
+function getTitle(doc: Document): string {
+  return getMeta(doc, ['og:title', 'twitter:title'])
+    || doc.querySelector('article h1, h1')?.textContent?.trim()
+    || doc.title
+    || 'Untitled';
+}
+
+function getByline(doc: Document): string | null {
+  const meta = getMeta(doc, ['author', 'article:author', 'twitter:creator']);
+  if (meta && !/^https?:\/\//.test(meta)) return meta;
+
+  const el = doc.querySelector('[itemprop="author"] [itemprop="name"], [itemprop="author"], [rel="author"], .byline, .author');
+  const text = normalizeWhitespace(el?.textContent || '');
+  return text && text.length < 100 ? text.replace(/^by\s+/i, '') : null;
+}
+
+function getPublishedAt(doc: Document): number | null {
+  const value = getMeta(doc, ['article:published_time', 'datePublished', 'date', 'dc.date'])
+    || doc.querySelector('[itemprop="datePublished"]')?.getAttribute('content')
+    || doc.querySelector('time[datetime]')?.getAttribute('datetime');
+
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+function getCanonicalUrl(doc: Document): string {
+  const href = doc.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href
+    || getMeta(doc, ['og:url']);
+
+  try {
+    return href ? new URL(href, doc.location.href).href : doc.location.href;
+  } catch {
+    return doc.location.href;
+  }
+}
+
+function getMeta(doc: Document, names: string[]): string | null {
+  for (const name of names) {
+    const el = doc.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+    const content = el?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return null;
+}
+
+function linkDensity(el: HTMLElement): number {
+  const total = textLength(el);
+  if (total === 0) return 0;
+
+  const linkText = Array.from(el.querySelectorAll('a'))
+    .reduce((sum, a) => sum + (a.textContent?.trim().length || 0), 0);
+  return Math.min(linkText / total, 1);
+}
+
+function textLength(el: Element): number {
+  return (el.textContent || '').trim().length;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,4 +1,10 @@
-// Content script for capturing text selection and YouTube clips
+// Content script for capturing text selection, full articles and YouTube clips
+import { extractArticle } from './article-extractor';
+import { CaptionSegment } from '../utils/youtube-utils';
+import { TextAnchor } from '../storage/storage-interface';
+import { UI_ATTRIBUTE, describeRange } from './text-anchor';
+import { refreshPageHighlights } from './page-highlights';
+
 console.log('AI Notes content script loaded');
 
 // Detect if we're on YouTube
@@ -31,7 +37,7 @@ function formatTimestamp(seconds: number): string {
 }
 
 // Fetch YouTube transcript using YouTube's API (auto-captions)
-async function fetchYouTubeTranscript(videoId: string): Promise<string> {
+async function fetchYouTubeTranscript(videoId: string): Promise<CaptionSegment[]> {
   try {
     // First, try to get the transcript from the page's initial data
     const scripts = document.querySelectorAll('script');
@@ -60,28 +66,30 @@ async function fetchYouTubeTranscript(videoId: string): Promise<string> {
     
     if (!captionsUrl) {
       console.log('No captions available for this video');
-      return '';
+      return [];
     }
     
     // Fetch and parse the transcript
     const response = await fetch(captionsUrl);
     const xmlText = await response.text();
     
-    // Parse XML and extract text
+    // Parse XML and extract timed caption segments
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
     const textElements = xmlDoc.querySelectorAll('text');
     
-    const transcript = Array.from(textElements)
-      .map(el => el.textContent || '')
-      .map(text => text.replace(/&amp;#39;/g, "'").replace(/&amp;quot;/g, '"').replace(/&amp;/g, '&'))
-      .join(' ')
-      .trim();
-    
-    return transcript;
+    return Array.from(textElements)
+      .map(el => ({
+        start: parseFloat(el.getAttribute('start') || '0'),
+        duration: parseFloat(el.getAttribute('dur') || '0'),
+        text: (el.textContent || '')
+          .replace(/&amp;#39;/g, "'").replace(/&amp;quot;/g, '"').replace(/&amp;/g, '&')
+          .trim()
+      }))
+      .filter(segment => segment.text.length > 0);
   } catch (error) {
     console.error('Failed to fetch transcript:', error);
-    return '';
+    return [];
   }
 }
 
@@ -101,6 +109,13 @@ function getYouTubeMetadata(): { title: string; channel: string; thumbnail: stri
   return { title, channel, thumbnail };
 }
 
+// Anchor for the current selection, so the saved passage can be highlighted on later visits
+function getSelectionAnchor(): TextAnchor | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+  return describeRange(selection.getRangeAt(0));
+}
+
 // Listen for messages from the extension
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.action === 'getSelection') {
@@ -114,6 +129,23 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     });
   }
   
+  if (request.action === 'getSelectionAnchor') {
+    sendResponse({ anchor: getSelectionAnchor() });
+  }
+
+  if (request.action === 'refreshHighlights') {
+    refreshPageHighlights();
+    sendResponse({ success: true });
+  }
+
+  if (request.action === 'extractArticle') {
+    try {
+      sendResponse({ article: extractArticle() });
+    } catch (error: any) {
+      sendResponse({ article: null, error: error.message });
+    }
+  }
+
   if (request.action === 'getYouTubeInfo') {
     const videoId = getYouTubeVideoId();
     const timestamp = getYouTubeTimestamp();
@@ -130,14 +162,14 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.action === 'fetchTranscript') {
     const videoId = getYouTubeVideoId();
     if (videoId) {
-      fetchYouTubeTranscript(videoId).then(transcript => {
-        sendResponse({ transcript });
+      fetchYouTubeTranscript(videoId).then(segments => {
+        sendResponse({ segments });
       }).catch(error => {
-        sendResponse({ transcript: '', error: error.message });
+        sendResponse({ segments: [], error: error.message });
       });
       return true; // Keep channel open for async response
     } else {
-      sendResponse({ transcript: '', error: 'No video ID found' });
+      sendResponse({ segments: [], error: 'No video ID found' });
     }
   }
   
@@ -155,17 +187,23 @@ document.addEventListener('keydown', async (event) => {
     if (selectedText) {
       try {
         // Send to background script
-        await chrome.runtime.sendMessage({
+        const response = await chrome.runtime.sendMessage({
           action: 'saveNote',
           data: {
             content: selectedText,
             url: window.location.href,
-            title: document.title
+            title: document.title,
+            anchor: getSelectionAnchor()
           }
         });
         
-        // Visual feedback
+        // Visual feedback; a duplicate is only saved once the user picks what to do with it
+        if (response?.duplicate) {
+          showSaveConfirmation('Already saved, choose what to do in the Squirrel window');
+          return;
+        }
         showSaveConfirmation();
+        refreshPageHighlights();
       } catch (error) {
         console.error('Failed to save note:', error);
       }
@@ -174,9 +212,10 @@ document.addEventListener('keydown', async (event) => {
 });
 
 // Show a temporary confirmation message
-function showSaveConfirmation() {
+function showSaveConfirmation(message: string = '✓ Saved to AI Notes') {
   const notification = document.createElement('div');
-  notification.textContent = '✓ Saved to AI Notes';
+  notification.textContent = message;
+  notification.setAttribute(UI_ATTRIBUTE, '');
   notification.style.cssText = `
     position: fixed;
     top: 20px;
@@ -228,3 +267,6 @@ style.textContent = `
 `;
 document.head.appendChild(style);
 
+// Highlight passages saved from this page on earlier visits
+refreshPageHighlights();
+
@@ -0,0 +1,191 @@
+// Highlights of passages saved from the current page, with a hover card and click-to-open
+import { NoteAnnotation, TextAnchor } from '../storage/storage-interface';
+import { MAX_RATING } from '../utils/annotation-utils';
+import { UI_ATTRIBUTE, anchorToRange, unwrap, wrapRange } from './text-anchor';
+
+// A saved passage as the service worker sends it for highlighting
+export interface PageHighlight {
+  noteId: string;
+  anchor: TextAnchor;
+  tags: string[];
+  annotation?: NoteAnnotation;
+}
+
+const HIGHLIGHT_CLASS = 'squirrel-highlight';
+const RETRY_DELAY_MS = 2000; // Pages that render late get one more try
+
+let marks: HTMLElement[] = [];
+let tooltip: HTMLElement | null = null;
+let retryTimer: number | undefined;
+
+export async function refreshPageHighlights(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getPageHighlights',
+      data: { url: window.location.href }
+    });
+    if (!response || response.error) return;
+
+    clearTimeout(retryTimer);
+    clearHighlights();
+    const missed = drawHighlights(response.highlights as PageHighlight[]);
+    if (missed.length > 0) {
+      retryTimer = window.setTimeout(() => drawHighlights(missed), RETRY_DELAY_MS);
+    }
+  } catch (error) {
+    console.error('Failed to load page highlights:', error);
+  }
+}
+
+// Returns the highlights whose text could not be found
+function drawHighlights(highlights: PageHighlight[]): PageHighlight[] {
+  const missed: PageHighlight[] = [];
+  for (const highlight of highlights) {
+    const range = anchorToRange(highlight.anchor);
+    if (!range) {
+      missed.push(highlight);
+      continue;
+    }
+    marks.push(...wrapRange(range, () => createMark(highlight)));
+  }
+  return missed;
+}
+
+function clearHighlights() {
+  hideTooltip();
+  marks.forEach(mark => unwrap(mark));
+  marks = [];
+}
+
+function createMark(highlight: PageHighlight): HTMLElement {
+  const mark = document.createElement('mark');
+  mark.className = HIGHLIGHT_CLASS;
+  mark.dataset.noteId = highlight.noteId;
+  mark.addEventListener('mouseenter', () => showTooltip(mark, highlight));
+  mark.addEventListener('mouseleave', hideTooltip);
+  mark.addEventListener('click', (event) => {
+    // Let links inside the passage work as usual
+    if ((event.target as HTMLElement).closest('a')) return;
+    event.preventDefault();
+    chrome.runtime.sendMessage({ action: 'openNoteInPanel', data: { id: highlight.noteId } })
+      .catch(error => console.error('Failed to open note:', error));
+  });
+  return mark;
+}
+
+// Built with textContent only: tags and annotations must never become page markup
+function showTooltip(mark: HTMLElement, { tags, annotation }: PageHighlight) {
+  hideTooltip();
+  tooltip = document.createElement('div');
+  tooltip.className = 'squirrel-tooltip';
+  tooltip.setAttribute(UI_ATTRIBUTE, '');
+
+  if (annotation?.rating) {
+    const rating = document.createElement('div');
+    rating.className = 'squirrel-tooltip-rating';
+    rating.textContent = '★'.repeat(annotation.rating) + '☆'.repeat(MAX_RATING - annotation.rating);
+    tooltip.appendChild(rating);
+  }
+  if (annotation?.reason) {
+    const reason = document.createElement('div');
+    reason.className = 'squirrel-tooltip-reason';
+    reason.textContent = annotation.reason;
+    tooltip.appendChild(reason);
+  }
+  if (annotation?.comment) {
+    const comment = document.createElement('div');
+    comment.textContent = annotation.comment;
+    tooltip.appendChild(comment);
+  }
+  if (tags.length > 0) {
+    const tagList = document.createElement('div');
+    tagList.className = 'squirrel-tooltip-tags';
+    tags.forEach(tag => {
+      const chip = document.createElement('span');
+      chip.textContent = tag;
+      tagList.appendChild(chip);
+    });
+    tooltip.appendChild(tagList);
+  }
+  const hint = document.createElement('div');
+  hint.className = 'squirrel-tooltip-hint';
+  hint.textContent = 'Click to open in Squirrel';
+  tooltip.appendChild(hint);
+
+  document.body.appendChild(tooltip);
+
+  // Above the passage, or below it when there is no room at the top of the viewport
+  const rect = mark.getBoundingClientRect();
+  const height = tooltip.offsetHeight;
+  const top = rect.top - height - 8 >= 0 ? rect.top - height - 8 : rect.bottom + 8;
+  const left = Math.min(Math.max(8, rect.left), window.innerWidth - tooltip.offsetWidth - 8);
+  tooltip.style.top = `${top}px`;
+  tooltip.style.left = `${left}px`;
+}
+
+function hideTooltip() {
+  tooltip?.remove();
+  tooltip = null;
+}
+
+const style = document.createElement('style');
+style.setAttribute(UI_ATTRIBUTE, '');
+style.textContent = `
+  mark.${HIGHLIGHT_CLASS} {
+    background: rgba(250, 204, 21, 0.4);
+    color: inherit;
+    border-radius: 2px;
+    cursor: pointer;
+  }
+
+  mark.${HIGHLIGHT_CLASS}:hover {
+    background: rgba(250, 204, 21, 0.65);
+  }
+
+  .squirrel-tooltip {
+    position: fixed;
+    z-index: 999999;
+    max-width: 320px;
+    padding: 10px 12px;
+    background: #1f2937;
+    color: #f9fafb;
+    border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 13px;
+    line-height: 1.4;
+    pointer-events: none;
+  }
+
+  .squirrel-tooltip > div + div {
+    margin-top: 6px;
+  }
+
+  .squirrel-tooltip-rating {
+    color: #facc15;
+    letter-spacing: 1px;
+  }
+
+  .squirrel-tooltip-reason {
+    font-weight: 600;
+  }
+
+  .squirrel-tooltip-tags {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px;
+  }
+
+  .squirrel-tooltip-tags span {
+    padding: 1px 8px;
+    background: rgba(255, 255, 255, 0.15);
+    border-radius: 999px;
+    font-size: 12px;
+  }
+
+  .squirrel-tooltip-hint {
+    color: #9ca3af;
+    font-size: 12px;
+  }
+`;
+document.head.appendChild(style);
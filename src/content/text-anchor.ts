@@ -0,0 +1,194 @@
+// Text anchors: describe a selection so it can be found again when the page is revisited
+import { TextAnchor } from '../storage/storage-interface';
+
+const CONTEXT_LENGTH = 32; // Characters of surrounding text kept on each side of the quote
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA', 'TEMPLATE']);
+
+// Elements the extension adds to the page (tooltips, toasts) are not part of its text
+export const UI_ATTRIBUTE = 'data-squirrel-ui';
+
+// The page's text as one string, and where each text node starts in it
+interface TextIndex {
+  text: string;
+  nodes: Text[];
+  starts: number[];
+}
+
+function indexText(root: Node): TextIndex {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      const parent = node.parentElement;
+      if (!parent || SKIPPED_TAGS.has(parent.tagName) || parent.closest(`[${UI_ATTRIBUTE}]`)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    }
+  });
+
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let text = '';
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    starts.push(text.length);
+    text += node.data;
+  }
+  return { text, nodes, starts };
+}
+
+// Text offset of a range boundary, which may sit in a text node or between an element's children
+function boundaryOffset(index: TextIndex, container: Node, offset: number): number {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const i = index.nodes.indexOf(container as Text);
+    if (i !== -1) return index.starts[i] + offset;
+  }
+
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const next = index.nodes.findIndex(node => point.comparePoint(node, 0) >= 0);
+  return next === -1 ? index.text.length : index.starts[next];
+}
+
+export function describeRange(range: Range, root: Node = document.body): TextAnchor | null {
+  const index = indexText(root);
+  const start = boundaryOffset(index, range.startContainer, range.startOffset);
+  const end = boundaryOffset(index, range.endContainer, range.endOffset);
+  if (end <= start) return null;
+
+  return {
+    quote: {
+      exact: index.text.slice(start, end),
+      prefix: index.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+      suffix: index.text.slice(end, end + CONTEXT_LENGTH)
+    },
+    position: { start, end }
+  };
+}
+
+// Whitespace runs collapsed to one space, keeping where each character came from
+function collapseWhitespace(text: string): { text: string; origins: number[] } {
+  let collapsed = '';
+  const origins: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace && collapsed.endsWith(' ')) continue;
+    collapsed += isSpace ? ' ' : text[i];
+    origins.push(i);
+  }
+  return { text: collapsed, origins };
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+function sharedSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
+
+// Character offsets of the anchored text in the page, or null when the quote is gone
+function locate(index: TextIndex, anchor: TextAnchor): { start: number; end: number } | null {
+  const { quote, position } = anchor;
+
+  // Unchanged pages: the recorded position still holds the quote
+  if (position && index.text.slice(position.start, position.end) === quote.exact) {
+    return position;
+  }
+
+  // Otherwise search for the quote, ignoring whitespace differences from re-rendering, and pick the
+  // occurrence whose surroundings best match the saved context, then the one nearest the old position
+  const page = collapseWhitespace(index.text);
+  const exact = quote.exact.replace(/\s+/g, ' ').trim();
+  if (!exact) return null;
+  const prefix = quote.prefix.replace(/\s+/g, ' ');
+  const suffix = quote.suffix.replace(/\s+/g, ' ');
+
+  let best: { start: number; end: number; score: number } | null = null;
+  for (let at = page.text.indexOf(exact); at !== -1; at = page.text.indexOf(exact, at + 1)) {
+    const start = page.origins[at];
+    const end = page.origins[at + exact.length - 1] + 1;
+    const before = page.text.slice(Math.max(0, at - 2 * CONTEXT_LENGTH), at);
+    const after = page.text.slice(at + exact.length, at + exact.length + 2 * CONTEXT_LENGTH);
+    const context = sharedSuffixLength(before.trimEnd(), prefix.trimEnd())
+      + sharedPrefixLength(after.trimStart(), suffix.trimStart());
+    const distance = position ? Math.abs(start - position.start) / Math.max(index.text.length, 1) : 0;
+    const score = context - distance;
+    if (!best || score > best.score) best = { start, end, score };
+  }
+  return best;
+}
+
+// The text node holding a character offset; a range end belongs to the node it closes
+function pointAt(index: TextIndex, offset: number, isEnd: boolean): { node: Text; offset: number } | null {
+  for (let i = 0; i < index.nodes.length; i++) {
+    const start = index.starts[i];
+    const end = start + index.nodes[i].data.length;
+    if (isEnd ? offset > start && offset <= end : offset >= start && offset < end) {
+      return { node: index.nodes[i], offset: offset - start };
+    }
+  }
+  return null;
+}
+
+export function anchorToRange(anchor: TextAnchor, root: Node = document.body): Range | null {
+  const index = indexText(root);
+  const match = locate(index, anchor);
+  if (!match) return null;
+
+  const start = pointAt(index, match.start, false);
+  const end = pointAt(index, match.end, true);
+  if (!start || !end) return null;
+
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  return range;
+}
+
+// Wrap each piece of text in the range, splitting text nodes at the range boundaries
+export function wrapRange(range: Range, createWrapper: () => HTMLElement): HTMLElement[] {
+  const { startContainer, startOffset, endContainer, endOffset } = range;
+  const root = range.commonAncestorContainer;
+  const nodes: Text[] = [];
+
+  if (root.nodeType === Node.TEXT_NODE) {
+    nodes.push(root as Text);
+  } else {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+      if (range.intersectsNode(walker.currentNode)) nodes.push(walker.currentNode as Text);
+    }
+  }
+
+  const wrappers: HTMLElement[] = [];
+  for (const node of nodes) {
+    if (!node.parentElement || SKIPPED_TAGS.has(node.parentElement.tagName)) continue;
+
+    // Split the end first so the start offset still refers to the same characters
+    let text = node;
+    if (node === endContainer) text.splitText(endOffset);
+    if (node === startContainer && startOffset > 0) text = text.splitText(startOffset);
+
+    // Whitespace between block elements is left alone; wrapping it can break tables and lists
+    if (!text.data.trim()) continue;
+
+    const wrapper = createWrapper();
+    text.parentNode!.insertBefore(wrapper, text);
+    wrapper.appendChild(text);
+    wrappers.push(wrapper);
+  }
+  return wrappers;
+}
+
+export function unwrap(wrapper: HTMLElement): void {
+  const parent = wrapper.parentNode;
+  if (!parent) return;
+  while (wrapper.firstChild) parent.insertBefore(wrapper.firstChild, wrapper);
+  parent.removeChild(wrapper);
+  parent.normalize();
+}
@@ -0,0 +1,139 @@
+// Reads what a chat question is after: a topical search or a browse through saved notes, plus metadata filters
+import { Note } from '../storage/storage-interface';
+import { inCollections } from '../utils/collection-utils';
+
+// 'browse' questions name no topic, e.g. "what videos did I save last week?"
+export type QueryIntent = 'search' | 'browse';
+
+export type NoteSourceType = 'youtube' | 'article' | 'selection';
+
+export interface RetrievalFilters {
+  sourceType?: NoteSourceType;
+  tag?: string;
+  tagFamily?: string[]; // The tag and the narrower tags filed under it, filled in by the pipeline from the tag taxonomy
+  after?: number; // createdAt lower bound, inclusive
+  before?: number; // createdAt upper bound, exclusive
+  domain?: string;
+  collectionIds?: string[]; // Set by the caller when the chat is scoped to a collection, never read from the question
+}
+
+export interface ClassifiedQuery {
+  intent: QueryIntent;
+  filters: RetrievalFilters;
+  newestFirst: boolean; // "latest", "recent" and the like: newer notes come first among the relevant ones
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const RECENCY_PATTERN = /\b(recent(ly)?|latest|lately|newest)\b/i;
+
+// Words that say nothing about the topic once the filters are taken out
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'what', 'which', 'who', 'when', 'where', 'how', 'did', 'do', 'does', 'i', 'ive', 'me', 'my',
+  'you', 'can', 'please', 'save', 'saved', 'have', 'had', 'has', 'keep', 'kept', 'note', 'notes', 'show', 'list',
+  'all', 'any', 'some', 'every', 'about', 'from', 'on', 'in', 'of', 'is', 'are', 'was', 'were', 'there', 'that',
+  'this', 'these', 'those', 'get', 'find', 'give', 'tell', 'stuff', 'things', 'anything', 'something', 'to', 'for',
+  'with', 'been', 'watched', 'read', 'since', 'ago', 'last', 'past', 'and', 'or', 'again', 'remind', 'recent',
+  'recently', 'latest', 'lately', 'newest'
+]);
+
+export function classifyQuery(question: string, now: number = Date.now()): ClassifiedQuery {
+  let rest = question.toLowerCase();
+  const filters: RetrievalFilters = {};
+
+  // Match a pattern and remove it, so what is left shows whether a topic remains
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+
+  if (take(/\b(youtube|videos?|clips?)\b/)) {
+    filters.sourceType = 'youtube';
+  } else if (take(/\b(articles?|blog posts?|web ?pages?)\b/)) {
+    filters.sourceType = 'article';
+  } else if (take(/\b(highlights?|selections?|snippets?)\b/)) {
+    filters.sourceType = 'selection';
+  }
+
+  const tag = take(/#([\w-]+)/) || take(/\btagged (?:as |with )?["']?([\w-]+)["']?/);
+  if (tag) filters.tag = tag[1];
+
+  const domain = take(/(?:\bfrom\s+|\bsite:)((?:[\w-]+\.)+[a-z]{2,})\b/);
+  if (domain) filters.domain = domain[1].replace(/^www\./, '');
+
+  Object.assign(filters, takeDateRange(take, now));
+
+  return {
+    intent: hasTopicWords(rest) ? 'search' : 'browse',
+    filters,
+    newestFirst: RECENCY_PATTERN.test(question)
+  };
+}
+
+function takeDateRange(take: (pattern: RegExp) => RegExpMatchArray | null, now: number): Pick<RetrievalFilters, 'after' | 'before'> {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const startOfToday = today.getTime();
+
+  if (take(/\btoday\b/)) return { after: startOfToday };
+  if (take(/\byesterday\b/)) return { after: startOfToday - DAY_MS, before: startOfToday };
+
+  const count = take(/\b(?:last|past)\s+(\d+)\s+(day|week|month|year)s?\b/);
+  if (count) return { after: now - Number(count[1]) * UNIT_DAYS[count[2]] * DAY_MS };
+
+  const unit = take(/\b(?:last|past|this)\s+(day|week|month|year)\b/);
+  if (unit) return { after: now - UNIT_DAYS[unit[1]] * DAY_MS };
+
+  const year = take(/\b(?:in|from|during)\s+((?:19|20)\d{2})\b/);
+  if (year) {
+    return {
+      after: new Date(Number(year[1]), 0, 1).getTime(),
+      before: new Date(Number(year[1]) + 1, 0, 1).getTime()
+    };
+  }
+
+  return {};
+}
+
+function hasTopicWords(text: string): boolean {
+  return text
+    .split(/[^a-z0-9'-]+/)
+    .map(word => word.replace(/'/g, ''))
+    .some(word => word.length > 1 && !FILLER_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+export function hasFilters(filters: RetrievalFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined);
+}
+
+export function noteSourceType(note: Note): NoteSourceType {
+  if (note.tags.includes('youtube') || note.source?.type === 'youtube') return 'youtube';
+  return note.source?.type === 'article' ? 'article' : 'selection';
+}
+
+function noteHostname(note: Note): string {
+  try {
+    return new URL(note.source.url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function matchesFilters(note: Note, filters: RetrievalFilters): boolean {
+  if (filters.sourceType && noteSourceType(note) !== filters.sourceType) return false;
+  if (filters.tag) {
+    const family = filters.tagFamily || [filters.tag];
+    if (!note.tags.some(tag => family.includes(tag.toLowerCase()))) return false;
+  }
+  if (filters.after !== undefined && note.createdAt < filters.after) return false;
+  if (filters.before !== undefined && note.createdAt >= filters.before) return false;
+  if (filters.domain) {
+    const host = noteHostname(note);
+    if (host !== filters.domain && !host.endsWith(`.${filters.domain}`)) return false;
+  }
+  if (filters.collectionIds && !inCollections(note, filters.collectionIds)) return false;
+  return true;
+}
@@ -0,0 +1,228 @@
+// Chat retrieval: find the notes a question is about and fit them into the answer prompt
+import { Note, NoteChunk, StorageBackend, VectorSearchResult } from '../storage/storage-interface';
+import { AIService } from '../ai/ai-interface';
+import { getDeepLink } from '../utils/youtube-utils';
+import { MAX_RATING } from '../utils/annotation-utils';
+import { TagTaxonomy, tagFamily } from '../utils/tag-taxonomy';
+import { ClassifiedQuery, RetrievalFilters, classifyQuery, hasFilters, matchesFilters, noteSourceType } from './query-intent';
+
+export interface RetrievalSettings {
+  topK: number; // Notes passed to the AI
+  contextBudget: number; // Characters of note text in the prompt
+  rerank: boolean; // Let the AI reorder candidates before the top-k cut
+  queryFilters: boolean; // Read intent and metadata filters out of the question
+}
+
+export interface RetrievedNote {
+  note: Note;
+  passage: NoteChunk | null;
+}
+
+export interface RetrievalState extends ClassifiedQuery {
+  question: string;
+  candidates: RetrievedNote[];
+}
+
+export interface RetrievalEnv {
+  storage: StorageBackend;
+  aiService: AIService;
+  settings: RetrievalSettings;
+  taxonomy?: TagTaxonomy; // Lets a tag filter take in its synonyms and narrower tags
+}
+
+// One step of the pipeline; stages run in order, each refining the state the previous one left
+export type RetrievalStage = (state: RetrievalState, env: RetrievalEnv) => Promise<RetrievalState>;
+
+export interface ChatSource {
+  number: number; // Matches the [n] the answer cites
+  id: string;
+  title?: string;
+  content: string;
+  passage?: string;
+  tags: string[];
+  isYouTube: boolean;
+  url?: string;
+}
+
+const CANDIDATE_MULTIPLIER = 4; // Extra matches fetched so filtering and reranking have room to work
+const RERANK_SNIPPET_LENGTH = 300;
+const MIN_NOTE_CHARS = 200;
+const RECENT_SIMILARITY_SHARE = 0.85; // Share of the best match's similarity a note needs to be moved up for being newer
+
+// Filters read from the question add to the ones the pipeline was started with
+export const classifyStage: RetrievalStage = async (state, { settings, taxonomy }) => {
+  if (!settings.queryFilters) return state;
+  const { intent, filters, newestFirst } = classifyQuery(state.question);
+  if (filters.tag && taxonomy) {
+    filters.tagFamily = tagFamily(taxonomy, filters.tag);
+  }
+  return { ...state, intent, newestFirst, filters: { ...state.filters, ...filters } };
+};
+
+// Topical questions go through vector search; browsing questions list the notes matching the filters
+export const candidateStage: RetrievalStage = async (state, { storage, aiService, settings }) => {
+  const limit = settings.topK * CANDIDATE_MULTIPLIER;
+  if (state.intent === 'browse') {
+    return { ...state, candidates: await listNotes(storage, state.filters, limit) };
+  }
+
+  const embedding = await aiService.generateEmbedding(state.question);
+  const matches = await storage.searchByVector(embedding, limit, aiService.getEmbeddingModel());
+  const filtered = matches.filter(({ note }) => matchesFilters(note, state.filters));
+  let candidates = (state.newestFirst ? newestRelevant(filtered) : filtered).map(({ note, passage }) => ({ note, passage }));
+
+  // The filters can rule out every vector match; notes that fit them still beat unrelated ones
+  if (candidates.length === 0 && hasFilters(state.filters)) {
+    candidates = await listNotes(storage, state.filters, limit);
+  }
+  return { ...state, candidates };
+};
+
+// Nothing matched an unfiltered question: answer from the most recent notes rather than none
+export const fallbackStage: RetrievalStage = async (state, { storage, settings }) => {
+  if (state.candidates.length > 0 || hasFilters(state.filters)) return state;
+  const recent = await storage.getRecentNotes(settings.topK);
+  return { ...state, candidates: recent.map(note => ({ note, passage: null })) };
+};
+
+export const rerankStage: RetrievalStage = async (state, { aiService, settings }) => {
+  if (!settings.rerank || state.candidates.length <= 1) return state;
+
+  try {
+    const response = await aiService.generateCompletion(buildRerankPrompt(state.question, state.candidates));
+    const order = parseRerankOrder(response, state.candidates.length);
+    if (order.length === 0) return state;
+    // Candidates the model left out keep their retrieval order after the ones it ranked
+    const ranked = [...order, ...state.candidates.map((_, index) => index).filter(index => !order.includes(index))];
+    return { ...state, candidates: ranked.map(index => state.candidates[index]) };
+  } catch (error) {
+    console.error('Reranking failed, keeping retrieval order:', error);
+    return state;
+  }
+};
+
+export const topKStage: RetrievalStage = async (state, { settings }) =>
+  ({ ...state, candidates: state.candidates.slice(0, settings.topK) });
+
+export const DEFAULT_STAGES: RetrievalStage[] = [classifyStage, candidateStage, fallbackStage, rerankStage, topKStage];
+
+export class RetrievalPipeline {
+  constructor(private env: RetrievalEnv, private stages: RetrievalStage[] = DEFAULT_STAGES) {}
+
+  async retrieve(question: string, filters: RetrievalFilters = {}): Promise<RetrievalState> {
+    let state: RetrievalState = { question, intent: 'search', filters, newestFirst: false, candidates: [] };
+    for (const stage of this.stages) {
+      state = await stage(state, this.env);
+    }
+    return state;
+  }
+}
+
+// Newest first, so "what did I save last week?" reads like a timeline
+async function listNotes(storage: StorageBackend, filters: RetrievalFilters, limit: number): Promise<RetrievedNote[]> {
+  const notes = filters.tagFamily ? await notesTaggedAny(storage, filters.tagFamily)
+    : filters.tag ? await storage.searchByTag(filters.tag)
+    : filters.collectionIds ? await storage.getNotesInCollections(filters.collectionIds)
+    : await storage.getAllNotes();
+  return notes
+    .filter(note => matchesFilters(note, filters))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit)
+    .map(note => ({ note, passage: null }));
+}
+
+// "Latest notes about kubernetes": matches nearly as close as the best one, newest first, ahead of the weaker ones
+function newestRelevant(matches: VectorSearchResult[]): VectorSearchResult[] {
+  if (matches.length === 0) return matches;
+  const floor = Math.max(...matches.map(match => match.similarity)) * RECENT_SIMILARITY_SHARE;
+  const close = matches.filter(match => match.similarity >= floor).sort((a, b) => b.note.createdAt - a.note.createdAt);
+  return [...close, ...matches.filter(match => match.similarity < floor)];
+}
+
+// A note carrying several of the tags is listed once
+async function notesTaggedAny(storage: StorageBackend, tags: string[]): Promise<Note[]> {
+  const tagged = await Promise.all(tags.map(tag => storage.searchByTag(tag)));
+  return [...new Map(tagged.flat().map(note => [note.id, note])).values()];
+}
+
+function buildRerankPrompt(question: string, candidates: RetrievedNote[]): string {
+  const list = candidates
+    .map(({ note, passage }, index) =>
+      `[${index + 1}] ${note.source?.title || 'Untitled'}: ${(passage?.content || note.content).substring(0, RERANK_SNIPPET_LENGTH)}`)
+    .join('\n');
+
+  return `Rank these saved notes by how useful they are for answering the question.
+Reply with the note numbers only, most useful first, separated by commas. Leave out notes that do not help.
+
+Question: ${question}
+
+Notes:
+${list}`;
+}
+
+// Zero-based indexes in the order the model listed them, ignoring repeats and numbers out of range
+function parseRerankOrder(response: string, count: number): number[] {
+  const order: number[] = [];
+  for (const match of response.match(/\d+/g) || []) {
+    const index = Number(match) - 1;
+    if (index >= 0 && index < count && !order.includes(index)) order.push(index);
+  }
+  return order;
+}
+
+// The user's own words about a note, as extra context lines
+function formatAnnotation({ annotation }: Note): string {
+  if (!annotation) return '';
+  return [
+    annotation.reason ? `\n   - Why the user saved it: ${annotation.reason}` : '',
+    annotation.comment ? `\n   - User's comment: ${annotation.comment}` : '',
+    annotation.rating ? `\n   - User's rating: ${annotation.rating}/${MAX_RATING}` : ''
+  ].join('');
+}
+
+// Number the notes like the [1] citations the model is asked to write, sharing the budget between them
+export function buildContext(notes: RetrievedNote[], budget: number): { context: string; sources: ChatSource[] } {
+  const perNote = Math.max(MIN_NOTE_CHARS, Math.floor(budget / Math.max(notes.length, 1)));
+
+  const context = notes
+    .map(({ note, passage }, index) => {
+      const number = index + 1;
+      const annotation = formatAnnotation(note);
+
+      if (noteSourceType(note) === 'youtube') {
+        // For YouTube videos, extract title and provide video context
+        const lines = note.content.split('\n');
+        const title = lines[0] || 'Unknown video';
+        const description = (passage ? passage.content : lines.slice(1).join(' ')).substring(0, perNote);
+
+        return `[${number}] YouTube Video: "${title}"
+   - Topic tags: ${note.tags.filter(t => t !== 'youtube').join(', ') || 'general'}
+   - ${passage ? 'Matching passage' : 'Description'}: ${description || 'No description available'}
+   - URL: ${(passage ? getDeepLink(note, passage.start) : note.source?.url) || 'N/A'}${annotation}`;
+      } else if (passage) {
+        // For regular notes, quote the passage that matched the question
+        return `[${number}] Note about: ${note.tags.slice(0, 3).join(', ')}
+   - Passage: ${passage.content.substring(0, perNote)}
+   - Source: ${note.source?.title || 'Unknown'}${annotation}`;
+      } else {
+        const truncated = note.content.length > perNote;
+        return `[${number}] Note about: ${note.tags.slice(0, 3).join(', ')}
+   - Content: ${note.content.substring(0, perNote)}${truncated ? '...' : ''}
+   - Source: ${note.source?.title || 'Unknown'}${annotation}`;
+      }
+    })
+    .join('\n\n');
+
+  const sources = notes.map(({ note, passage }, index) => ({
+    number: index + 1,
+    id: note.id,
+    title: note.source?.title,
+    content: (passage?.content || note.content).substring(0, 200),
+    passage: passage?.content,
+    tags: note.tags,
+    isYouTube: noteSourceType(note) === 'youtube',
+    url: passage ? getDeepLink(note, passage.start) : note.source?.url
+  }));
+
+  return { context, sources };
+}
@@ -0,0 +1,219 @@
+// Inverted full-text index for IndexedDB storage - BM25 ranking with prefix and phrase queries
+import { Table } from 'dexie';
+import { Note } from './storage-interface';
+import { tokenize } from '../utils/search-utils';
+import { ANNOTATION_TERM_WEIGHT, annotationText } from '../utils/annotation-utils';
+
+// One row per (term, note) pair
+export interface Posting {
+  term: string;
+  noteId: string;
+  positions: number[]; // Token positions of the term in the indexed text
+  weight?: number; // Term frequency for ranking when annotation words make it differ from positions.length
+}
+
+// Per-note statistics needed for BM25 length normalization
+export interface IndexedDoc {
+  noteId: string;
+  length: number;
+}
+
+// Running totals over all indexed notes, so ranking doesn't read every document for the average length
+export interface IndexStats {
+  key: string;
+  docs: number;
+  totalLength: number;
+}
+
+export interface FullTextMatch {
+  noteId: string;
+  score: number;
+}
+
+interface QueryClause {
+  words: string[]; // A single word, or the words of a quoted phrase
+  prefix: boolean;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STATS_KEY = 'fullText';
+
+// Words shorter than this aren't looked for inside longer terms
+const MIN_SUBSTRING_LENGTH = 3;
+
+// Text that is searchable for a note: title, tags and content, then the user's annotation
+export function buildIndexEntries(note: Note): { postings: Posting[]; doc: IndexedDoc } {
+  const textTokens = tokenize(`${note.source?.title || ''}\n${note.tags.join(' ')}\n${note.content}`);
+  const annotationTokens = tokenize(annotationText(note.annotation));
+  const tokens = [...textTokens, ...annotationTokens];
+  const positions = new Map<string, number[]>();
+  const annotationCounts = new Map<string, number>();
+
+  tokens.forEach((token, position) => {
+    const list = positions.get(token);
+    if (list) {
+      list.push(position);
+    } else {
+      positions.set(token, [position]);
+    }
+    if (position >= textTokens.length) {
+      annotationCounts.set(token, (annotationCounts.get(token) || 0) + 1);
+    }
+  });
+
+  return {
+    postings: Array.from(positions.entries()).map(([term, termPositions]) => {
+      const annotationCount = annotationCounts.get(term) || 0;
+      return {
+        term,
+        noteId: note.id,
+        positions: termPositions,
+        ...(annotationCount > 0 && { weight: termPositions.length + (ANNOTATION_TERM_WEIGHT - 1) * annotationCount })
+      };
+    }),
+    doc: { noteId: note.id, length: tokens.length }
+  };
+}
+
+// Parse a query into clauses: "quoted phrases", words, and prefix words (trailing * or the last word typed)
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const words = tokenize(match[1]);
+      if (words.length > 0) clauses.push({ words, prefix: false });
+    } else {
+      const prefix = match[2].endsWith('*');
+      tokenize(match[2]).forEach(word => clauses.push({ words: [word], prefix }));
+    }
+  }
+
+  // Search-as-you-type: the final bare word may still be incomplete
+  const last = clauses[clauses.length - 1];
+  if (last && last.words.length === 1 && !/["*]$/.test(query.trim())) {
+    last.prefix = true;
+  }
+
+  return clauses;
+}
+
+export class FullTextIndex {
+  constructor(
+    private postings: Table<Posting, [string, string]>,
+    private docs: Table<IndexedDoc, string>,
+    private stats: Table<IndexStats, string>
+  ) {}
+
+  async indexNote(note: Note): Promise<void> {
+    const { postings, doc } = buildIndexEntries(note);
+    await this.removeNote(note.id);
+    await this.postings.bulkPut(postings);
+    await this.docs.put(doc);
+    await this.adjustStats(1, doc.length);
+  }
+
+  async removeNote(noteId: string): Promise<void> {
+    const doc = await this.docs.get(noteId);
+    await this.postings.where('noteId').equals(noteId).delete();
+    await this.docs.delete(noteId);
+    if (doc) await this.adjustStats(-1, -doc.length);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([this.postings.clear(), this.docs.clear(), this.stats.clear()]);
+  }
+
+  // Notes matching every clause of the query, best first
+  async search(query: string, limit?: number): Promise<FullTextMatch[]> {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0) return [];
+
+    // Term frequency of each clause per note
+    const clauseFreqs: Map<string, number>[] = [];
+    for (const clause of clauses) {
+      const freqs = clause.words.length > 1
+        ? await this.matchPhrase(clause.words)
+        : await this.matchWord(clause.words[0], clause.prefix);
+
+      if (freqs.size === 0) return [];
+      clauseFreqs.push(freqs);
+    }
+
+    // Intersect: a note must match every clause
+    const candidates = Array.from(clauseFreqs[0].keys())
+      .filter(noteId => clauseFreqs.every(freqs => freqs.has(noteId)));
+    if (candidates.length === 0) return [];
+
+    const stats = await this.stats.get(STATS_KEY);
+    const totalDocs = stats?.docs || 0;
+    const avgLength = totalDocs > 0 ? stats!.totalLength / totalDocs || 1 : 1;
+    const lengths = new Map(
+      (await this.docs.bulkGet(candidates)).map((doc, i) => [candidates[i], doc?.length || 0])
+    );
+
+    const results = candidates.map(noteId => {
+      const length = lengths.get(noteId) || 0;
+      const score = clauseFreqs.reduce((sum, freqs) => {
+        const tf = freqs.get(noteId) || 0;
+        const idf = Math.log(1 + (totalDocs - freqs.size + 0.5) / (freqs.size + 0.5));
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * length / avgLength);
+        return sum + idf * (tf * (BM25_K1 + 1)) / norm;
+      }, 0);
+      return { noteId, score };
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return limit ? results.slice(0, limit) : results;
+  }
+
+  private async matchWord(word: string, prefix: boolean): Promise<Map<string, number>> {
+    let postings = prefix
+      ? await this.postings.where('term').startsWith(word).toArray()
+      : await this.postings.where('term').equals(word).toArray();
+
+    // Nothing starts with the word: look inside longer terms, so "script" still finds "javascript"
+    if (postings.length === 0 && word.length >= MIN_SUBSTRING_LENGTH) {
+      const terms = (await this.postings.orderBy('term').uniqueKeys() as string[]).filter(term => term.includes(word));
+      postings = terms.length > 0 ? await this.postings.where('term').anyOf(terms).toArray() : [];
+    }
+
+    const freqs = new Map<string, number>();
+    postings.forEach(posting => {
+      freqs.set(posting.noteId, (freqs.get(posting.noteId) || 0) + (posting.weight ?? posting.positions.length));
+    });
+    return freqs;
+  }
+
+  private async matchPhrase(words: string[]): Promise<Map<string, number>> {
+    const postingsByWord = await Promise.all(
+      words.map(word => this.postings.where('term').equals(word).toArray())
+    );
+
+    const positionsByWord = postingsByWord.map(postings =>
+      new Map(postings.map(posting => [posting.noteId, new Set(posting.positions)]))
+    );
+
+    const freqs = new Map<string, number>();
+    postingsByWord[0].forEach(first => {
+      if (!positionsByWord.every(positions => positions.has(first.noteId))) return;
+
+      // Count start positions where each following word appears at the next position
+      const occurrences = first.positions.filter(start =>
+        positionsByWord.every((positions, offset) => positions.get(first.noteId)!.has(start + offset))
+      ).length;
+
+      if (occurrences > 0) freqs.set(first.noteId, occurrences);
+    });
+    return freqs;
+  }
+
+  private async adjustStats(docs: number, length: number): Promise<void> {
+    const stats = await this.stats.get(STATS_KEY) || { key: STATS_KEY, docs: 0, totalLength: 0 };
+    await this.stats.put({ ...stats, docs: stats.docs + docs, totalLength: stats.totalLength + length });
+  }
+}
@@ -1,23 +1,85 @@
 import Dexie, { Table } from 'dexie';
-import { StorageBackend, Note } from './storage-interface';
-import { findTopKSimilar } from '../utils/vector-utils';
+import { StorageBackend, Collection, Note, NewNote, NoteChunk, VectorSearchResult } from './storage-interface';
+import { FullTextIndex, Posting, IndexedDoc, IndexStats, buildIndexEntries } from './full-text-index';
+import { VectorIndex, Centroid, VectorIndexStats, UNASSIGNED_CLUSTER, ANN_MIN_VECTORS } from './vector-index';
+import { SyncOutbox, OutboxEntry, SyncStateEntry } from './sync-outbox';
+import { findTopKSimilar, isCompatibleEmbedding } from '../utils/vector-utils';
+
+// Chunks are stored with the ANN cluster they were assigned to
+type StoredChunk = NoteChunk & { cluster: number };
+
+// Writes are recorded in the sync outbox unless they are remote changes being applied locally
+export interface LocalWriteOptions {
+  track?: boolean;
+}
 
 class NotesDatabase extends Dexie {
   notes!: Table<Note, string>;
+  chunks!: Table<StoredChunk, string>;
+  postings!: Table<Posting, [string, string]>;
+  indexedDocs!: Table<IndexedDoc, string>;
+  indexStats!: Table<IndexStats, string>;
+  centroids!: Table<Centroid, number>;
+  outbox!: Table<OutboxEntry, string>;
+  syncState!: Table<SyncStateEntry, string>;
+  collections!: Table<Collection, string>;
 
   constructor() {
     super('AINotesDatabase');
     this.version(1).stores({
       notes: 'id, createdAt, updatedAt, *tags, source.url'
     });
+    this.version(2).stores({
+      chunks: 'id, noteId'
+    });
+    this.version(3).stores({
+      postings: '[term+noteId], term, noteId',
+      indexedDocs: 'noteId',
+      indexStats: 'key'
+    }).upgrade(async tx => {
+      // Build the full-text index for notes saved before it existed
+      const notes: Note[] = await tx.table('notes').toArray();
+      const entries = notes.map(note => buildIndexEntries(note));
+      await tx.table('postings').bulkPut(entries.flatMap(entry => entry.postings));
+      await tx.table('indexedDocs').bulkPut(entries.map(entry => entry.doc));
+      await tx.table('indexStats').put({
+        key: 'fullText',
+        docs: entries.length,
+        totalLength: entries.reduce((sum, entry) => sum + entry.doc.length, 0)
+      });
+    });
+    this.version(4).stores({
+      chunks: 'id, noteId, cluster',
+      centroids: 'id'
+    }).upgrade(async tx => {
+      // Existing chunks stay unassigned until the index is trained
+      await tx.table('chunks').toCollection().modify(chunk => {
+        chunk.cluster = UNASSIGNED_CLUSTER;
+      });
+    });
+    this.version(5).stores({
+      outbox: 'noteId',
+      syncState: 'key'
+    });
+    this.version(6).stores({
+      notes: 'id, createdAt, updatedAt, *tags, source.url, *collectionIds',
+      collections: 'id, parentId'
+    });
   }
 }
 
 export class IndexDBStorage implements StorageBackend {
   private db: NotesDatabase;
+  private index: FullTextIndex;
+  private vectorIndex: VectorIndex;
+  readonly outbox: SyncOutbox;
 
-  constructor() {
+  // Only synced storage records writes in the outbox; without a remote nothing would ever push them
+  constructor(private trackChanges: boolean = false) {
     this.db = new NotesDatabase();
+    this.index = new FullTextIndex(this.db.postings, this.db.indexedDocs, this.db.indexStats);
+    this.vectorIndex = new VectorIndex(this.db.centroids);
+    this.outbox = new SyncOutbox(this.db.outbox, this.db.syncState);
   }
 
   async initialize(): Promise<void> {
@@ -25,16 +87,22 @@ export class IndexDBStorage implements StorageBackend {
     await this.db.open();
   }
 
-  async saveNote(note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>): Promise<Note> {
+  async saveNote(note: NewNote): Promise<Note> {
     const now = Date.now();
     const newNote: Note = {
       ...note,
       id: crypto.randomUUID(),
-      createdAt: now,
-      updatedAt: now
+      createdAt: note.createdAt ?? now,
+      updatedAt: note.updatedAt ?? note.createdAt ?? now
     };
 
-    await this.db.notes.add(newNote);
+    await this.db.transaction('rw', [this.db.notes, this.db.postings, this.db.indexedDocs, this.db.indexStats, this.db.outbox], async () => {
+      await this.db.notes.add(newNote);
+      await this.index.indexNote(newNote);
+      if (this.trackChanges) {
+        await this.outbox.enqueue(newNote.id, 'put', null);
+      }
+    });
     return newNote;
   }
 
@@ -47,8 +115,20 @@ export class IndexDBStorage implements StorageBackend {
     return await this.db.notes.toArray();
   }
 
-  async deleteNote(id: string): Promise<void> {
-    await this.db.notes.delete(id);
+  async deleteNote(id: string, options: LocalWriteOptions = {}): Promise<void> {
+    const tables = [this.db.notes, this.db.chunks, this.db.centroids, this.db.postings, this.db.indexedDocs, this.db.indexStats, this.db.outbox];
+    await this.db.transaction('rw', tables, async () => {
+      const existing = await this.db.notes.get(id);
+      if (existing && this.trackChanges && options.track !== false) {
+        await this.outbox.enqueue(id, 'delete', existing.updatedAt, Date.now());
+      }
+
+      const chunks = await this.db.chunks.where('noteId').equals(id).toArray();
+      await this.vectorIndex.unassign(chunks.map(chunk => chunk.cluster));
+      await this.db.notes.delete(id);
+      await this.db.chunks.where('noteId').equals(id).delete();
+      await this.index.removeNote(id);
+    });
   }
 
   async updateNote(id: string, updates: Partial<Note>): Promise<Note> {
@@ -64,24 +144,105 @@ export class IndexDBStorage implements StorageBackend {
       updatedAt: Date.now()
     };
 
-    await this.db.notes.put(updated);
+    await this.db.transaction('rw', [this.db.notes, this.db.postings, this.db.indexedDocs, this.db.indexStats, this.db.outbox], async () => {
+      await this.db.notes.put(updated);
+      await this.index.indexNote(updated);
+      if (this.trackChanges) {
+        await this.outbox.enqueue(id, 'put', existing.updatedAt);
+      }
+    });
     return updated;
   }
 
+  async putNote(note: Note, options: LocalWriteOptions = {}): Promise<Note> {
+    await this.db.transaction('rw', [this.db.notes, this.db.postings, this.db.indexedDocs, this.db.indexStats, this.db.outbox], async () => {
+      const existing = await this.db.notes.get(note.id);
+      await this.db.notes.put(note);
+      await this.index.indexNote(note);
+      if (this.trackChanges && options.track !== false) {
+        await this.outbox.enqueue(note.id, 'put', existing ? existing.updatedAt : null);
+      }
+    });
+    return note;
+  }
+
+  async saveChunks(noteId: string, chunks: Omit<NoteChunk, 'id' | 'noteId'>[], options: LocalWriteOptions = {}): Promise<NoteChunk[]> {
+    const newChunks: StoredChunk[] = chunks.map(chunk => ({
+      ...chunk,
+      id: crypto.randomUUID(),
+      noteId,
+      cluster: UNASSIGNED_CLUSTER
+    }));
+
+    await this.db.transaction('rw', [this.db.notes, this.db.chunks, this.db.centroids, this.db.outbox], async () => {
+      // Passages travel with their note, so new ones mean the note has to be pushed again
+      const note = await this.db.notes.get(noteId);
+      if (note && this.trackChanges && options.track !== false) {
+        await this.outbox.enqueue(noteId, 'put', note.updatedAt);
+      }
+
+      const existing = await this.db.chunks.where('noteId').equals(noteId).toArray();
+      await this.vectorIndex.unassign(existing.map(chunk => chunk.cluster));
+      await this.db.chunks.where('noteId').equals(noteId).delete();
+
+      for (const chunk of newChunks) {
+        chunk.cluster = await this.vectorIndex.assign(chunk.embedding);
+      }
+      await this.db.chunks.bulkAdd(newChunks);
+    });
+
+    // Train the index once the collection is large enough for brute force to get slow
+    if (!(await this.vectorIndex.isTrained()) && await this.db.chunks.count() >= ANN_MIN_VECTORS) {
+      await this.rebuildVectorIndex();
+    }
+    return newChunks;
+  }
+
+  async getChunks(noteId: string): Promise<NoteChunk[]> {
+    const chunks = await this.db.chunks.where('noteId').equals(noteId).toArray();
+    return chunks
+      .sort((a, b) => a.index - b.index)
+      .map(({ cluster, ...chunk }) => chunk);
+  }
+
   async searchNotes(query: string): Promise<Note[]> {
-    const lowerQuery = query.toLowerCase();
-    const notes = await this.db.notes.toArray();
-    
-    return notes.filter(note => 
-      note.content.toLowerCase().includes(lowerQuery) ||
-      note.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
-    );
+    const matches = await this.index.search(query);
+    const notes = await this.db.notes.bulkGet(matches.map(match => match.noteId));
+    return notes.filter((note): note is Note => !!note);
   }
 
-  async searchByVector(embedding: number[], limit: number = 10): Promise<Note[]> {
-    const allNotes = await this.db.notes.toArray();
-    const results = findTopKSimilar(embedding, allNotes, limit);
-    return results.map(r => r.item);
+  async searchByVector(embedding: number[], limit: number = 10, embeddingModel?: string): Promise<VectorSearchResult[]> {
+    // Only scan the clusters nearest the query once the ANN index is trained
+    const clusters = await this.vectorIndex.probe(embedding);
+    const candidates = (clusters
+      ? await this.db.chunks.where('cluster').anyOf([...clusters, UNASSIGNED_CLUSTER]).toArray()
+      : await this.db.chunks.toArray()
+    ).filter(chunk => isCompatibleEmbedding(chunk, embedding, embeddingModel));
+
+    // Best passage per note
+    const bestByNote = new Map<string, { passage: NoteChunk | null; similarity: number }>();
+    findTopKSimilar(embedding, candidates, candidates.length).forEach(({ item, similarity }) => {
+      if (!bestByNote.has(item.noteId)) {
+        bestByNote.set(item.noteId, { passage: item, similarity });
+      }
+    });
+
+    // Notes saved before chunking are matched on their own embedding
+    const chunkedNoteIds = await this.db.chunks.orderBy('noteId').uniqueKeys() as string[];
+    const unchunkedNotes = (await this.db.notes.where('id').noneOf(chunkedNoteIds).toArray())
+      .filter(note => isCompatibleEmbedding(note, embedding, embeddingModel));
+    findTopKSimilar(embedding, unchunkedNotes, limit).forEach(({ item, similarity }) => {
+      bestByNote.set(item.id, { passage: null, similarity });
+    });
+
+    const top = Array.from(bestByNote.entries())
+      .sort((a, b) => b[1].similarity - a[1].similarity)
+      .slice(0, limit);
+    const notes = await this.db.notes.bulkGet(top.map(([noteId]) => noteId));
+
+    return top
+      .map(([, match], i) => ({ note: notes[i]!, ...match }))
+      .filter(result => !!result.note);
   }
 
   async searchByTag(tag: string): Promise<Note[]> {
@@ -91,6 +252,39 @@ export class IndexDBStorage implements StorageBackend {
       .toArray();
   }
 
+  async getNotesByUrl(url: string): Promise<Note[]> {
+    const page = url.split('#')[0];
+    return await this.db.notes
+      .where('source.url')
+      .equals(page)
+      .or('source.url')
+      .startsWith(`${page}#`)
+      .toArray();
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    const collections = await this.db.collections.toArray();
+    return collections.filter(collection => !collection.deletedAt);
+  }
+
+  // Tombstones included, for the sync engine to pass deletions on
+  async getCollectionRecords(): Promise<Collection[]> {
+    return await this.db.collections.toArray();
+  }
+
+  async putCollection(collection: Collection): Promise<Collection> {
+    await this.db.collections.put(collection);
+    return collection;
+  }
+
+  async getNotesInCollections(collectionIds: string[]): Promise<Note[]> {
+    return await this.db.notes
+      .where('collectionIds')
+      .anyOf(collectionIds)
+      .distinct()
+      .toArray();
+  }
+
   async getRecentNotes(limit: number = 10): Promise<Note[]> {
     return await this.db.notes
       .orderBy('createdAt')
@@ -100,18 +294,47 @@ export class IndexDBStorage implements StorageBackend {
   }
 
   async getTags(): Promise<string[]> {
-    const notes = await this.db.notes.toArray();
-    const tagsSet = new Set<string>();
-    
-    notes.forEach(note => {
-      note.tags.forEach(tag => tagsSet.add(tag));
+    // Read distinct keys straight from the multi-entry tags index
+    const tags = await this.db.notes.orderBy('tags').uniqueKeys();
+    return (tags as string[]).sort();
+  }
+
+  // Retrain the ANN centroids on every stored passage and reassign all chunks
+  async rebuildVectorIndex(): Promise<VectorIndexStats> {
+    await this.db.transaction('rw', [this.db.chunks, this.db.centroids], async () => {
+      const chunks = await this.db.chunks.toArray();
+      const assignments = await this.vectorIndex.rebuild(chunks.map(chunk => chunk.embedding));
+      const clusterById = new Map(chunks.map((chunk, i) => [chunk.id, assignments[i]]));
+
+      await this.db.chunks.toCollection().modify(chunk => {
+        chunk.cluster = clusterById.get(chunk.id) ?? UNASSIGNED_CLUSTER;
+      });
     });
-    
-    return Array.from(tagsSet).sort();
+    return await this.getVectorIndexStats();
+  }
+
+  async getVectorIndexStats(): Promise<VectorIndexStats & { totalVectors: number }> {
+    return {
+      ...(await this.vectorIndex.getStats()),
+      totalVectors: await this.db.chunks.count()
+    };
+  }
+
+  // Changes an earlier Supabase setup left in the outbox have nothing to push them; setting it up again
+  // starts over with a full merge
+  async discardSyncState(): Promise<void> {
+    await this.outbox.clear();
+    await this.outbox.resetSyncState();
   }
 
   async clearAll(): Promise<void> {
-    await this.db.notes.clear();
+    await Promise.all([
+      this.db.notes.clear(),
+      this.db.chunks.clear(),
+      this.index.clear(),
+      this.vectorIndex.clear(),
+      this.outbox.clear()
+    ]);
   }
 }
 
@@ -0,0 +1,113 @@
+import { StorageBackend, Collection, Note, NewNote, NoteChunk, VectorSearchResult } from './storage-interface';
+
+// Reads from the primary backend and copies every write to a mirror backend
+// Mirror failures are logged, never thrown, so the primary keeps working offline
+export class MirroredStorage implements StorageBackend {
+  private mirrorReady = false;
+
+  constructor(readonly primary: StorageBackend, readonly mirror: StorageBackend) {}
+
+  async initialize(): Promise<void> {
+    await this.primary.initialize();
+    try {
+      await this.mirror.initialize();
+      this.mirrorReady = true;
+    } catch (error) {
+      console.error('Storage mirror unavailable:', error);
+    }
+  }
+
+  private async mirrorWrite(label: string, write: (mirror: StorageBackend) => Promise<unknown>): Promise<void> {
+    if (!this.mirrorReady) return;
+    try {
+      await write(this.mirror);
+    } catch (error) {
+      console.error(`Storage mirror ${label} failed:`, error);
+    }
+  }
+
+  async saveNote(note: NewNote): Promise<Note> {
+    const saved = await this.primary.saveNote(note);
+    // Same id in both backends so later updates and deletes line up
+    await this.mirrorWrite('save', mirror => mirror.putNote(saved));
+    return saved;
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    return this.primary.getNote(id);
+  }
+
+  async getAllNotes(): Promise<Note[]> {
+    return this.primary.getAllNotes();
+  }
+
+  async deleteNote(id: string): Promise<void> {
+    await this.primary.deleteNote(id);
+    await this.mirrorWrite('delete', mirror => mirror.deleteNote(id));
+  }
+
+  async updateNote(id: string, updates: Partial<Note>): Promise<Note> {
+    const updated = await this.primary.updateNote(id, updates);
+    await this.mirrorWrite('update', mirror => mirror.putNote(updated));
+    return updated;
+  }
+
+  async putNote(note: Note): Promise<Note> {
+    const saved = await this.primary.putNote(note);
+    await this.mirrorWrite('put', mirror => mirror.putNote(saved));
+    return saved;
+  }
+
+  async saveChunks(noteId: string, chunks: Omit<NoteChunk, 'id' | 'noteId'>[]): Promise<NoteChunk[]> {
+    const saved = await this.primary.saveChunks(noteId, chunks);
+    await this.mirrorWrite('chunk save', mirror => mirror.saveChunks(noteId, chunks));
+    return saved;
+  }
+
+  async getChunks(noteId: string): Promise<NoteChunk[]> {
+    return this.primary.getChunks(noteId);
+  }
+
+  async searchNotes(query: string): Promise<Note[]> {
+    return this.primary.searchNotes(query);
+  }
+
+  async searchByVector(embedding: number[], limit?: number, embeddingModel?: string): Promise<VectorSearchResult[]> {
+    return this.primary.searchByVector(embedding, limit, embeddingModel);
+  }
+
+  async searchByTag(tag: string): Promise<Note[]> {
+    return this.primary.searchByTag(tag);
+  }
+
+  async getNotesByUrl(url: string): Promise<Note[]> {
+    return this.primary.getNotesByUrl(url);
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    return this.primary.getCollections();
+  }
+
+  async putCollection(collection: Collection): Promise<Collection> {
+    const saved = await this.primary.putCollection(collection);
+    await this.mirrorWrite('collection', mirror => mirror.putCollection(saved));
+    return saved;
+  }
+
+  async getNotesInCollections(collectionIds: string[]): Promise<Note[]> {
+    return this.primary.getNotesInCollections(collectionIds);
+  }
+
+  async getRecentNotes(limit?: number): Promise<Note[]> {
+    return this.primary.getRecentNotes(limit);
+  }
+
+  async getTags(): Promise<string[]> {
+    return this.primary.getTags();
+  }
+
+  async clearAll(): Promise<void> {
+    await this.primary.clearAll();
+    await this.mirrorWrite('clear', mirror => mirror.clearAll());
+  }
+}
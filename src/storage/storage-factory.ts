@@ -1,7 +1,9 @@
 import { StorageBackend } from './storage-interface';
 import { IndexDBStorage } from './indexdb-storage';
 import { SupabaseStorage } from './supabase-storage';
-import { ConfigManager } from '../utils/config';
+import { MirroredStorage } from './mirrored-storage';
+import { SyncedStorage } from './synced-storage';
+import { AppConfig, ConfigManager } from '../utils/config';
 
 export class StorageFactory {
   private static instance: StorageBackend | null = null;
@@ -27,16 +29,39 @@ export class StorageFactory {
         console.warn('Supabase credentials not found, falling back to IndexedDB');
         storage = new IndexDBStorage();
       } else {
-        storage = new SupabaseStorage(config.supabaseUrl, config.supabaseKey);
+        // IndexedDB stays the working copy and changes are synced to Supabase in the background
+        storage = new SyncedStorage(new IndexDBStorage(true), new SupabaseStorage(config.supabaseUrl, config.supabaseKey));
       }
     } else {
-      storage = new IndexDBStorage();
+      const local = new IndexDBStorage();
+      await local.discardSyncState();
+      storage = local;
+    }
+
+    // Copy every write to Supabase when mirroring is enabled; synced storage already keeps both
+    if (config.mirrorStorage && storage instanceof IndexDBStorage) {
+      try {
+        storage = new MirroredStorage(storage, this.createBackend('supabase', config));
+      } catch (error) {
+        console.warn('Storage mirror disabled:', error);
+      }
     }
     
     await storage.initialize();
     return storage;
   }
 
+  // A specific backend regardless of the configured one, e.g. the target of a migration
+  static createBackend(type: AppConfig['storageBackend'], config: AppConfig): StorageBackend {
+    if (type === 'supabase') {
+      if (!config.supabaseUrl || !config.supabaseKey) {
+        throw new Error('Supabase URL and API key are required');
+      }
+      return new SupabaseStorage(config.supabaseUrl, config.supabaseKey);
+    }
+    return new IndexDBStorage();
+  }
+
   static async switchStorage(): Promise<void> {
     this.instance = await this.createStorage();
   }
@@ -1,34 +1,140 @@
 // Storage interface for all backends
 
+// A caption of a saved YouTube transcript, aligned to the note content
+export interface TranscriptSegment {
+  start: number; // Seconds into the video
+  duration: number;
+  text: string;
+  offset: number; // Character offset into note.content
+}
+
+// Where a saved selection sits on its page, so it can be found and highlighted again
+export interface TextQuoteSelector {
+  exact: string;
+  prefix: string; // Text just before the quote
+  suffix: string; // Text just after the quote
+}
+
+export interface TextPositionSelector {
+  start: number; // Character offsets into the page's text
+  end: number;
+}
+
+export interface TextAnchor {
+  quote: TextQuoteSelector;
+  position?: TextPositionSelector;
+}
+
+export interface NoteSource {
+  url: string;
+  title: string;
+  timestamp: number;
+  type?: 'youtube' | 'article';
+
+  // YouTube clip metadata
+  videoId?: string;
+  videoTimestamp?: number;
+  channel?: string;
+  thumbnail?: string;
+  transcriptSegments?: TranscriptSegment[];
+
+  // Full-page article metadata
+  byline?: string;
+  publishedAt?: number;
+  siteName?: string;
+
+  // Selection anchor, captured when the selection is saved
+  anchor?: TextAnchor;
+}
+
+// The user's own take on a note, kept apart from the captured text
+export interface NoteAnnotation {
+  reason?: string; // Why I saved this
+  comment?: string;
+  rating?: number; // 1-5 stars
+}
+
+// Generated when a long note is saved, so cards can say what it is about without showing its opening lines
+export interface NoteSummary {
+  tldr: string; // One line
+  keyPoints: string[];
+}
+
+// A notebook; collections nest under a parent and are ordered by hand among their siblings
+export interface Collection {
+  id: string;
+  name: string;
+  parentId: string | null; // null at the top level
+  order: number; // Position among siblings, lowest first
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Deleted collections are kept as tombstones so the deletion reaches synced devices
+}
+
 export interface Note {
   id: string;
   content: string;
   embedding: number[];
+  embeddingModel?: string; // Provider/model that produced the embedding; missing on older notes
+  embeddingDimensions?: number;
   tags: string[];
-  source: {
-    url: string;
-    title: string;
-    timestamp: number;
-  };
+  source: NoteSource;
+  annotation?: NoteAnnotation;
+  summary?: NoteSummary; // Missing on short notes and ones saved before summaries
+  collectionIds?: string[]; // A note can sit in several collections
   createdAt: number;
   updatedAt: number;
 }
 
+// A passage of a note's content with its own embedding
+export interface NoteChunk {
+  id: string;
+  noteId: string;
+  index: number;
+  content: string;
+  embedding: number[];
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  start: number; // Character offset into note.content
+  end: number;
+}
+
+export interface VectorSearchResult {
+  note: Note;
+  passage: NoteChunk | null; // null for notes saved before chunking
+  similarity: number;
+}
+
+// Fields needed to save a note; timestamps default to now but can be kept when importing
+export type NewNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt'> & Partial<Pick<Note, 'createdAt' | 'updatedAt'>>;
+
 export interface StorageBackend {
   // Initialize the storage backend
   initialize(): Promise<void>;
 
   // Note operations
-  saveNote(note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>): Promise<Note>;
+  saveNote(note: NewNote): Promise<Note>;
   getNote(id: string): Promise<Note | null>;
   getAllNotes(): Promise<Note[]>;
   deleteNote(id: string): Promise<void>;
   updateNote(id: string, updates: Partial<Note>): Promise<Note>;
+  putNote(note: Note): Promise<Note>; // Insert or replace a note as-is, keeping its id and timestamps (restore)
+
+  // Chunk operations (saveChunks replaces any existing chunks of the note)
+  saveChunks(noteId: string, chunks: Omit<NoteChunk, 'id' | 'noteId'>[]): Promise<NoteChunk[]>;
+  getChunks(noteId: string): Promise<NoteChunk[]>;
 
   // Search operations
-  searchNotes(query: string): Promise<Note[]>;
-  searchByVector(embedding: number[], limit?: number): Promise<Note[]>;
+  searchNotes(query: string): Promise<Note[]>; // Best match first where the backend ranks results
+  // Only vectors from the same embedding model are compared; without a model, only matching dimensions
+  searchByVector(embedding: number[], limit?: number, embeddingModel?: string): Promise<VectorSearchResult[]>;
   searchByTag(tag: string): Promise<Note[]>;
+  getNotesByUrl(url: string): Promise<Note[]>; // Notes saved from this page, under any #fragment of its URL
+
+  // Collection operations; notes join collections through their collectionIds
+  getCollections(): Promise<Collection[]>; // Live collections only, no tombstones
+  putCollection(collection: Collection): Promise<Collection>; // Create, update, or delete by setting deletedAt
+  getNotesInCollections(collectionIds: string[]): Promise<Note[]>;
 
   // Utility operations
   getRecentNotes(limit?: number): Promise<Note[]>;
@@ -1,11 +1,12 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { StorageBackend, Note } from './storage-interface';
+import { StorageBackend, Collection, Note, NewNote, NoteChunk, VectorSearchResult } from './storage-interface';
+import { SyncRemote, SyncChunk, SyncCursor, RemoteChanges, RemoteNote, RemoteDeletion } from './sync-engine';
 
-export class SupabaseStorage implements StorageBackend {
+export class SupabaseStorage implements StorageBackend, SyncRemote {
   private client: SupabaseClient | null = null;
   private supabaseUrl: string;
   private supabaseKey: string;
-  private static readonly VECTOR_DIMENSIONS = 1536; // Max dimensions (OpenAI size)
+  static readonly VECTOR_DIMENSIONS = 1536; // Max dimensions (OpenAI size)
 
   constructor(supabaseUrl: string, supabaseKey: string) {
     this.supabaseUrl = supabaseUrl;
@@ -34,6 +35,17 @@ export class SupabaseStorage implements StorageBackend {
     return normalized;
   }
 
+  /**
+   * Undo normalizeEmbedding: stored vectors are zero-padded, so trim them back to the model's size
+   */
+  private restoreEmbedding(embedding: any, dimensions?: number): number[] {
+    if (!embedding) return [];
+
+    // pgvector columns come back from PostgREST as '[0.1,0.2,...]' strings
+    const values: number[] = typeof embedding === 'string' ? JSON.parse(embedding) : embedding;
+    return dimensions ? values.slice(0, dimensions) : values;
+  }
+
   async initialize(): Promise<void> {
     this.client = createClient(this.supabaseUrl, this.supabaseKey);
     
@@ -43,12 +55,26 @@ export class SupabaseStorage implements StorageBackend {
     //   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     //   content TEXT NOT NULL,
     //   embedding vector(1536),
+    //   embedding_model TEXT,
+    //   embedding_dimensions INT,
     //   tags TEXT[],
     //   source JSONB,
     //   created_at TIMESTAMPTZ DEFAULT NOW(),
     //   updated_at TIMESTAMPTZ DEFAULT NOW()
     // );
     // CREATE INDEX ON notes USING ivfflat (embedding vector_cosine_ops);
+    // CREATE TABLE note_chunks (
+    //   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    //   note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    //   chunk_index INT NOT NULL,
+    //   content TEXT NOT NULL,
+    //   embedding vector(1536),
+    //   embedding_model TEXT,
+    //   embedding_dimensions INT,
+    //   start_offset INT NOT NULL,
+    //   end_offset INT NOT NULL
+    // );
+    // Sync also needs the synced_at column and note_tombstones table from the README
   }
 
   private ensureClient(): SupabaseClient {
@@ -58,19 +84,28 @@ export class SupabaseStorage implements StorageBackend {
     return this.client;
   }
 
-  async saveNote(note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>): Promise<Note> {
+  async saveNote(note: NewNote): Promise<Note> {
     const client = this.ensureClient();
     
-    // Normalize embedding dimensions
-    const normalizedEmbedding = this.normalizeEmbedding(note.embedding);
+    // Normalize embedding dimensions; notes imported without an embedding store null
+    const normalizedEmbedding = note.embedding.length > 0 ? this.normalizeEmbedding(note.embedding) : null;
+    const updatedAt = note.updatedAt ?? note.createdAt;
     
     const { data, error } = await client
       .from('notes')
       .insert({
         content: note.content,
         embedding: normalizedEmbedding,
+        embedding_model: note.embeddingModel,
+        embedding_dimensions: note.embedding.length || null,
         tags: note.tags,
-        source: note.source
+        source: note.source,
+        annotation: note.annotation,
+        summary: note.summary,
+        collection_ids: note.collectionIds,
+        // Left out when unset so the column defaults apply
+        created_at: note.createdAt ? new Date(note.createdAt).toISOString() : undefined,
+        updated_at: updatedAt ? new Date(updatedAt).toISOString() : undefined
       })
       .select()
       .single();
@@ -85,15 +120,7 @@ export class SupabaseStorage implements StorageBackend {
       throw new Error(`Failed to save note to Supabase: ${error.message}. ${error.hint || ''}`);
     }
 
-    return {
-      id: data.id,
-      content: data.content,
-      embedding: data.embedding,
-      tags: data.tags,
-      source: data.source,
-      createdAt: new Date(data.created_at).getTime(),
-      updatedAt: new Date(data.updated_at).getTime()
-    };
+    return this.mapNote(data);
   }
 
   async getNote(id: string): Promise<Note | null> {
@@ -110,15 +137,7 @@ export class SupabaseStorage implements StorageBackend {
       throw error;
     }
 
-    return {
-      id: data.id,
-      content: data.content,
-      embedding: data.embedding,
-      tags: data.tags,
-      source: data.source,
-      createdAt: new Date(data.created_at).getTime(),
-      updatedAt: new Date(data.updated_at).getTime()
-    };
+    return this.mapNote(data);
   }
 
   async getAllNotes(): Promise<Note[]> {
@@ -131,19 +150,18 @@ export class SupabaseStorage implements StorageBackend {
 
     if (error) throw error;
 
-    return data.map(d => ({
-      id: d.id,
-      content: d.content,
-      embedding: d.embedding,
-      tags: d.tags,
-      source: d.source,
-      createdAt: new Date(d.created_at).getTime(),
-      updatedAt: new Date(d.updated_at).getTime()
-    }));
+    return data.map(d => this.mapNote(d));
   }
 
   async deleteNote(id: string): Promise<void> {
     const client = this.ensureClient();
+
+    // Let synced devices know about the delete; databases set up before sync have no tombstones table
+    try {
+      await this.writeTombstone(id, Date.now());
+    } catch (error) {
+      console.warn('Could not record tombstone for deleted note:', error);
+    }
     
     const { error } = await client
       .from('notes')
@@ -166,8 +184,14 @@ export class SupabaseStorage implements StorageBackend {
       .update({
         content: updates.content,
         embedding: normalizedEmbedding,
+        embedding_model: updates.embeddingModel,
+        embedding_dimensions: updates.embedding?.length,
         tags: updates.tags,
         source: updates.source,
+        // null clears a removed annotation; left out when the update doesn't touch it
+        annotation: 'annotation' in updates ? updates.annotation ?? null : undefined,
+        summary: 'summary' in updates ? updates.summary ?? null : undefined,
+        collection_ids: updates.collectionIds,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -176,14 +200,240 @@ export class SupabaseStorage implements StorageBackend {
 
     if (error) throw error;
 
+    return this.mapNote(data);
+  }
+
+  async putNote(note: Note): Promise<Note> {
+    const client = this.ensureClient();
+
+    const { data, error } = await client
+      .from('notes')
+      .upsert({
+        id: note.id,
+        content: note.content,
+        embedding: note.embedding.length > 0 ? this.normalizeEmbedding(note.embedding) : null,
+        embedding_model: note.embeddingModel ?? null,
+        embedding_dimensions: note.embedding.length || null,
+        tags: note.tags,
+        source: note.source,
+        annotation: note.annotation ?? null,
+        summary: note.summary ?? null,
+        collection_ids: note.collectionIds ?? [],
+        created_at: new Date(note.createdAt).toISOString(),
+        updated_at: new Date(note.updatedAt).toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase upsert error:', error);
+      throw new Error(`Failed to restore note to Supabase: ${error.message}. ${error.hint || ''}`);
+    }
+
+    return this.mapNote(data);
+  }
+
+  private mapNote(d: any): Note {
+    return {
+      id: d.id,
+      content: d.content,
+      embedding: this.restoreEmbedding(d.embedding, d.embedding_dimensions),
+      embeddingModel: d.embedding_model || undefined,
+      embeddingDimensions: d.embedding_dimensions || undefined,
+      tags: d.tags,
+      source: d.source,
+      annotation: d.annotation || undefined,
+      summary: d.summary || undefined,
+      collectionIds: d.collection_ids?.length ? d.collection_ids : undefined,
+      createdAt: new Date(d.created_at).getTime(),
+      updatedAt: new Date(d.updated_at).getTime()
+    };
+  }
+
+  private mapCollection(d: any): Collection {
+    return {
+      id: d.id,
+      name: d.name,
+      parentId: d.parent_id,
+      order: d.position,
+      createdAt: new Date(d.created_at).getTime(),
+      updatedAt: new Date(d.updated_at).getTime(),
+      deletedAt: d.deleted_at ? new Date(d.deleted_at).getTime() : undefined
+    };
+  }
+
+  private collectionRow(collection: Collection) {
+    return {
+      id: collection.id,
+      name: collection.name,
+      parent_id: collection.parentId,
+      position: collection.order,
+      created_at: new Date(collection.createdAt).toISOString(),
+      updated_at: new Date(collection.updatedAt).toISOString(),
+      deleted_at: collection.deletedAt ? new Date(collection.deletedAt).toISOString() : null
+    };
+  }
+
+  private mapChunk(d: any): NoteChunk {
+    return {
+      id: d.id,
+      noteId: d.note_id,
+      index: d.chunk_index,
+      content: d.content,
+      embedding: this.restoreEmbedding(d.embedding, d.embedding_dimensions),
+      embeddingModel: d.embedding_model || undefined,
+      embeddingDimensions: d.embedding_dimensions || undefined,
+      start: d.start_offset,
+      end: d.end_offset
+    };
+  }
+
+  async saveChunks(noteId: string, chunks: Omit<NoteChunk, 'id' | 'noteId'>[]): Promise<NoteChunk[]> {
+    const client = this.ensureClient();
+
+    const { error: deleteError } = await client
+      .from('note_chunks')
+      .delete()
+      .eq('note_id', noteId);
+
+    if (deleteError) throw deleteError;
+    if (chunks.length === 0) return [];
+
+    const { data, error } = await client
+      .from('note_chunks')
+      .insert(chunks.map(chunk => ({
+        note_id: noteId,
+        chunk_index: chunk.index,
+        content: chunk.content,
+        embedding: this.normalizeEmbedding(chunk.embedding),
+        embedding_model: chunk.embeddingModel,
+        embedding_dimensions: chunk.embedding.length || null,
+        start_offset: chunk.start,
+        end_offset: chunk.end
+      })))
+      .select();
+
+    if (error) {
+      console.error('Supabase chunk insert error:', error);
+      throw new Error(`Failed to save note chunks to Supabase: ${error.message}. ${error.hint || ''}`);
+    }
+
+    return data.map(d => this.mapChunk(d));
+  }
+
+  async getChunks(noteId: string): Promise<NoteChunk[]> {
+    const client = this.ensureClient();
+
+    const { data, error } = await client
+      .from('note_chunks')
+      .select('*')
+      .eq('note_id', noteId)
+      .order('chunk_index', { ascending: true });
+
+    if (error) throw error;
+
+    return data.map(d => this.mapChunk(d));
+  }
+
+  private async writeTombstone(noteId: string, deletedAt: number): Promise<void> {
+    const { error } = await this.ensureClient()
+      .from('note_tombstones')
+      .upsert({ note_id: noteId, deleted_at: new Date(deletedAt).toISOString() });
+
+    if (error) throw error;
+  }
+
+  async fetchRemoteNote(noteId: string): Promise<RemoteNote | RemoteDeletion | null> {
+    const note = await this.getNote(noteId);
+    if (note) {
+      const chunks = await this.getChunks(noteId);
+      return { note, chunks: chunks.map(({ id, noteId, ...chunk }) => chunk) };
+    }
+
+    const { data, error } = await this.ensureClient()
+      .from('note_tombstones')
+      .select('*')
+      .eq('note_id', noteId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { noteId, deletedAt: new Date(data.deleted_at).getTime() } : null;
+  }
+
+  async pushNote(note: Note, chunks: SyncChunk[]): Promise<void> {
+    const client = this.ensureClient();
+    await this.putNote(note);
+    await this.saveChunks(note.id, chunks);
+
+    // Touch the row again so devices that pulled between the two writes fetch the new passages
+    const { error: touchError } = await client
+      .from('notes')
+      .update({ updated_at: new Date(note.updatedAt).toISOString() })
+      .eq('id', note.id);
+
+    if (touchError) throw touchError;
+
+    // A note edited after being deleted elsewhere is alive again
+    const { error } = await client
+      .from('note_tombstones')
+      .delete()
+      .eq('note_id', note.id);
+
+    if (error) throw error;
+  }
+
+  async pushDeletion(noteId: string, deletedAt: number): Promise<void> {
+    await this.writeTombstone(noteId, deletedAt);
+
+    const { error } = await this.ensureClient()
+      .from('notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (error) throw error;
+  }
+
+  // Changes after the cursor, ordered by the server-side synced_at so device clock skew cannot hide edits
+  async pullChanges(cursor: SyncCursor, limit: number): Promise<RemoteChanges> {
+    const client = this.ensureClient();
+
+    let notesQuery = client.from('notes').select('*').order('synced_at', { ascending: true }).limit(limit);
+    if (cursor.notes) notesQuery = notesQuery.gt('synced_at', cursor.notes);
+    let tombstonesQuery = client.from('note_tombstones').select('*').order('synced_at', { ascending: true }).limit(limit);
+    if (cursor.deletions) tombstonesQuery = tombstonesQuery.gt('synced_at', cursor.deletions);
+
+    const [notesResult, tombstonesResult] = await Promise.all([notesQuery, tombstonesQuery]);
+    if (notesResult.error) throw notesResult.error;
+    if (tombstonesResult.error) throw tombstonesResult.error;
+
+    const noteRows: any[] = notesResult.data;
+    const tombstoneRows: any[] = tombstonesResult.data;
+
+    // Passages for the whole page in one request
+    const chunksByNote = new Map<string, SyncChunk[]>();
+    if (noteRows.length > 0) {
+      const { data, error } = await client
+        .from('note_chunks')
+        .select('*')
+        .in('note_id', noteRows.map(d => d.id))
+        .order('chunk_index', { ascending: true });
+
+      if (error) throw error;
+
+      data.forEach(d => {
+        const { id, noteId, ...chunk } = this.mapChunk(d);
+        chunksByNote.set(noteId, [...(chunksByNote.get(noteId) || []), chunk]);
+      });
+    }
+
     return {
-      id: data.id,
-      content: data.content,
-      embedding: data.embedding,
-      tags: data.tags,
-      source: data.source,
-      createdAt: new Date(data.created_at).getTime(),
-      updatedAt: new Date(data.updated_at).getTime()
+      notes: noteRows.map(d => ({ note: this.mapNote(d), chunks: chunksByNote.get(d.id) || [] })),
+      deletions: tombstoneRows.map(d => ({ noteId: d.note_id, deletedAt: new Date(d.deleted_at).getTime() })),
+      cursor: {
+        notes: noteRows.length > 0 ? noteRows[noteRows.length - 1].synced_at : cursor.notes,
+        deletions: tombstoneRows.length > 0 ? tombstoneRows[tombstoneRows.length - 1].synced_at : cursor.deletions
+      },
+      hasMore: noteRows.length === limit || tombstoneRows.length === limit
     };
   }
 
@@ -197,51 +447,80 @@ export class SupabaseStorage implements StorageBackend {
 
     if (error) throw error;
 
-    return data.map(d => ({
-      id: d.id,
-      content: d.content,
-      embedding: d.embedding,
-      tags: d.tags,
-      source: d.source,
-      createdAt: new Date(d.created_at).getTime(),
-      updatedAt: new Date(d.updated_at).getTime()
-    }));
+    return data.map(d => this.mapNote(d));
   }
 
-  async searchByVector(embedding: number[], limit: number = 10): Promise<Note[]> {
+  async searchByVector(embedding: number[], limit: number = 10, embeddingModel?: string): Promise<VectorSearchResult[]> {
     const client = this.ensureClient();
     
     // Normalize query embedding dimensions
     const normalizedEmbedding = this.normalizeEmbedding(embedding);
     console.log('Supabase: Normalized embedding to', normalizedEmbedding.length, 'dimensions');
     
-    // Use pgvector's cosine similarity with lower threshold
-    const { data, error } = await client.rpc('match_notes', {
-      query_embedding: normalizedEmbedding,
-      match_threshold: 0.7, // Lowered from 0.7 for better recall
-      match_count: limit
-    });
+    // Rows from another embedding model are skipped; rows saved before models were recorded are kept
+    const filters = {
+      filter_model: embeddingModel || null,
+      filter_dimensions: embedding.length
+    };
 
-    if (error) {
-      console.error('Supabase RPC error:', error);
-      throw error;
+    // Match passages, plus whole notes for notes saved before chunking
+    const [chunkResult, noteResult] = await Promise.all([
+      client.rpc('match_note_chunks', {
+        query_embedding: normalizedEmbedding,
+        match_threshold: 0.7,
+        match_count: limit * 3, // Several passages may belong to the same note
+        ...filters
+      }),
+      client.rpc('match_notes', {
+        query_embedding: normalizedEmbedding,
+        match_threshold: 0.7, // Lowered from 0.7 for better recall
+        match_count: limit,
+        ...filters
+      })
+    ]);
+
+    if (chunkResult.error || noteResult.error) {
+      console.error('Supabase RPC error:', chunkResult.error || noteResult.error);
+      throw chunkResult.error || noteResult.error;
     }
 
-    console.log('Supabase: match_notes returned', data?.length || 0, 'results');
+    const chunkMatches: any[] = chunkResult.data || [];
+    const noteMatches: any[] = noteResult.data || [];
+    console.log('Supabase: match_note_chunks returned', chunkMatches.length, 'results, match_notes returned', noteMatches.length);
 
-    if (!data || data.length === 0) {
-      return [];
+    const bestByNote = new Map<string, { passage: NoteChunk | null; similarity: number }>();
+    chunkMatches.forEach(d => {
+      const existing = bestByNote.get(d.note_id);
+      if (!existing || d.similarity > existing.similarity) {
+        bestByNote.set(d.note_id, { passage: this.mapChunk(d), similarity: d.similarity });
+      }
+    });
+
+    // Fetch parent notes of matched passages
+    const notesById = new Map<string, Note>();
+    const parentIds = Array.from(bestByNote.keys());
+    if (parentIds.length > 0) {
+      const { data, error } = await client
+        .from('notes')
+        .select('*')
+        .in('id', parentIds);
+
+      if (error) throw error;
+
+      data.forEach(d => notesById.set(d.id, this.mapNote(d)));
     }
 
-    return data.map((d: any) => ({
-      id: d.id,
-      content: d.content,
-      embedding: d.embedding,
-      tags: d.tags,
-      source: d.source,
-      createdAt: new Date(d.created_at).getTime(),
-      updatedAt: new Date(d.updated_at).getTime()
-    }));
+    noteMatches.forEach(d => {
+      if (bestByNote.has(d.id)) return;
+      bestByNote.set(d.id, { passage: null, similarity: d.similarity });
+      notesById.set(d.id, this.mapNote(d));
+    });
+
+    return Array.from(bestByNote.entries())
+      .filter(([noteId]) => notesById.has(noteId))
+      .map(([noteId, match]) => ({ note: notesById.get(noteId)!, ...match }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
   }
 
   async searchByTag(tag: string): Promise<Note[]> {
@@ -254,15 +533,73 @@ export class SupabaseStorage implements StorageBackend {
 
     if (error) throw error;
 
-    return data.map(d => ({
-      id: d.id,
-      content: d.content,
-      embedding: d.embedding,
-      tags: d.tags,
-      source: d.source,
-      createdAt: new Date(d.created_at).getTime(),
-      updatedAt: new Date(d.updated_at).getTime()
-    }));
+    return data.map(d => this.mapNote(d));
+  }
+
+  async getNotesByUrl(url: string): Promise<Note[]> {
+    const client = this.ensureClient();
+    const page = url.split('#')[0];
+
+    // LIKE treats % and _ in the URL as wildcards, so the prefix match is narrowed down here
+    const { data, error } = await client
+      .from('notes')
+      .select('*')
+      .like('source->>url', `${page}%`);
+
+    if (error) throw error;
+
+    return data
+      .map(d => this.mapNote(d))
+      .filter(note => note.source.url === page || note.source.url.startsWith(`${page}#`));
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    const collections = await this.pullCollections();
+    return collections.filter(collection => !collection.deletedAt);
+  }
+
+  async putCollection(collection: Collection): Promise<Collection> {
+    const { data, error } = await this.ensureClient()
+      .from('collections')
+      .upsert(this.collectionRow(collection))
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return this.mapCollection(data);
+  }
+
+  async getNotesInCollections(collectionIds: string[]): Promise<Note[]> {
+    const client = this.ensureClient();
+
+    const { data, error } = await client
+      .from('notes')
+      .select('*')
+      .overlaps('collection_ids', collectionIds);
+
+    if (error) throw error;
+
+    return data.map(d => this.mapNote(d));
+  }
+
+  // Every collection, tombstones included; there are few enough to exchange whole on each sync
+  async pullCollections(): Promise<Collection[]> {
+    const { data, error } = await this.ensureClient()
+      .from('collections')
+      .select('*');
+
+    if (error) throw error;
+
+    return data.map(d => this.mapCollection(d));
+  }
+
+  async pushCollections(collections: Collection[]): Promise<void> {
+    const { error } = await this.ensureClient()
+      .from('collections')
+      .upsert(collections.map(collection => this.collectionRow(collection)));
+
+    if (error) throw error;
   }
 
   async getRecentNotes(limit: number = 10): Promise<Note[]> {
@@ -276,15 +613,7 @@ export class SupabaseStorage implements StorageBackend {
 
     if (error) throw error;
 
-    return data.map(d => ({
-      id: d.id,
-      content: d.content,
-      embedding: d.embedding,
-      tags: d.tags,
-      source: d.source,
-      createdAt: new Date(d.created_at).getTime(),
-      updatedAt: new Date(d.updated_at).getTime()
-    }));
+    return data.map(d => this.mapNote(d));
   }
 
   async getTags(): Promise<string[]> {
@@ -0,0 +1,303 @@
+// Two-way sync between the local IndexedDB store and a remote backend
+import { Collection, Note, NoteChunk } from './storage-interface';
+import { IndexDBStorage } from './indexdb-storage';
+import { OutboxEntry } from './sync-outbox';
+import { createsCollectionCycle } from '../utils/collection-utils';
+
+export type SyncChunk = Omit<NoteChunk, 'id' | 'noteId'>;
+
+export interface RemoteNote {
+  note: Note;
+  chunks: SyncChunk[];
+}
+
+export interface RemoteDeletion {
+  noteId: string;
+  deletedAt: number;
+}
+
+// Server-assigned positions in the remote note and tombstone change feeds
+export interface SyncCursor {
+  notes: string | null;
+  deletions: string | null;
+}
+
+export interface RemoteChanges {
+  notes: RemoteNote[];
+  deletions: RemoteDeletion[];
+  cursor: SyncCursor;
+  hasMore: boolean;
+}
+
+// Implemented by SupabaseStorage; any PostgREST server with the same schema works as a stand-in
+export interface SyncRemote {
+  initialize(): Promise<void>;
+  fetchRemoteNote(noteId: string): Promise<RemoteNote | RemoteDeletion | null>;
+  pushNote(note: Note, chunks: SyncChunk[]): Promise<void>;
+  pushDeletion(noteId: string, deletedAt: number): Promise<void>;
+  pullChanges(cursor: SyncCursor, limit: number): Promise<RemoteChanges>;
+  pullCollections(): Promise<Collection[]>;
+  pushCollections(collections: Collection[]): Promise<void>;
+}
+
+export interface SyncStatus {
+  syncing: boolean;
+  pending: number;
+  lastSyncAt: number | null;
+  lastError: string | null;
+  conflicts: number; // Conflict copies created so far
+}
+
+const SYNC_PAGE_SIZE = 50;
+const SYNC_DEBOUNCE_MS = 2000;
+const CONFLICT_SUFFIX = ' (conflict copy)';
+
+// Set when the user copied their local notes to Supabase on switching, rather than switching without them
+export const LOCAL_NOTES_COPIED_KEY = 'localNotesCopied';
+
+export class SyncEngine {
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private remoteReady = false;
+
+  constructor(private local: IndexDBStorage, private remote: SyncRemote) {}
+
+  // Batch bursts of local writes into one sync; failures are kept for the status display
+  scheduleSync(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sync().catch(error => console.error('Background sync failed:', error));
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  // Pull remote changes, then push the outbox; concurrent callers share the running sync
+  async sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runSync(): Promise<void> {
+    const { outbox } = this.local;
+    try {
+      if (!this.remoteReady) {
+        await this.remote.initialize();
+        this.remoteReady = true;
+      }
+      await this.pull();
+      await this.push();
+      await this.syncCollections();
+      await outbox.setState('lastSyncAt', Date.now());
+      await outbox.setState('lastError', null);
+    } catch (error) {
+      await outbox.setState('lastError', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const { outbox } = this.local;
+    return {
+      syncing: this.running !== null,
+      pending: await outbox.count(),
+      lastSyncAt: (await outbox.getState<number>('lastSyncAt')) ?? null,
+      lastError: (await outbox.getState<string>('lastError')) ?? null,
+      conflicts: (await outbox.getState<number>('conflicts')) ?? 0
+    };
+  }
+
+  private async pull(): Promise<void> {
+    const { outbox } = this.local;
+    // The first sync merges two existing collections instead of following a feed
+    const merging = !(await outbox.getState<boolean>('initialSyncDone'));
+    let cursor = (await outbox.getState<SyncCursor>('cursor')) || { notes: null, deletions: null };
+    const remoteIds = new Set<string>();
+
+    let changes: RemoteChanges;
+    do {
+      changes = await this.remote.pullChanges(cursor, SYNC_PAGE_SIZE);
+      for (const remoteNote of changes.notes) {
+        remoteIds.add(remoteNote.note.id);
+        await this.applyRemoteNote(remoteNote);
+      }
+      for (const deletion of changes.deletions) {
+        await this.applyRemoteDeletion(deletion);
+      }
+      cursor = changes.cursor;
+      await outbox.setState('cursor', cursor);
+    } while (changes.hasMore);
+
+    if (merging) {
+      // Local notes the remote has never seen are uploaded as new, but only if the user chose to copy them
+      if (await outbox.getState<boolean>(LOCAL_NOTES_COPIED_KEY)) {
+        for (const note of await this.local.getAllNotes()) {
+          if (!remoteIds.has(note.id) && !(await outbox.get(note.id))) {
+            await outbox.enqueue(note.id, 'put', null);
+          }
+        }
+      }
+      await outbox.setState('initialSyncDone', true);
+    }
+  }
+
+  // Collections are exchanged whole and the newer copy of each wins; tombstones carry deletions
+  private async syncCollections(): Promise<void> {
+    let remote: Collection[];
+    try {
+      remote = await this.remote.pullCollections();
+    } catch (error) {
+      // Databases set up before collections have no collections table; notes still sync
+      console.warn('Could not sync collections:', error);
+      return;
+    }
+
+    const local = await this.local.getCollectionRecords();
+    const remoteById = new Map(remote.map(collection => [collection.id, collection]));
+    const localById = new Map(local.map(collection => [collection.id, collection]));
+
+    const outgoing = local.filter(collection => {
+      const other = remoteById.get(collection.id);
+      return !other || collection.updatedAt > other.updatedAt;
+    });
+    if (outgoing.length > 0) {
+      await this.remote.pushCollections(outgoing);
+    }
+
+    for (const collection of remote) {
+      const other = localById.get(collection.id);
+      if (!other || collection.updatedAt > other.updatedAt) {
+        // Two devices filing two collections under each other would make a loop; the incoming one goes back to
+        // the top level, and the newer timestamp carries that fix to the other devices
+        const applied = createsCollectionCycle([...localById.values()], collection.id, collection.parentId)
+          ? { ...collection, parentId: null, updatedAt: Date.now() }
+          : collection;
+        localById.set(applied.id, applied);
+        await this.local.putCollection(applied);
+      }
+    }
+  }
+
+  private async applyRemoteNote(remoteNote: RemoteNote): Promise<void> {
+    const { note } = remoteNote;
+    // Notes with local changes are reconciled when those changes are pushed
+    if (await this.local.outbox.get(note.id)) return;
+
+    const local = await this.local.getNote(note.id);
+    if (local && local.updatedAt === note.updatedAt) return; // Our own push coming back
+    if (local && local.updatedAt > note.updatedAt) {
+      // Only happens while merging: the local copy is newer, so it goes up instead
+      await this.local.outbox.enqueue(note.id, 'put', note.updatedAt);
+      return;
+    }
+    await this.storeRemoteNote(remoteNote);
+  }
+
+  private async applyRemoteDeletion(deletion: RemoteDeletion): Promise<void> {
+    if (await this.local.outbox.get(deletion.noteId)) return;
+
+    const local = await this.local.getNote(deletion.noteId);
+    if (!local) return;
+    if (local.updatedAt > deletion.deletedAt) {
+      // Edited here after it was deleted elsewhere: the edit brings it back
+      await this.local.outbox.enqueue(local.id, 'put', null);
+      return;
+    }
+    await this.local.deleteNote(deletion.noteId, { track: false });
+  }
+
+  private async push(): Promise<void> {
+    let failure: unknown = null;
+
+    for (const entry of await this.local.outbox.list()) {
+      try {
+        await this.pushEntry(entry);
+        await this.local.outbox.settle(entry);
+      } catch (error) {
+        // Keep going so one bad note does not hold up the rest; it stays queued for the next sync
+        console.error(`Failed to push note ${entry.noteId}:`, error);
+        failure = failure || error;
+      }
+    }
+
+    if (failure) throw failure;
+  }
+
+  private async pushEntry(entry: OutboxEntry): Promise<void> {
+    const remoteState = await this.remote.fetchRemoteNote(entry.noteId);
+    // The remote moved on since the version this change was made on top of
+    const conflict = remoteState !== null &&
+      !('note' in remoteState && remoteState.note.updatedAt === entry.baseVersion);
+
+    if (entry.op === 'delete') {
+      if (!remoteState || 'deletedAt' in remoteState) return;
+      if (!conflict) {
+        await this.remote.pushDeletion(entry.noteId, entry.deletedAt ?? Date.now());
+        return;
+      }
+      // Edited elsewhere after our last sync: keep the edit rather than the delete
+      await this.storeRemoteNote(remoteState);
+      return;
+    }
+
+    const note = await this.local.getNote(entry.noteId);
+    if (!note) return;
+    const local: RemoteNote = { note, chunks: toSyncChunks(await this.local.getChunks(note.id)) };
+
+    if (!remoteState || !conflict || 'deletedAt' in remoteState) {
+      // A local edit also wins over a delete made elsewhere
+      await this.remote.pushNote(local.note, local.chunks);
+      return;
+    }
+    await this.resolveEditConflict(local, remoteState);
+  }
+
+  // Same note edited on two devices: the latest edit wins and the other is kept as a copy
+  private async resolveEditConflict(local: RemoteNote, remote: RemoteNote): Promise<void> {
+    const localWins = local.note.updatedAt > remote.note.updatedAt;
+    const [winner, loser] = localWins ? [local, remote] : [remote, local];
+
+    if (localWins) {
+      await this.remote.pushNote(local.note, local.chunks);
+    } else {
+      await this.storeRemoteNote(remote);
+    }
+
+    if (!sameContent(winner.note, loser.note)) {
+      await this.saveConflictCopy(loser);
+    }
+  }
+
+  private async saveConflictCopy({ note, chunks }: RemoteNote): Promise<void> {
+    const { id, updatedAt, ...fields } = note;
+    const copy = await this.local.saveNote({
+      ...fields,
+      source: { ...note.source, title: `${note.source.title}${CONFLICT_SUFFIX}` },
+      updatedAt: Date.now()
+    });
+    await this.local.saveChunks(copy.id, chunks);
+
+    const conflicts = (await this.local.outbox.getState<number>('conflicts')) ?? 0;
+    await this.local.outbox.setState('conflicts', conflicts + 1);
+    // The copy is queued locally; upload it without waiting for the next periodic sync
+    this.scheduleSync();
+  }
+
+  private async storeRemoteNote({ note, chunks }: RemoteNote): Promise<void> {
+    await this.local.putNote(note, { track: false });
+    await this.local.saveChunks(note.id, chunks, { track: false });
+  }
+}
+
+function toSyncChunks(chunks: NoteChunk[]): SyncChunk[] {
+  return chunks.map(({ id, noteId, ...chunk }) => chunk);
+}
+
+function sameContent(a: Note, b: Note): boolean {
+  return a.content === b.content &&
+    a.source.title === b.source.title &&
+    [...a.tags].sort().join('\n') === [...b.tags].sort().join('\n');
+}
@@ -0,0 +1,74 @@
+// Outbox of local writes waiting to be pushed by the sync engine, plus sync bookkeeping
+import { Table } from 'dexie';
+
+// At most one pending change per note; later writes replace earlier ones
+export interface OutboxEntry {
+  noteId: string;
+  op: 'put' | 'delete';
+  baseVersion: number | null; // Remote updatedAt the local change was made on top of; null for new notes
+  deletedAt?: number;
+  version: number; // Bumped on every write so a push only settles the change it sent
+}
+
+export interface SyncStateEntry {
+  key: string;
+  value: any;
+}
+
+export class SyncOutbox {
+  constructor(
+    private entries: Table<OutboxEntry, string>,
+    private state: Table<SyncStateEntry, string>
+  ) {}
+
+  // baseVersion only counts for the first pending change; later edits build on the same remote version
+  async enqueue(noteId: string, op: OutboxEntry['op'], baseVersion: number | null, deletedAt?: number): Promise<void> {
+    const existing = await this.entries.get(noteId);
+    await this.entries.put({
+      noteId,
+      op,
+      baseVersion: existing ? existing.baseVersion : baseVersion,
+      deletedAt,
+      version: (existing?.version || 0) + 1
+    });
+  }
+
+  async get(noteId: string): Promise<OutboxEntry | undefined> {
+    return await this.entries.get(noteId);
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return await this.entries.toArray();
+  }
+
+  async count(): Promise<number> {
+    return await this.entries.count();
+  }
+
+  // Remove a pushed change unless the note was written again while it was in flight
+  async settle(entry: OutboxEntry): Promise<void> {
+    await this.entries.db.transaction('rw', this.entries, async () => {
+      const current = await this.entries.get(entry.noteId);
+      if (current && current.version === entry.version) {
+        await this.entries.delete(entry.noteId);
+      }
+    });
+  }
+
+  async getState<T>(key: string): Promise<T | undefined> {
+    return (await this.state.get(key))?.value;
+  }
+
+  async setState(key: string, value: unknown): Promise<void> {
+    await this.state.put({ key, value });
+  }
+
+  async clear(): Promise<void> {
+    await this.entries.clear();
+  }
+
+  // Forget the sync position so the next sync starts over with a full merge
+  async resetSyncState(): Promise<void> {
+    await this.state.clear();
+  }
+}
@@ -0,0 +1,104 @@
+import { StorageBackend, Collection, Note, NewNote, NoteChunk, VectorSearchResult } from './storage-interface';
+import { IndexDBStorage } from './indexdb-storage';
+import { SyncEngine, SyncRemote } from './sync-engine';
+
+// Offline-first storage: everything is read from and written to IndexedDB,
+// and the sync engine exchanges changes with the remote in the background
+export class SyncedStorage implements StorageBackend {
+  readonly engine: SyncEngine;
+
+  constructor(readonly local: IndexDBStorage, remote: SyncRemote) {
+    this.engine = new SyncEngine(local, remote);
+  }
+
+  // The remote is only contacted by the sync engine, so startup never waits on the network
+  async initialize(): Promise<void> {
+    await this.local.initialize();
+    this.engine.scheduleSync();
+  }
+
+  async saveNote(note: NewNote): Promise<Note> {
+    const saved = await this.local.saveNote(note);
+    this.engine.scheduleSync();
+    return saved;
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    return this.local.getNote(id);
+  }
+
+  async getAllNotes(): Promise<Note[]> {
+    return this.local.getAllNotes();
+  }
+
+  async deleteNote(id: string): Promise<void> {
+    await this.local.deleteNote(id);
+    this.engine.scheduleSync();
+  }
+
+  async updateNote(id: string, updates: Partial<Note>): Promise<Note> {
+    const updated = await this.local.updateNote(id, updates);
+    this.engine.scheduleSync();
+    return updated;
+  }
+
+  async putNote(note: Note): Promise<Note> {
+    const saved = await this.local.putNote(note);
+    this.engine.scheduleSync();
+    return saved;
+  }
+
+  async saveChunks(noteId: string, chunks: Omit<NoteChunk, 'id' | 'noteId'>[]): Promise<NoteChunk[]> {
+    const saved = await this.local.saveChunks(noteId, chunks);
+    this.engine.scheduleSync();
+    return saved;
+  }
+
+  async getChunks(noteId: string): Promise<NoteChunk[]> {
+    return this.local.getChunks(noteId);
+  }
+
+  async searchNotes(query: string): Promise<Note[]> {
+    return this.local.searchNotes(query);
+  }
+
+  async searchByVector(embedding: number[], limit?: number, embeddingModel?: string): Promise<VectorSearchResult[]> {
+    return this.local.searchByVector(embedding, limit, embeddingModel);
+  }
+
+  async searchByTag(tag: string): Promise<Note[]> {
+    return this.local.searchByTag(tag);
+  }
+
+  async getNotesByUrl(url: string): Promise<Note[]> {
+    return this.local.getNotesByUrl(url);
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    return this.local.getCollections();
+  }
+
+  async putCollection(collection: Collection): Promise<Collection> {
+    const saved = await this.local.putCollection(collection);
+    this.engine.scheduleSync();
+    return saved;
+  }
+
+  async getNotesInCollections(collectionIds: string[]): Promise<Note[]> {
+    return this.local.getNotesInCollections(collectionIds);
+  }
+
+  async getRecentNotes(limit?: number): Promise<Note[]> {
+    return this.local.getRecentNotes(limit);
+  }
+
+  async getTags(): Promise<string[]> {
+    return this.local.getTags();
+  }
+
+  // Clears the local copy only; no deletions are recorded, so the next sync downloads everything again
+  async clearAll(): Promise<void> {
+    await this.local.clearAll();
+    await this.local.outbox.resetSyncState();
+  }
+}
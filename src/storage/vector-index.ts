@@ -0,0 +1,127 @@
+// Persistent IVF approximate nearest-neighbour index for IndexedDB storage
+import { Table } from 'dexie';
+import { chooseClusterCount, chooseProbeCount, nearestCentroids, trainCentroids } from '../utils/ivf-utils';
+
+// Cluster of vectors saved before the index was trained; always scanned
+export const UNASSIGNED_CLUSTER = -1;
+
+// Below this many vectors brute force is fast enough, so the index is not trained
+export const ANN_MIN_VECTORS = 1000;
+
+export interface Centroid {
+  id: number;
+  vector: number[];
+  size: number; // Vectors currently assigned to this cluster
+}
+
+export interface VectorIndexStats {
+  trained: boolean;
+  clusters: number;
+  probes: number;
+  indexedVectors: number;
+}
+
+export class VectorIndex {
+  private centroids: Centroid[] | null = null;
+
+  constructor(private table: Table<Centroid, number>) {}
+
+  private async load(): Promise<Centroid[]> {
+    if (!this.centroids) {
+      this.centroids = await this.table.orderBy('id').toArray();
+    }
+    return this.centroids;
+  }
+
+  async isTrained(): Promise<boolean> {
+    return (await this.load()).length > 0;
+  }
+
+  // Cluster for a new vector, or UNASSIGNED_CLUSTER before the index is trained
+  async assign(embedding: number[]): Promise<number> {
+    const centroids = await this.load();
+    if (centroids.length === 0 || !embedding || embedding.length !== centroids[0].vector.length) {
+      return UNASSIGNED_CLUSTER;
+    }
+
+    const [index] = nearestCentroids(embedding, centroids.map(c => c.vector), 1);
+    const centroid = centroids[index];
+    centroid.size++;
+    await this.table.update(centroid.id, { size: centroid.size });
+    return centroid.id;
+  }
+
+  async unassign(clusters: number[]): Promise<void> {
+    const centroids = await this.load();
+    for (const cluster of clusters) {
+      const centroid = centroids.find(c => c.id === cluster);
+      if (!centroid) continue;
+      centroid.size = Math.max(0, centroid.size - 1);
+      await this.table.update(centroid.id, { size: centroid.size });
+    }
+  }
+
+  // Clusters worth scanning for a query, or null when the index is untrained and everything must be scanned
+  async probe(query: number[]): Promise<number[] | null> {
+    const centroids = await this.load();
+    if (centroids.length === 0 || query.length !== centroids[0].vector.length) return null;
+
+    const nearest = nearestCentroids(query, centroids.map(c => c.vector), chooseProbeCount(centroids.length));
+    return nearest.map(index => centroids[index].id);
+  }
+
+  // Retrain centroids on all vectors; returns the cluster of each vector in order
+  // Only the most common dimension is indexed, other vectors (e.g. from a previous model) stay unassigned
+  async rebuild(vectors: number[][]): Promise<number[]> {
+    const dimensions = mostCommonLength(vectors);
+    const valid = vectors.filter(v => v && v.length === dimensions);
+    const centroidVectors = trainCentroids(valid, chooseClusterCount(valid.length));
+
+    const sizes = new Array(centroidVectors.length).fill(0);
+    const assignments = vectors.map(vector => {
+      if (!vector || vector.length !== dimensions || centroidVectors.length === 0) return UNASSIGNED_CLUSTER;
+      const [cluster] = nearestCentroids(vector, centroidVectors, 1);
+      sizes[cluster]++;
+      return cluster;
+    });
+
+    const centroids = centroidVectors.map((vector, id) => ({ id, vector, size: sizes[id] }));
+    await this.table.clear();
+    await this.table.bulkAdd(centroids);
+    this.centroids = centroids;
+
+    return assignments;
+  }
+
+  async clear(): Promise<void> {
+    await this.table.clear();
+    this.centroids = [];
+  }
+
+  async getStats(): Promise<VectorIndexStats> {
+    const centroids = await this.load();
+    return {
+      trained: centroids.length > 0,
+      clusters: centroids.length,
+      probes: centroids.length > 0 ? chooseProbeCount(centroids.length) : 0,
+      indexedVectors: centroids.reduce((sum, c) => sum + c.size, 0)
+    };
+  }
+}
+
+function mostCommonLength(vectors: number[][]): number {
+  const counts = new Map<number, number>();
+  vectors.forEach(vector => {
+    if (vector && vector.length > 0) counts.set(vector.length, (counts.get(vector.length) || 0) + 1);
+  });
+
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, length) => {
+    if (count > bestCount) {
+      best = length;
+      bestCount = count;
+    }
+  });
+  return best;
+}
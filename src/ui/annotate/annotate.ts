@@ -0,0 +1,96 @@
+// Quick annotate window, opened right after a selection is saved
+
+const noteId = new URLSearchParams(location.search).get('id');
+let rating = 0;
+
+const EXCERPT_LENGTH = 160;
+
+document.addEventListener('DOMContentLoaded', () => {
+  setupAnnotateListeners();
+  loadNote();
+});
+
+function setupAnnotateListeners() {
+  document.getElementById('skipBtn')?.addEventListener('click', () => window.close());
+  document.getElementById('saveBtn')?.addEventListener('click', saveAnnotation);
+
+  // Clicking the current rating again clears it
+  document.getElementById('ratingStars')?.addEventListener('click', (e) => {
+    const star = (e.target as HTMLElement).closest('.star') as HTMLElement | null;
+    if (!star) return;
+    const value = Number(star.dataset.rating);
+    setRating(value === rating ? 0 : value);
+  });
+
+  // Ctrl+Enter saves from anywhere in the form; Escape skips
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveAnnotation();
+    if (e.key === 'Escape') window.close();
+  });
+}
+
+function setRating(value: number) {
+  rating = value;
+  document.querySelectorAll('.star').forEach(star => {
+    const active = Number((star as HTMLElement).dataset.rating) <= rating;
+    star.classList.toggle('active', active);
+    star.setAttribute('aria-checked', String(Number((star as HTMLElement).dataset.rating) === rating));
+  });
+}
+
+async function loadNote() {
+  const noteTitle = document.getElementById('noteTitle');
+  const noteExcerpt = document.getElementById('noteExcerpt');
+  if (!noteId || !noteTitle || !noteExcerpt) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getNote', data: { id: noteId } });
+    const note = response?.note;
+    if (!note) {
+      throw new Error(response?.error || 'Note not found');
+    }
+
+    noteTitle.textContent = note.source.title || note.source.url;
+    noteExcerpt.textContent = note.content.length > EXCERPT_LENGTH ? `${note.content.substring(0, EXCERPT_LENGTH)}...` : note.content;
+
+    // Opened again for a note that already has an annotation
+    const annotation = note.annotation || {};
+    (document.getElementById('reasonInput') as HTMLInputElement).value = annotation.reason || '';
+    (document.getElementById('commentInput') as HTMLTextAreaElement).value = annotation.comment || '';
+    setRating(annotation.rating || 0);
+  } catch (error) {
+    console.error('Failed to load note:', error);
+    noteExcerpt.textContent = 'Could not load the saved note.';
+  }
+}
+
+async function saveAnnotation() {
+  const saveBtn = document.getElementById('saveBtn') as HTMLButtonElement;
+  const status = document.getElementById('status');
+  if (!noteId || saveBtn?.disabled) return;
+
+  const annotation = {
+    reason: (document.getElementById('reasonInput') as HTMLInputElement).value,
+    comment: (document.getElementById('commentInput') as HTMLTextAreaElement).value,
+    rating
+  };
+
+  saveBtn.disabled = true;
+  saveBtn.textContent = 'Saving...';
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'updateNote',
+      data: { id: noteId, updates: { annotation } }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    window.close();
+  } catch (error: any) {
+    console.error('Failed to save annotation:', error);
+    if (status) status.textContent = `Failed to save: ${error?.message || error}`;
+    saveBtn.disabled = false;
+    saveBtn.textContent = 'Save';
+  }
+}
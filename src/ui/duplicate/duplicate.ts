@@ -0,0 +1,120 @@
+// Duplicate window, opened when a new selection or clip matches notes already saved
+
+const pendingSaveId = new URLSearchParams(location.search).get('id');
+
+const MATCH_EXCERPT_LENGTH = 200;
+
+document.addEventListener('DOMContentLoaded', () => {
+  setupDuplicateListeners();
+  loadPendingSave();
+});
+
+function setupDuplicateListeners() {
+  document.getElementById('discardBtn')?.addEventListener('click', discardSave);
+  document.getElementById('keepBothBtn')?.addEventListener('click', () => resolveSave('keep-both'));
+  document.getElementById('replaceBtn')?.addEventListener('click', () => resolveSave('replace'));
+  document.getElementById('mergeBtn')?.addEventListener('click', () => resolveSave('merge'));
+
+  // Escape leaves the decision for later; the save waits until the browser closes
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') window.close();
+  });
+}
+
+function matchExcerpt(content: string): string {
+  return content.length > MATCH_EXCERPT_LENGTH ? `${content.substring(0, MATCH_EXCERPT_LENGTH)}...` : content;
+}
+
+async function loadPendingSave() {
+  const newNoteTitle = document.getElementById('newNoteTitle');
+  const newNoteExcerpt = document.getElementById('newNoteExcerpt');
+  const matchList = document.getElementById('matchList');
+  if (!pendingSaveId || !newNoteTitle || !newNoteExcerpt || !matchList) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getPendingSave', data: { id: pendingSaveId } });
+    if (!response || response.error) {
+      throw new Error(response?.error || 'Save not found');
+    }
+
+    newNoteTitle.textContent = response.note.source.title || response.note.source.url;
+    newNoteExcerpt.textContent = matchExcerpt(response.note.content);
+
+    // Built with textContent: note text is never markup
+    matchList.replaceChildren(...response.matches.map((match: any, i: number) => {
+      const row = document.createElement('label');
+      row.className = 'match';
+
+      const radio = document.createElement('input');
+      radio.type = 'radio';
+      radio.name = 'match';
+      radio.value = match.noteId;
+      radio.checked = i === 0;
+
+      const body = document.createElement('div');
+      body.className = 'match-body';
+      const title = document.createElement('div');
+      title.className = 'note-title';
+      title.textContent = match.note.source.title || match.note.source.url;
+      const text = document.createElement('div');
+      text.className = 'note-excerpt';
+      text.textContent = matchExcerpt(match.note.content);
+
+      const meta = document.createElement('div');
+      meta.className = 'match-meta';
+      const kind = document.createElement('span');
+      kind.className = 'match-kind';
+      kind.textContent = match.kind === 'exact' ? 'Same text' : `${Math.round(match.similarity * 100)}% similar`;
+      const saved = document.createElement('span');
+      saved.textContent = `Saved ${new Date(match.note.createdAt).toLocaleDateString()}`;
+      meta.append(kind, saved);
+
+      body.append(title, text, meta);
+      row.append(radio, body);
+      return row;
+    }));
+  } catch (error: any) {
+    console.error('Failed to load pending save:', error);
+    newNoteExcerpt.textContent = error?.message || 'Could not load this save.';
+    document.querySelectorAll('.actions .btn:not(.btn-discard)').forEach(btn => (btn as HTMLButtonElement).disabled = true);
+  }
+}
+
+function setActionsDisabled(disabled: boolean) {
+  document.querySelectorAll('.actions .btn').forEach(btn => (btn as HTMLButtonElement).disabled = disabled);
+}
+
+async function resolveSave(resolution: 'merge' | 'replace' | 'keep-both') {
+  const status = document.getElementById('status');
+  const targetId = (document.querySelector('input[name="match"]:checked') as HTMLInputElement | null)?.value;
+  if (!pendingSaveId || (resolution !== 'keep-both' && !targetId)) return;
+
+  setActionsDisabled(true);
+  if (status) status.textContent = '';
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'resolvePendingSave',
+      data: { id: pendingSaveId, resolution, targetId }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    window.close();
+  } catch (error: any) {
+    console.error('Failed to resolve duplicate:', error);
+    if (status) status.textContent = `Failed to save: ${error?.message || error}`;
+    setActionsDisabled(false);
+  }
+}
+
+async function discardSave() {
+  if (!pendingSaveId) return;
+
+  try {
+    await chrome.runtime.sendMessage({ action: 'discardPendingSave', data: { id: pendingSaveId } });
+  } catch (error) {
+    console.error('Failed to discard save:', error);
+  }
+  window.close();
+}
@@ -1,37 +1,68 @@
 // Options page logic
+import { PROVIDER_CONTEXT_LIMITS } from '../../utils/config';
+import { base64ToBytes, bytesToBase64 } from '../../utils/vault-utils';
 
 interface Config {
   storageBackend: 'indexdb' | 'supabase';
+  mirrorStorage?: boolean;
   aiProvider: 'chrome' | 'openai' | 'gemini';
   supabaseUrl?: string;
   supabaseKey?: string;
   openaiKey?: string;
   geminiKey?: string;
+  youtubeClipWindow?: number;
+  noteSummaries?: boolean;
+  quickAnnotate?: boolean;
+  pageHighlights?: boolean;
+  duplicateCheck?: boolean;
+  duplicateThreshold?: number;
+  reviewQueue?: boolean;
+  reviewDailyLimit?: number;
+  digestFrequency?: 'off' | 'daily' | 'weekly';
+  searchMode?: 'keyword' | 'hybrid';
+  similarityFloor?: number;
+  retrievalTopK?: number;
+  retrievalContextBudget?: number;
+  retrievalRerank?: boolean;
+  retrievalQueryFilters?: boolean;
 }
 
 document.addEventListener('DOMContentLoaded', async () => {
   await loadConfig();
   setupEventListeners();
+  loadEmbeddingStatus();
+  loadVectorIndexStats();
+  loadSyncStatus();
+  loadTagManager();
 });
 
 function setupEventListeners() {
   // Storage radio buttons
   document.querySelectorAll('input[name="storage"]').forEach(radio => {
-    radio.addEventListener('change', (e) => {
-      const value = (e.target as HTMLInputElement).value;
-      toggleConfigPanel('supabaseConfig', value === 'supabase');
-    });
+    radio.addEventListener('change', updateSupabasePanel);
   });
 
+  // Mirroring needs Supabase credentials even when IndexedDB is the main backend
+  const mirrorStorage = document.getElementById('mirrorStorage');
+  if (mirrorStorage) {
+    mirrorStorage.addEventListener('change', updateSupabasePanel);
+  }
+
   // AI provider radio buttons
   document.querySelectorAll('input[name="ai"]').forEach(radio => {
     radio.addEventListener('change', (e) => {
       const value = (e.target as HTMLInputElement).value;
       toggleConfigPanel('openaiConfig', value === 'openai');
       toggleConfigPanel('geminiConfig', value === 'gemini');
+      updateContextBudgetClamp();
     });
   });
 
+  const retrievalContextBudget = document.getElementById('retrievalContextBudget');
+  if (retrievalContextBudget) {
+    retrievalContextBudget.addEventListener('input', updateContextBudgetClamp);
+  }
+
   // Save button
   const saveBtn = document.getElementById('saveBtn');
   if (saveBtn) {
@@ -44,6 +75,87 @@ function setupEventListeners() {
     resetBtn.addEventListener('click', resetConfig);
   }
 
+  // Vault export/import
+  const exportVaultBtn = document.getElementById('exportVaultBtn');
+  if (exportVaultBtn) {
+    exportVaultBtn.addEventListener('click', exportVault);
+  }
+
+  const importVaultBtn = document.getElementById('importVaultBtn');
+  const importVaultFile = document.getElementById('importVaultFile') as HTMLInputElement | null;
+  if (importVaultBtn && importVaultFile) {
+    importVaultBtn.addEventListener('click', () => importVaultFile.click());
+    importVaultFile.addEventListener('change', importVault);
+  }
+
+  // JSON backup/restore
+  const createBackupBtn = document.getElementById('createBackupBtn');
+  if (createBackupBtn) {
+    createBackupBtn.addEventListener('click', createBackup);
+  }
+
+  const restoreBackupBtn = document.getElementById('restoreBackupBtn');
+  const restoreBackupFile = document.getElementById('restoreBackupFile') as HTMLInputElement | null;
+  if (restoreBackupBtn && restoreBackupFile) {
+    restoreBackupBtn.addEventListener('click', () => restoreBackupFile.click());
+    restoreBackupFile.addEventListener('change', restoreBackup);
+  }
+
+  // Duplicate finder; each cluster's buttons are handled by the list
+  const findDuplicatesBtn = document.getElementById('findDuplicatesBtn');
+  if (findDuplicatesBtn) {
+    findDuplicatesBtn.addEventListener('click', findDuplicates);
+  }
+
+  const duplicateClusters = document.getElementById('duplicateClusters');
+  if (duplicateClusters) {
+    duplicateClusters.addEventListener('click', onDuplicateClusterClick);
+  }
+
+  // Tag manager; row and suggestion buttons are handled by their lists
+  const suggestTagsBtn = document.getElementById('suggestTagsBtn');
+  if (suggestTagsBtn) {
+    suggestTagsBtn.addEventListener('click', findTagSuggestions);
+  }
+
+  const tagTree = document.getElementById('tagTree');
+  if (tagTree) {
+    tagTree.addEventListener('click', onTagTreeClick);
+  }
+
+  const tagSuggestionList = document.getElementById('tagSuggestionList');
+  if (tagSuggestionList) {
+    tagSuggestionList.addEventListener('click', onTagSuggestionClick);
+  }
+
+  // Re-embed button starts, pauses or resumes the background job
+  const reembedBtn = document.getElementById('reembedBtn');
+  if (reembedBtn) {
+    reembedBtn.addEventListener('click', toggleReembed);
+  }
+
+  // Job progress is written to local storage by the service worker
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.reembedJob) {
+      onReembedJobChanged(changes.reembedJob.newValue);
+    }
+    if (areaName === 'local' && changes.storageMigration) {
+      renderMigration(changes.storageMigration.newValue);
+    }
+  });
+
+  // Sync now button
+  const syncNowBtn = document.getElementById('syncNowBtn');
+  if (syncNowBtn) {
+    syncNowBtn.addEventListener('click', syncNow);
+  }
+
+  // Rebuild vector index button
+  const rebuildIndexBtn = document.getElementById('rebuildIndexBtn');
+  if (rebuildIndexBtn) {
+    rebuildIndexBtn.addEventListener('click', rebuildVectorIndex);
+  }
+
   // Delete all button
   const deleteAllBtn = document.getElementById('deleteAllBtn');
   if (deleteAllBtn) {
@@ -58,6 +170,28 @@ function toggleConfigPanel(panelId: string, show: boolean) {
   }
 }
 
+// Says when the chosen provider reads less note text than the budget allows
+function updateContextBudgetClamp() {
+  const clamp = document.getElementById('contextBudgetClamp');
+  if (!clamp) return;
+
+  const aiProvider = (document.querySelector('input[name="ai"]:checked') as HTMLInputElement)?.value as Config['aiProvider'];
+  const budget = parseInt((document.getElementById('retrievalContextBudget') as HTMLInputElement)?.value || '0', 10);
+  const limit = PROVIDER_CONTEXT_LIMITS[aiProvider];
+  const clamped = limit !== undefined && budget > limit;
+
+  clamp.style.display = clamped ? 'block' : 'none';
+  if (clamped) {
+    clamp.textContent = `Chrome AI reads at most ${limit} characters, so answers use ${limit} until you switch to OpenAI or Gemini.`;
+  }
+}
+
+function updateSupabasePanel() {
+  const storageBackend = (document.querySelector('input[name="storage"]:checked') as HTMLInputElement)?.value;
+  const mirrorStorage = (document.getElementById('mirrorStorage') as HTMLInputElement)?.checked;
+  toggleConfigPanel('supabaseConfig', storageBackend === 'supabase' || mirrorStorage);
+}
+
 async function loadConfig() {
   try {
     const response = await chrome.runtime.sendMessage({ action: 'getConfig' });
@@ -72,9 +206,12 @@ async function loadConfig() {
     ) as HTMLInputElement;
     if (storageRadio) {
       storageRadio.checked = true;
-      toggleConfigPanel('supabaseConfig', config.storageBackend === 'supabase');
     }
 
+    const mirrorStorage = document.getElementById('mirrorStorage') as HTMLInputElement;
+    if (mirrorStorage) mirrorStorage.checked = !!config.mirrorStorage;
+    updateSupabasePanel();
+
     // Set AI provider
     const aiRadio = document.querySelector(
       `input[name="ai"][value="${config.aiProvider}"]`
@@ -102,6 +239,47 @@ async function loadConfig() {
       const geminiKey = document.getElementById('geminiKey') as HTMLInputElement;
       if (geminiKey) geminiKey.value = config.geminiKey;
     }
+
+    // Set search options
+    const searchMode = document.getElementById('searchMode') as HTMLSelectElement;
+    if (searchMode) searchMode.value = config.searchMode || 'hybrid';
+    const similarityFloor = document.getElementById('similarityFloor') as HTMLInputElement;
+    if (similarityFloor) similarityFloor.value = String(config.similarityFloor ?? 0.35);
+
+    // Set chat retrieval options
+    const retrievalTopK = document.getElementById('retrievalTopK') as HTMLInputElement;
+    if (retrievalTopK) retrievalTopK.value = String(config.retrievalTopK ?? 5);
+    const retrievalContextBudget = document.getElementById('retrievalContextBudget') as HTMLInputElement;
+    if (retrievalContextBudget) retrievalContextBudget.value = String(config.retrievalContextBudget ?? 3000);
+    updateContextBudgetClamp();
+    const retrievalQueryFilters = document.getElementById('retrievalQueryFilters') as HTMLInputElement;
+    if (retrievalQueryFilters) retrievalQueryFilters.checked = config.retrievalQueryFilters ?? true;
+    const retrievalRerank = document.getElementById('retrievalRerank') as HTMLInputElement;
+    if (retrievalRerank) retrievalRerank.checked = config.retrievalRerank ?? false;
+
+    // Set YouTube clip window
+    const youtubeClipWindow = document.getElementById('youtubeClipWindow') as HTMLInputElement;
+    if (youtubeClipWindow) youtubeClipWindow.value = String(config.youtubeClipWindow ?? 60);
+
+    const noteSummaries = document.getElementById('noteSummaries') as HTMLInputElement;
+    if (noteSummaries) noteSummaries.checked = config.noteSummaries ?? true;
+
+    const quickAnnotate = document.getElementById('quickAnnotate') as HTMLInputElement;
+    if (quickAnnotate) quickAnnotate.checked = config.quickAnnotate ?? true;
+    const pageHighlights = document.getElementById('pageHighlights') as HTMLInputElement;
+    if (pageHighlights) pageHighlights.checked = config.pageHighlights ?? true;
+
+    const duplicateCheck = document.getElementById('duplicateCheck') as HTMLInputElement;
+    if (duplicateCheck) duplicateCheck.checked = config.duplicateCheck ?? true;
+    const duplicateThreshold = document.getElementById('duplicateThreshold') as HTMLInputElement;
+    if (duplicateThreshold) duplicateThreshold.value = String(config.duplicateThreshold ?? 0.95);
+
+    const reviewQueue = document.getElementById('reviewQueue') as HTMLInputElement;
+    if (reviewQueue) reviewQueue.checked = config.reviewQueue ?? true;
+    const reviewDailyLimit = document.getElementById('reviewDailyLimit') as HTMLInputElement;
+    if (reviewDailyLimit) reviewDailyLimit.value = String(config.reviewDailyLimit ?? 10);
+    const digestFrequency = document.getElementById('digestFrequency') as HTMLSelectElement;
+    if (digestFrequency) digestFrequency.value = config.digestFrequency ?? 'weekly';
   } catch (error) {
     console.error('Failed to load config:', error);
     showStatus('Failed to load settings', 'error');
@@ -113,13 +291,84 @@ async function saveConfig() {
     const storageBackend = (document.querySelector('input[name="storage"]:checked') as HTMLInputElement)?.value as 'indexdb' | 'supabase';
     const aiProvider = (document.querySelector('input[name="ai"]:checked') as HTMLInputElement)?.value as 'chrome' | 'openai' | 'gemini';
 
+    const youtubeClipWindowInput = document.getElementById('youtubeClipWindow') as HTMLInputElement;
+    const youtubeClipWindow = parseInt(youtubeClipWindowInput?.value || '60', 10);
+
+    if (isNaN(youtubeClipWindow) || youtubeClipWindow < 0) {
+      showStatus('YouTube clip window must be 0 or more seconds', 'error');
+      return;
+    }
+
+    const searchMode = (document.getElementById('searchMode') as HTMLSelectElement)?.value as 'keyword' | 'hybrid';
+    const similarityFloorInput = document.getElementById('similarityFloor') as HTMLInputElement;
+    const similarityFloor = parseFloat(similarityFloorInput?.value || '0.35');
+
+    if (isNaN(similarityFloor) || similarityFloor < 0 || similarityFloor > 1) {
+      showStatus('Similarity floor must be between 0 and 1', 'error');
+      return;
+    }
+
+    const retrievalTopK = parseInt((document.getElementById('retrievalTopK') as HTMLInputElement)?.value || '5', 10);
+    const retrievalContextBudget = parseInt((document.getElementById('retrievalContextBudget') as HTMLInputElement)?.value || '3000', 10);
+
+    if (isNaN(retrievalTopK) || retrievalTopK < 1 || retrievalTopK > 20) {
+      showStatus('Notes per answer must be between 1 and 20', 'error');
+      return;
+    }
+    if (isNaN(retrievalContextBudget) || retrievalContextBudget < 500) {
+      showStatus('Context budget must be at least 500 characters', 'error');
+      return;
+    }
+
+    const duplicateThreshold = parseFloat((document.getElementById('duplicateThreshold') as HTMLInputElement)?.value || '0.95');
+
+    if (isNaN(duplicateThreshold) || duplicateThreshold < 0.5 || duplicateThreshold > 1) {
+      showStatus('Near-duplicate similarity must be between 0.5 and 1', 'error');
+      return;
+    }
+
+    const reviewDailyLimit = parseInt((document.getElementById('reviewDailyLimit') as HTMLInputElement)?.value || '10', 10);
+
+    if (isNaN(reviewDailyLimit) || reviewDailyLimit < 1 || reviewDailyLimit > 100) {
+      showStatus('Notes to review per day must be between 1 and 100', 'error');
+      return;
+    }
+
+    const digestFrequency = (document.getElementById('digestFrequency') as HTMLSelectElement)?.value as 'off' | 'daily' | 'weekly';
+
+    const retrievalQueryFilters = (document.getElementById('retrievalQueryFilters') as HTMLInputElement)?.checked ?? true;
+    const retrievalRerank = (document.getElementById('retrievalRerank') as HTMLInputElement)?.checked ?? false;
+
+    const mirrorStorage = (document.getElementById('mirrorStorage') as HTMLInputElement)?.checked ?? false;
+    const noteSummaries = (document.getElementById('noteSummaries') as HTMLInputElement)?.checked ?? true;
+    const quickAnnotate = (document.getElementById('quickAnnotate') as HTMLInputElement)?.checked ?? true;
+    const pageHighlights = (document.getElementById('pageHighlights') as HTMLInputElement)?.checked ?? true;
+    const duplicateCheck = (document.getElementById('duplicateCheck') as HTMLInputElement)?.checked ?? true;
+    const reviewQueue = (document.getElementById('reviewQueue') as HTMLInputElement)?.checked ?? true;
+
     const config: Config = {
       storageBackend,
-      aiProvider
+      mirrorStorage,
+      aiProvider,
+      youtubeClipWindow,
+      noteSummaries,
+      quickAnnotate,
+      pageHighlights,
+      duplicateCheck,
+      duplicateThreshold,
+      reviewQueue,
+      reviewDailyLimit,
+      digestFrequency,
+      searchMode,
+      similarityFloor,
+      retrievalTopK,
+      retrievalContextBudget,
+      retrievalRerank,
+      retrievalQueryFilters
     };
 
-    // Get Supabase credentials if selected
-    if (storageBackend === 'supabase') {
+    // Get Supabase credentials if selected or mirrored to
+    if (storageBackend === 'supabase' || mirrorStorage) {
       const supabaseUrlInput = document.getElementById('supabaseUrl') as HTMLInputElement;
       const supabaseKeyInput = document.getElementById('supabaseKey') as HTMLInputElement;
       
@@ -161,6 +410,17 @@ async function saveConfig() {
       config.geminiKey = geminiKey;
     }
 
+    // Offer to bring the notes along when switching backends; the migration saves the config itself
+    const current = (await chrome.runtime.sendMessage({ action: 'getConfig' }))?.config as Config | undefined;
+    const previousBackend = current?.storageBackend || 'indexdb';
+    if (previousBackend !== storageBackend && confirm(
+      `Copy your notes from ${backendName(previousBackend)} to ${backendName(storageBackend)} before switching?\n\n` +
+      'OK copies them, then switches. Cancel switches without copying.'
+    )) {
+      await migrateStorage(config);
+      return;
+    }
+
     // Save to storage
     await chrome.runtime.sendMessage({
       action: 'setConfig',
@@ -168,12 +428,98 @@ async function saveConfig() {
     });
 
     showStatus('Settings saved successfully!', 'success');
+
+    // A new AI provider may mean notes need re-embedding
+    loadEmbeddingStatus();
+    loadVectorIndexStats();
+    loadSyncStatus();
   } catch (error) {
     console.error('Failed to save config:', error);
     showStatus('Failed to save settings', 'error');
   }
 }
 
+function backendName(backend: Config['storageBackend']): string {
+  return backend === 'supabase' ? 'Supabase' : 'IndexedDB';
+}
+
+interface StorageMigration {
+  status: 'running' | 'completed' | 'failed';
+  from: Config['storageBackend'];
+  to: Config['storageBackend'];
+  total: number;
+  copied: number;
+  failed: { id: string; title: string; error: string }[];
+  truncated: number;
+  missing: string[];
+  targetCount?: number;
+  error?: string;
+}
+
+async function migrateStorage(config: Config) {
+  const saveBtn = document.getElementById('saveBtn') as HTMLButtonElement | null;
+  if (saveBtn) saveBtn.disabled = true;
+
+  try {
+    const migration: StorageMigration | { error: string } = await chrome.runtime.sendMessage({
+      action: 'migrateStorage',
+      data: { config }
+    });
+    if (!('status' in migration)) {
+      throw new Error(migration.error);
+    }
+
+    renderMigration(migration);
+    if (migration.status === 'completed') {
+      showStatus(`Copied ${migration.copied} notes and switched to ${backendName(migration.to)}`, 'success');
+      loadEmbeddingStatus();
+      loadVectorIndexStats();
+      loadSyncStatus();
+    } else {
+      showStatus('Migration incomplete - storage backend not switched', 'error');
+    }
+  } catch (error) {
+    console.error('Failed to migrate storage:', error);
+    showStatus('Failed to migrate notes', 'error');
+  } finally {
+    if (saveBtn) saveBtn.disabled = false;
+  }
+}
+
+function renderMigration(migration: StorageMigration | null) {
+  const progress = document.getElementById('migrationProgress');
+  const progressFill = document.getElementById('migrationProgressFill');
+  const result = document.getElementById('migrationResult');
+  if (!migration || !progress || !progressFill || !result) return;
+
+  progress.style.display = migration.status === 'running' ? 'block' : 'none';
+  progressFill.style.width = migration.total > 0 ? `${migration.copied / migration.total * 100}%` : '0';
+
+  const route = `${backendName(migration.from)} → ${backendName(migration.to)}`;
+  if (migration.status === 'running') {
+    result.textContent = `Copying notes ${route}: ${migration.copied} of ${migration.total}`;
+    return;
+  }
+
+  const lines = [`${route}: copied ${migration.copied} of ${migration.total} notes.`];
+  if (migration.targetCount !== undefined) {
+    lines.push(`${backendName(migration.to)} now has ${migration.targetCount} notes.`);
+  }
+  if (migration.truncated > 0) {
+    lines.push(`${migration.truncated} embeddings were longer than the Supabase vector column and were truncated.`);
+  }
+  if (migration.failed.length > 0) {
+    lines.push(`Failed: ${migration.failed.map(f => `${f.title || f.id} (${f.error})`).join(', ')}.`);
+  }
+  if (migration.missing.length > 0) {
+    lines.push(`${migration.missing.length} notes were missing when verifying.`);
+  }
+  if (migration.error) {
+    lines.push(migration.error + '. Save again to retry; notes already copied are not duplicated.');
+  }
+  result.textContent = lines.join(' ');
+}
+
 async function resetConfig() {
   if (!confirm('Reset all settings to defaults? This will not delete your notes.')) {
     return;
@@ -182,7 +528,23 @@ async function resetConfig() {
   try {
     const defaultConfig: Config = {
       storageBackend: 'indexdb',
-      aiProvider: 'chrome'
+      mirrorStorage: false,
+      aiProvider: 'chrome',
+      youtubeClipWindow: 60,
+      noteSummaries: true,
+      quickAnnotate: true,
+      pageHighlights: true,
+      duplicateCheck: true,
+      duplicateThreshold: 0.95,
+      reviewQueue: true,
+      reviewDailyLimit: 10,
+      digestFrequency: 'weekly',
+      searchMode: 'hybrid',
+      similarityFloor: 0.35,
+      retrievalTopK: 5,
+      retrievalContextBudget: 3000,
+      retrievalRerank: false,
+      retrievalQueryFilters: true
     };
 
     await chrome.runtime.sendMessage({
@@ -196,6 +558,9 @@ async function resetConfig() {
     
     if (indexdbRadio) indexdbRadio.checked = true;
     if (chromeRadio) chromeRadio.checked = true;
+
+    const mirrorStorage = document.getElementById('mirrorStorage') as HTMLInputElement;
+    if (mirrorStorage) mirrorStorage.checked = false;
     
     // Clear inputs
     const inputs = ['supabaseUrl', 'supabaseKey', 'openaiKey', 'geminiKey'];
@@ -204,10 +569,42 @@ async function resetConfig() {
       if (input) input.value = '';
     });
 
+    const searchMode = document.getElementById('searchMode') as HTMLSelectElement;
+    if (searchMode) searchMode.value = 'hybrid';
+    const similarityFloor = document.getElementById('similarityFloor') as HTMLInputElement;
+    if (similarityFloor) similarityFloor.value = '0.35';
+    const retrievalTopK = document.getElementById('retrievalTopK') as HTMLInputElement;
+    if (retrievalTopK) retrievalTopK.value = '5';
+    const retrievalContextBudget = document.getElementById('retrievalContextBudget') as HTMLInputElement;
+    if (retrievalContextBudget) retrievalContextBudget.value = '3000';
+    const retrievalQueryFilters = document.getElementById('retrievalQueryFilters') as HTMLInputElement;
+    if (retrievalQueryFilters) retrievalQueryFilters.checked = true;
+    const retrievalRerank = document.getElementById('retrievalRerank') as HTMLInputElement;
+    if (retrievalRerank) retrievalRerank.checked = false;
+    const youtubeClipWindow = document.getElementById('youtubeClipWindow') as HTMLInputElement;
+    if (youtubeClipWindow) youtubeClipWindow.value = '60';
+    const noteSummaries = document.getElementById('noteSummaries') as HTMLInputElement;
+    if (noteSummaries) noteSummaries.checked = true;
+    const quickAnnotate = document.getElementById('quickAnnotate') as HTMLInputElement;
+    if (quickAnnotate) quickAnnotate.checked = true;
+    const pageHighlights = document.getElementById('pageHighlights') as HTMLInputElement;
+    if (pageHighlights) pageHighlights.checked = true;
+    const duplicateCheck = document.getElementById('duplicateCheck') as HTMLInputElement;
+    if (duplicateCheck) duplicateCheck.checked = true;
+    const duplicateThreshold = document.getElementById('duplicateThreshold') as HTMLInputElement;
+    if (duplicateThreshold) duplicateThreshold.value = '0.95';
+    const reviewQueue = document.getElementById('reviewQueue') as HTMLInputElement;
+    if (reviewQueue) reviewQueue.checked = true;
+    const reviewDailyLimit = document.getElementById('reviewDailyLimit') as HTMLInputElement;
+    if (reviewDailyLimit) reviewDailyLimit.value = '10';
+    const digestFrequency = document.getElementById('digestFrequency') as HTMLSelectElement;
+    if (digestFrequency) digestFrequency.value = 'weekly';
+
     // Hide config panels
     toggleConfigPanel('supabaseConfig', false);
     toggleConfigPanel('openaiConfig', false);
     toggleConfigPanel('geminiConfig', false);
+    updateContextBudgetClamp();
 
     showStatus('Settings reset to defaults', 'success');
   } catch (error) {
@@ -234,6 +631,731 @@ async function deleteAllNotes() {
   }
 }
 
+async function exportVault() {
+  const exportBtn = document.getElementById('exportVaultBtn') as HTMLButtonElement | null;
+  if (exportBtn) exportBtn.disabled = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'exportVault' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    downloadFile(base64ToBytes(response.zip), response.fileName, 'application/zip');
+
+    showStatus(`Exported ${response.count} notes`, 'success');
+  } catch (error) {
+    console.error('Failed to export vault:', error);
+    showStatus('Failed to export notes', 'error');
+  } finally {
+    if (exportBtn) exportBtn.disabled = false;
+  }
+}
+
+async function importVault(e: Event) {
+  const input = e.target as HTMLInputElement;
+  const file = input.files?.[0];
+  input.value = ''; // Allow picking the same file again
+  if (!file) return;
+
+  const importBtn = document.getElementById('importVaultBtn') as HTMLButtonElement | null;
+  const result = document.getElementById('importVaultResult');
+  const regenerateEmbeddings = (document.getElementById('regenerateEmbeddings') as HTMLInputElement)?.checked ?? true;
+
+  if (importBtn) importBtn.disabled = true;
+  if (result) result.textContent = `Importing ${file.name}...`;
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const response = await chrome.runtime.sendMessage({
+      action: 'importVault',
+      data: { zip: bytesToBase64(bytes), regenerateEmbeddings }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const failed: { fileName: string; error: string }[] = response.failed;
+    if (result) {
+      result.textContent = failed.length > 0
+        ? `Imported ${response.imported} notes. Skipped ${failed.length}: ${failed.map(f => `${f.fileName} (${f.error})`).join(', ')}`
+        : `Imported ${response.imported} notes.`;
+    }
+    showStatus(`Imported ${response.imported} notes`, 'success');
+    loadEmbeddingStatus();
+  } catch (error) {
+    console.error('Failed to import vault:', error);
+    if (result) result.textContent = '';
+    showStatus('Failed to import vault', 'error');
+  } finally {
+    if (importBtn) importBtn.disabled = false;
+  }
+}
+
+function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function createBackup() {
+  const backupBtn = document.getElementById('createBackupBtn') as HTMLButtonElement | null;
+  if (backupBtn) backupBtn.disabled = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'createBackup' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    downloadFile(response.backup, response.fileName, 'application/json');
+    showStatus(`Backed up ${response.count} notes`, 'success');
+  } catch (error) {
+    console.error('Failed to create backup:', error);
+    showStatus('Failed to create backup', 'error');
+  } finally {
+    if (backupBtn) backupBtn.disabled = false;
+  }
+}
+
+async function restoreBackup(e: Event) {
+  const input = e.target as HTMLInputElement;
+  const file = input.files?.[0];
+  input.value = ''; // Allow picking the same file again
+  if (!file) return;
+
+  const restoreBtn = document.getElementById('restoreBackupBtn') as HTMLButtonElement | null;
+  const result = document.getElementById('restoreBackupResult');
+  const conflictMode = (document.getElementById('restoreConflictMode') as HTMLSelectElement)?.value || 'skip';
+
+  if (restoreBtn) restoreBtn.disabled = true;
+  if (result) result.textContent = `Restoring ${file.name}...`;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'restoreBackup',
+      data: { backup: await file.text(), conflictMode }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const parts = [`Restored ${response.restored} notes`];
+    if (response.duplicated > 0) parts.push(`${response.duplicated} kept as copies`);
+    if (response.skipped > 0) parts.push(`${response.skipped} already existed and were skipped`);
+    if (response.failed.length > 0) {
+      parts.push(`${response.failed.length} failed: ${response.failed.map((f: { title: string; error: string }) => `${f.title || 'Untitled'} (${f.error})`).join(', ')}`);
+    }
+
+    if (result) result.textContent = parts.join('. ') + '.';
+    showStatus('Backup restored', 'success');
+    loadEmbeddingStatus();
+    loadVectorIndexStats();
+  } catch (error: any) {
+    console.error('Failed to restore backup:', error);
+    if (result) result.textContent = error?.message || '';
+    showStatus('Failed to restore backup', 'error');
+  } finally {
+    if (restoreBtn) restoreBtn.disabled = false;
+  }
+}
+
+interface ReembedJob {
+  status: 'running' | 'paused' | 'completed' | 'failed';
+  model: string;
+  total: number;
+  processed: number;
+  failedNoteIds: string[];
+  error?: string;
+}
+
+interface EmbeddingStatus {
+  model: string;
+  total: number;
+  current: number; // Notes embedded by the current model
+  job: ReembedJob | null;
+}
+
+let embeddingStatus: EmbeddingStatus | null = null;
+
+async function loadEmbeddingStatus() {
+  const response = await chrome.runtime.sendMessage({ action: 'getEmbeddingStatus' });
+  if (response?.error) {
+    const statusEl = document.getElementById('embeddingStatus');
+    if (statusEl) statusEl.textContent = 'Could not load embedding status.';
+    return;
+  }
+
+  embeddingStatus = response;
+  renderEmbeddingStatus();
+}
+
+function onReembedJobChanged(job: ReembedJob | null) {
+  if (!embeddingStatus) return;
+
+  const finished = embeddingStatus.job?.status === 'running' && job?.status !== 'running';
+  embeddingStatus.job = job;
+  renderEmbeddingStatus();
+
+  // Refresh the per-model note counts once the job stops
+  if (finished) {
+    loadEmbeddingStatus();
+    loadVectorIndexStats();
+  }
+}
+
+function renderEmbeddingStatus() {
+  if (!embeddingStatus) return;
+
+  const { model, total, current, job } = embeddingStatus;
+  const statusEl = document.getElementById('embeddingStatus');
+  const reembedBtn = document.getElementById('reembedBtn') as HTMLButtonElement | null;
+  const progress = document.getElementById('reembedProgress');
+  const progressFill = document.getElementById('reembedProgressFill');
+  const progressText = document.getElementById('reembedProgressText');
+  const outdated = total - current;
+
+  if (statusEl) {
+    statusEl.textContent = outdated > 0
+      ? `${outdated} of ${total} notes were embedded by another model and are left out of semantic search. Current model: ${model}.`
+      : `All ${total} notes are embedded by the current model (${model}).`;
+  }
+
+  const activeJob = job && job.model === model && job.status !== 'completed' ? job : null;
+  if (reembedBtn) {
+    reembedBtn.textContent = activeJob?.status === 'running' ? 'Pause' : activeJob ? 'Resume' : 'Re-embed';
+    reembedBtn.disabled = !activeJob && outdated === 0;
+  }
+
+  if (progress && progressFill && progressText) {
+    progress.style.display = activeJob ? 'block' : 'none';
+    progressFill.style.width = activeJob && activeJob.total > 0 ? `${activeJob.processed / activeJob.total * 100}%` : '0';
+
+    if (activeJob) {
+      const state = activeJob.status === 'running' ? 'Re-embedding' : activeJob.status === 'paused' ? 'Paused' : `Failed: ${activeJob.error}`;
+      progressText.textContent = `${state} - ${activeJob.processed} of ${activeJob.total} notes`;
+    } else if (job?.status === 'completed' && job.failedNoteIds.length > 0) {
+      progressText.textContent = `${job.failedNoteIds.length} notes could not be re-embedded. Run it again to retry them.`;
+    } else {
+      progressText.textContent = '';
+    }
+  }
+}
+
+async function toggleReembed() {
+  const running = embeddingStatus?.job?.status === 'running';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: running ? 'pauseReembed' : 'startReembed' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+  } catch (error) {
+    console.error('Failed to update re-embedding job:', error);
+    showStatus('Failed to update re-embedding job', 'error');
+  }
+}
+
+interface VectorIndexStats {
+  trained: boolean;
+  clusters: number;
+  probes: number;
+  indexedVectors: number;
+  totalVectors: number;
+}
+
+function renderVectorIndexStats(stats: VectorIndexStats) {
+  const statsEl = document.getElementById('vectorIndexStats');
+  if (!statsEl) return;
+
+  statsEl.textContent = stats.trained
+    ? `${stats.indexedVectors} of ${stats.totalVectors} passages indexed in ${stats.clusters} clusters; ${stats.probes} clusters are searched per query.`
+    : `Not built yet. ${stats.totalVectors} passages are searched exhaustively; the index is built automatically once there are enough of them.`;
+}
+
+async function loadVectorIndexStats() {
+  const statsEl = document.getElementById('vectorIndexStats');
+  const rebuildBtn = document.getElementById('rebuildIndexBtn') as HTMLButtonElement | null;
+
+  const response = await chrome.runtime.sendMessage({ action: 'getVectorIndexStats' });
+  if (response?.error) {
+    // Supabase storage searches with pgvector instead
+    if (statsEl) statsEl.textContent = 'Only used with IndexedDB storage.';
+    if (rebuildBtn) rebuildBtn.disabled = true;
+    return;
+  }
+
+  renderVectorIndexStats(response.stats);
+}
+
+async function rebuildVectorIndex() {
+  const rebuildBtn = document.getElementById('rebuildIndexBtn') as HTMLButtonElement | null;
+  if (rebuildBtn) rebuildBtn.disabled = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'rebuildVectorIndex' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    renderVectorIndexStats(response.stats);
+    showStatus('Vector index rebuilt', 'success');
+  } catch (error) {
+    console.error('Failed to rebuild vector index:', error);
+    showStatus('Failed to rebuild vector index', 'error');
+  } finally {
+    if (rebuildBtn) rebuildBtn.disabled = false;
+  }
+}
+
+interface DuplicateClusterView {
+  kind: 'exact' | 'similar';
+  similarity: number;
+  notes: { id: string; content: string; source: { url: string; title: string }; annotation?: object; createdAt: number }[];
+}
+
+async function findDuplicates() {
+  const findBtn = document.getElementById('findDuplicatesBtn') as HTMLButtonElement | null;
+  const summary = document.getElementById('duplicateSummary');
+  if (findBtn) findBtn.disabled = true;
+  if (summary) summary.textContent = 'Comparing notes...';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'findDuplicates' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const clusters: DuplicateClusterView[] = response.clusters;
+    const count = clusters.reduce((sum, cluster) => sum + cluster.notes.length - 1, 0);
+    if (summary) {
+      summary.textContent = clusters.length > 0
+        ? `${clusters.length} groups of duplicates; ${count} notes could go. Pick the note to keep in each group.`
+        : 'No duplicates found.';
+    }
+    renderDuplicateClusters(clusters);
+  } catch (error) {
+    console.error('Failed to find duplicates:', error);
+    if (summary) summary.textContent = 'Failed to find duplicates.';
+    showStatus('Failed to find duplicates', 'error');
+  } finally {
+    if (findBtn) findBtn.disabled = false;
+  }
+}
+
+// Built with textContent: note text is never markup
+function renderDuplicateClusters(clusters: DuplicateClusterView[]) {
+  const container = document.getElementById('duplicateClusters');
+  if (!container) return;
+
+  container.replaceChildren(...clusters.map((cluster, index) => {
+    const element = document.createElement('div');
+    element.className = 'duplicate-cluster';
+    element.dataset.noteIds = cluster.notes.map(note => note.id).join(',');
+
+    const header = document.createElement('div');
+    header.className = 'duplicate-cluster-header';
+    header.textContent = `${cluster.kind === 'exact' ? 'Same text' : `${Math.round(cluster.similarity * 100)}%+ similar`} · ${cluster.notes.length} notes`;
+    element.appendChild(header);
+
+    // Keep an annotated note if there is one, otherwise the first one saved
+    const sorted = [...cluster.notes].sort((a, b) => Number(!!b.annotation) - Number(!!a.annotation) || a.createdAt - b.createdAt);
+    sorted.forEach((note, i) => {
+      const row = document.createElement('label');
+      row.className = 'duplicate-note';
+
+      const radio = document.createElement('input');
+      radio.type = 'radio';
+      radio.name = `keep-${index}`;
+      radio.value = note.id;
+      radio.checked = i === 0;
+
+      const text = document.createElement('div');
+      const title = document.createElement('div');
+      title.className = 'duplicate-note-title';
+      title.textContent = note.source.title || note.source.url;
+      const meta = document.createElement('div');
+      meta.className = 'duplicate-note-meta';
+      meta.textContent = `Saved ${new Date(note.createdAt).toLocaleDateString()} · ${note.content.substring(0, 120)}`;
+      text.append(title, meta);
+
+      row.append(radio, text);
+      element.appendChild(row);
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'duplicate-cluster-actions';
+    [
+      { action: 'merge', label: 'Merge into kept note' },
+      { action: 'keep', label: 'Keep only this note' },
+      { action: 'skip', label: 'Skip' }
+    ].forEach(({ action, label }) => {
+      const button = document.createElement('button');
+      button.className = 'btn-secondary';
+      button.dataset.duplicateAction = action;
+      button.textContent = label;
+      actions.appendChild(button);
+    });
+    element.appendChild(actions);
+
+    return element;
+  }));
+}
+
+async function onDuplicateClusterClick(e: Event) {
+  const button = (e.target as HTMLElement).closest('[data-duplicate-action]') as HTMLButtonElement | null;
+  const cluster = button?.closest('.duplicate-cluster') as HTMLElement | null;
+  if (!button || !cluster) return;
+
+  const action = button.dataset.duplicateAction;
+  if (action === 'skip') {
+    cluster.remove();
+    return;
+  }
+
+  const noteIds = (cluster.dataset.noteIds || '').split(',');
+  const keepId = (cluster.querySelector('input[type="radio"]:checked') as HTMLInputElement | null)?.value;
+  if (!keepId) return;
+
+  const merge = action === 'merge';
+  const others = noteIds.length - 1;
+  if (!merge && !confirm(`Delete the other ${others} note${others === 1 ? '' : 's'} in this group?`)) {
+    return;
+  }
+
+  cluster.querySelectorAll('button').forEach(btn => btn.disabled = true);
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'resolveDuplicates',
+      data: { keepId, noteIds, merge }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    cluster.remove();
+    showStatus(merge ? `Merged ${response.deleted} notes` : `Deleted ${response.deleted} notes`, 'success');
+  } catch (error) {
+    console.error('Failed to resolve duplicates:', error);
+    showStatus('Failed to clean up duplicates', 'error');
+    cluster.querySelectorAll('button').forEach(btn => btn.disabled = false);
+  }
+}
+
+interface TagManagerEntry {
+  tag: string;
+  count: number;
+  parent?: string;
+  aliases: string[];
+}
+
+interface TagSuggestionView {
+  kind: 'merge' | 'parent';
+  tag: string;
+  into: string;
+  score: number;
+  reason: string;
+}
+
+const TAG_ACTIONS = [
+  { action: 'rename', label: 'Rename' },
+  { action: 'merge', label: 'Merge' },
+  { action: 'alias', label: 'Add alias' },
+  { action: 'parent', label: 'Parent' },
+  { action: 'delete', label: 'Delete' }
+];
+
+async function loadTagManager() {
+  const summary = document.getElementById('tagSummary');
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getTagTaxonomy' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const entries: TagManagerEntry[] = response.tags;
+    const aliases = entries.reduce((sum, entry) => sum + entry.aliases.length, 0);
+    if (summary) {
+      summary.textContent = entries.length > 0
+        ? `${entries.length} tags${aliases > 0 ? ` and ${aliases} aliases` : ''}, most used first. Tags with a parent are listed under it.`
+        : 'No tags yet.';
+    }
+    renderTagTree(entries);
+  } catch (error) {
+    console.error('Failed to load tags:', error);
+    if (summary) summary.textContent = 'Failed to load tags.';
+  }
+}
+
+// Built with textContent: tag names come from notes
+function renderTagTree(entries: TagManagerEntry[]) {
+  const container = document.getElementById('tagTree');
+  if (!container) return;
+
+  const children = new Map<string, TagManagerEntry[]>();
+  for (const entry of entries) {
+    const parent = entry.parent || '';
+    children.set(parent, [...(children.get(parent) || []), entry]);
+  }
+
+  const rows: HTMLElement[] = [];
+  const addRows = (parent: string, depth: number) => {
+    for (const entry of children.get(parent) || []) {
+      rows.push(tagRow(entry, depth));
+      addRows(entry.tag, depth + 1);
+    }
+  };
+  addRows('', 0);
+  container.replaceChildren(...rows);
+}
+
+function tagRow(entry: TagManagerEntry, depth: number): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'tag-row';
+  row.dataset.tag = entry.tag;
+  row.dataset.parent = entry.parent || '';
+  row.style.paddingLeft = `${depth * 1.25}rem`;
+
+  const name = document.createElement('span');
+  name.className = 'tag-name';
+  name.textContent = `#${entry.tag}`;
+  const count = document.createElement('span');
+  count.className = 'tag-count';
+  count.textContent = `${entry.count}`;
+  row.append(name, count);
+
+  entry.aliases.forEach(alias => {
+    const chip = document.createElement('button');
+    chip.className = 'tag-alias';
+    chip.dataset.tagAction = 'unalias';
+    chip.dataset.alias = alias;
+    chip.title = `Stop treating #${alias} as #${entry.tag}`;
+    chip.textContent = `${alias} ×`;
+    row.appendChild(chip);
+  });
+
+  const actions = document.createElement('div');
+  actions.className = 'tag-actions';
+  TAG_ACTIONS.forEach(({ action, label }) => {
+    const button = document.createElement('button');
+    button.className = 'tag-action';
+    button.dataset.tagAction = action;
+    button.textContent = label;
+    actions.appendChild(button);
+  });
+  row.appendChild(actions);
+
+  return row;
+}
+
+async function onTagTreeClick(e: Event) {
+  const button = (e.target as HTMLElement).closest('[data-tag-action]') as HTMLButtonElement | null;
+  const row = button?.closest('.tag-row') as HTMLElement | null;
+  const tag = row?.dataset.tag;
+  if (!button || !row || !tag) return;
+
+  let message: { action: string; data: any } | null = null;
+  switch (button.dataset.tagAction) {
+    case 'rename': {
+      const name = prompt(`Rename #${tag} to`, tag);
+      if (name && name !== tag) message = { action: 'renameTag', data: { tag, name } };
+      break;
+    }
+    case 'merge': {
+      const into = prompt(`Merge #${tag} into which tag? Its notes move over and #${tag} stays as an alias.`);
+      if (into) message = { action: 'mergeTags', data: { tags: [tag], into } };
+      break;
+    }
+    case 'alias': {
+      const alias = prompt(`Another name for #${tag}. Notes and new saves given it get #${tag} instead.`);
+      if (alias) message = { action: 'mergeTags', data: { tags: [alias], into: tag } };
+      break;
+    }
+    case 'parent': {
+      const parent = prompt(`File #${tag} under which tag? Leave empty to make it top-level.`, row.dataset.parent || '');
+      if (parent !== null) message = { action: 'setTagParent', data: { tag, parent: parent.trim() || null } };
+      break;
+    }
+    case 'delete':
+      if (confirm(`Remove #${tag} from every note?`)) message = { action: 'deleteTag', data: { tag } };
+      break;
+    case 'unalias':
+      message = { action: 'removeTagSynonym', data: { alias: button.dataset.alias } };
+      break;
+  }
+  if (!message) return;
+
+  button.disabled = true;
+  if (!await applyTagChange(message)) {
+    button.disabled = false;
+  }
+}
+
+// Sends one tag change and reloads the list; false when it failed
+async function applyTagChange(message: { action: string; data: any }): Promise<boolean> {
+  try {
+    const response = await chrome.runtime.sendMessage(message);
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    showStatus(response.updated ? `Updated ${response.updated} notes` : 'Tags updated', 'success');
+    await loadTagManager();
+    return true;
+  } catch (error: any) {
+    console.error('Failed to update tags:', error);
+    showStatus(error?.message || 'Failed to update tags', 'error');
+    return false;
+  }
+}
+
+async function findTagSuggestions() {
+  const suggestBtn = document.getElementById('suggestTagsBtn') as HTMLButtonElement | null;
+  const summary = document.getElementById('tagSuggestionSummary');
+  if (suggestBtn) suggestBtn.disabled = true;
+  if (summary) summary.textContent = 'Comparing tags...';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'suggestTagChanges' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const suggestions: TagSuggestionView[] = response.suggestions;
+    if (summary) {
+      summary.textContent = suggestions.length > 0
+        ? `${suggestions.length} suggestions. Apply the ones that fit and skip the rest.`
+        : 'No suggestions: no two tags look like the same thing.';
+    }
+    renderTagSuggestions(suggestions);
+  } catch (error) {
+    console.error('Failed to suggest tag changes:', error);
+    if (summary) summary.textContent = 'Failed to suggest tag changes.';
+    showStatus('Failed to suggest tag changes', 'error');
+  } finally {
+    if (suggestBtn) suggestBtn.disabled = false;
+  }
+}
+
+function renderTagSuggestions(suggestions: TagSuggestionView[]) {
+  const container = document.getElementById('tagSuggestionList');
+  if (!container) return;
+
+  container.replaceChildren(...suggestions.map(suggestion => {
+    const element = document.createElement('div');
+    element.className = 'tag-suggestion';
+    element.dataset.kind = suggestion.kind;
+    element.dataset.tag = suggestion.tag;
+    element.dataset.into = suggestion.into;
+
+    const text = document.createElement('div');
+    const title = document.createElement('div');
+    title.className = 'tag-suggestion-title';
+    title.textContent = suggestion.kind === 'merge'
+      ? `Merge #${suggestion.tag} into #${suggestion.into}`
+      : `File #${suggestion.tag} under #${suggestion.into}`;
+    const reason = document.createElement('div');
+    reason.className = 'tag-suggestion-reason';
+    reason.textContent = suggestion.reason;
+    text.append(title, reason);
+
+    const actions = document.createElement('div');
+    actions.className = 'action-buttons';
+    [
+      { action: 'apply', label: 'Apply' },
+      { action: 'skip', label: 'Skip' }
+    ].forEach(({ action, label }) => {
+      const button = document.createElement('button');
+      button.className = 'btn-secondary';
+      button.dataset.suggestionAction = action;
+      button.textContent = label;
+      actions.appendChild(button);
+    });
+
+    element.append(text, actions);
+    return element;
+  }));
+}
+
+async function onTagSuggestionClick(e: Event) {
+  const button = (e.target as HTMLElement).closest('[data-suggestion-action]') as HTMLButtonElement | null;
+  const item = button?.closest('.tag-suggestion') as HTMLElement | null;
+  if (!button || !item) return;
+
+  if (button.dataset.suggestionAction === 'skip') {
+    item.remove();
+    return;
+  }
+
+  const { kind, tag, into } = item.dataset;
+  item.querySelectorAll('button').forEach(btn => btn.disabled = true);
+  const applied = await applyTagChange(kind === 'merge'
+    ? { action: 'mergeTags', data: { tags: [tag], into } }
+    : { action: 'setTagParent', data: { tag, parent: into } });
+  if (applied) {
+    item.remove();
+  } else {
+    item.querySelectorAll('button').forEach(btn => btn.disabled = false);
+  }
+}
+
+interface SyncStatus {
+  syncing: boolean;
+  pending: number;
+  lastSyncAt: number | null;
+  lastError: string | null;
+  conflicts: number;
+}
+
+function renderSyncStatus(status: SyncStatus) {
+  const statusEl = document.getElementById('syncStatus');
+  if (!statusEl) return;
+
+  const parts = [
+    status.syncing ? 'Syncing...' : status.lastSyncAt ? `Last synced ${new Date(status.lastSyncAt).toLocaleString()}.` : 'Not synced yet.',
+    status.pending > 0 ? `${status.pending} local changes waiting to upload.` : 'No local changes waiting.'
+  ];
+  if (status.conflicts > 0) {
+    parts.push(`${status.conflicts} conflicting edits were kept as "(conflict copy)" notes.`);
+  }
+  if (status.lastError) {
+    parts.push(`Last sync failed: ${status.lastError}`);
+  }
+  statusEl.textContent = parts.join(' ');
+}
+
+async function loadSyncStatus() {
+  const syncPanel = document.getElementById('syncPanel');
+  const response = await chrome.runtime.sendMessage({ action: 'getSyncStatus' });
+
+  // Only shown while Supabase is the saved storage backend
+  if (syncPanel) syncPanel.style.display = response?.error ? 'none' : 'flex';
+  if (!response?.error) {
+    renderSyncStatus(response.status);
+  }
+}
+
+async function syncNow() {
+  const syncNowBtn = document.getElementById('syncNowBtn') as HTMLButtonElement | null;
+  if (syncNowBtn) syncNowBtn.disabled = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'syncNow' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    renderSyncStatus(response.status);
+    showStatus('Notes synced', 'success');
+  } catch (error) {
+    console.error('Failed to sync notes:', error);
+    showStatus('Sync failed, changes stay queued until the next attempt', 'error');
+    loadSyncStatus();
+  } finally {
+    if (syncNowBtn) syncNowBtn.disabled = false;
+  }
+}
+
 function showStatus(message: string, type: 'success' | 'error') {
   const status = document.getElementById('status');
   if (!status) return;
@@ -42,6 +42,9 @@ function setupEventListeners() {
     }
   });
 
+  // Save the whole current page
+  document.getElementById('savePage')?.addEventListener('click', savePage);
+
   // Open options
   document.getElementById('openOptions')?.addEventListener('click', () => {
     chrome.runtime.openOptionsPage();
@@ -142,12 +145,15 @@ function createNoteCard(note: any): string {
     </div>
   ` : '';
   
-  const content = isYouTube 
-    ? note.content.split('\n\n')[0] // Just show title for YouTube
-    : escapeHtml(note.content);
+  // The summary says what a note is about better than its first lines, most of all for long transcripts
+  const content = note.summary
+    ? escapeHtml(note.summary.tldr)
+    : isYouTube
+      ? note.content.split('\n\n')[0] // Just show title for YouTube
+      : escapeHtml(note.content);
   
   return `
-    <a href="${note.source.url}" target="_blank" class="note-card ${isYouTube ? 'video-card' : ''}">
+    <a href="${note.matchUrl || note.source.url}" target="_blank" class="note-card ${isYouTube ? 'video-card' : ''}">
       ${videoPreview}
       <button class="delete-btn" data-id="${note.id}" onclick="event.preventDefault(); event.stopPropagation();">
         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -164,6 +170,36 @@ function createNoteCard(note: any): string {
   `;
 }
 
+async function savePage() {
+  const saveBtn = document.getElementById('savePage') as HTMLButtonElement;
+  const notesContainer = document.getElementById('recentNotes');
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id || !notesContainer) return;
+
+  saveBtn.disabled = true;
+  switchTab('recent');
+  notesContainer.innerHTML = '<div class="loading">Saving page...</div>';
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'savePage',
+      data: { tabId: tab.id }
+    });
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    loadRecentNotes();
+    loadTags();
+  } catch (error: any) {
+    console.error('Error saving page:', error);
+    notesContainer.innerHTML = `<div class="empty">${escapeHtml(error.message || 'Failed to save page')}</div>`;
+  } finally {
+    saveBtn.disabled = false;
+  }
+}
+
 async function deleteNote(id: string) {
   try {
     await chrome.runtime.sendMessage({
@@ -1,19 +1,101 @@
 // Search page logic
+import { CITATION_PATTERN } from '../../utils/chat-utils';
 
 let selectedNoteId: string | null = null;
+// Note open in the detail view, and its tags while being edited
+let selectedNote: any = null;
+let editTags: string[] = [];
 let chatHistory: Array<{ role: 'user' | 'ai'; content: string; sources?: any[] }> = [];
-let currentMode: 'search' | 'chat' | 'recent' = 'search';
+let currentMode: 'search' | 'chat' | 'recent' | 'graph' | 'review' = 'search';
+// Port of the answer currently streaming in, if any
+let chatPort: chrome.runtime.Port | null = null;
+let messageCount = 0;
+// Saved conversation the chat continues; null until the first answer of a new one is saved
+let currentThreadId: string | null = null;
+// Sources behind each AI message, by message element id, for resolving citation clicks
+const messageSources = new Map<string, any[]>();
+// Notes ticked in the result lists, to ask the AI about together
+const selectedNoteIds = new Set<string>();
+// Notes the chat answers from instead of searching everything; empty for a normal conversation
+let chatScopeNoteIds: string[] = [];
+// Set by the service worker when a highlight is clicked on a page; older requests are ignored
+const OPEN_NOTE_KEY = 'openNoteRequest';
+const OPEN_NOTE_MAX_AGE_MS = 30000;
+// Collections for the sidebar, and the one search, recent notes and chat are kept inside
+let collections: any[] = [];
+let activeCollectionId: string | null = null;
+// Drag payloads for moving collections and dropping notes into them
+const NOTE_DRAG_TYPE = 'application/x-squirrel-note';
+const COLLECTION_DRAG_TYPE = 'application/x-squirrel-collection';
+
+// Related notes of the open note, in the order shown
+let relatedNotes: any[] = [];
+
+// Graph view: the service worker sends nodes and links, the panel lays them out with a small force simulation
+interface GraphPoint {
+  id: string;
+  title: string;
+  tags: string[];
+  cluster: number;
+  degree: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  pinned: boolean;
+}
+
+let graphNodes: GraphPoint[] = [];
+let graphEdges: { source: GraphPoint; target: GraphPoint; weight: number; kind: string }[] = [];
+let graphView = { x: 0, y: 0, scale: 1 }; // Pan and zoom
+let graphDrag: { node: GraphPoint | null; x: number; y: number; moved: boolean } | null = null;
+let graphHover: GraphPoint | null = null;
+let graphAlpha = 0; // Simulation heat; the layout settles as it cools
+let graphFrame: number | null = null;
+
+const GRAPH_COLORS = ['#2563eb', '#16a34a', '#db2777', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626', '#4f46e5', '#059669'];
+const GRAPH_UNCLUSTERED_COLOR = '#9ca3af';
+
+// Review tab: notes in the queue, for opening one from its card, and the grades each card offers
+let reviewQueueNotes: any[] = [];
+const REVIEW_GRADE_LABELS: Record<string, string> = { forgot: 'Forgot', remember: 'Remember', archive: 'Archive' };
 
 document.addEventListener('DOMContentLoaded', () => {
   setupEventListeners();
   loadRecentNotes();
+  loadChatThreads();
+  loadCollections();
+  watchOpenNoteRequests();
 });
 
+// The panel may be opening for the request or already open, so check now and on every change
+function watchOpenNoteRequests() {
+  chrome.storage.local.get(OPEN_NOTE_KEY).then(result => showRequestedNote(result[OPEN_NOTE_KEY]));
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[OPEN_NOTE_KEY]) {
+      showRequestedNote(changes[OPEN_NOTE_KEY].newValue);
+    }
+  });
+}
+
+async function showRequestedNote(request: { id: string; requestedAt: number } | undefined) {
+  if (!request) return;
+  await chrome.storage.local.remove(OPEN_NOTE_KEY);
+  if (Date.now() - request.requestedAt > OPEN_NOTE_MAX_AGE_MS) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getNote', data: { id: request.id } });
+    if (response?.note) showNoteDetail(response.note);
+  } catch (error) {
+    console.error('Failed to open requested note:', error);
+  }
+}
+
 function setupEventListeners() {
   // Mode switching
   document.querySelectorAll('.mode-tab').forEach(tab => {
     tab.addEventListener('click', () => {
-      const mode = tab.getAttribute('data-mode') as 'search' | 'chat' | 'recent';
+      const mode = tab.getAttribute('data-mode') as 'search' | 'chat' | 'recent' | 'graph' | 'review';
       if (mode) switchMode(mode);
     });
   });
@@ -34,13 +116,25 @@ function setupEventListeners() {
   const chatSendBtn = document.getElementById('chatSendBtn') as HTMLButtonElement;
 
   if (chatInput && chatSendBtn) {
-    chatSendBtn.addEventListener('click', () => sendChatMessage(chatInput.value));
+    // The send button stops the answer while one is streaming
+    chatSendBtn.addEventListener('click', () => chatPort ? cancelChatMessage() : sendChatMessage(chatInput.value));
     chatInput.addEventListener('keypress', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         sendChatMessage(chatInput.value);
       }
     });
+    // Citation markers open the note they point to
+    const chatContainer = document.getElementById('chatContainer');
+    chatContainer?.addEventListener('click', (e) => {
+      const marker = (e.target as HTMLElement).closest('.citation') as HTMLElement | null;
+      const messageId = marker?.closest('.chat-message')?.id;
+      if (!marker || !messageId) return;
+
+      const source = messageSources.get(messageId)?.[Number(marker.dataset.source) - 1];
+      if (source) openSource(source);
+    });
+
     // Auto-resize textarea
     chatInput.addEventListener('input', () => {
       chatInput.style.height = 'auto';
@@ -48,6 +142,123 @@ function setupEventListeners() {
     });
   }
 
+  // Chat threads
+  const chatThreadSelect = document.getElementById('chatThreadSelect') as HTMLSelectElement;
+  if (chatThreadSelect) {
+    chatThreadSelect.addEventListener('change', () => openChatThread(chatThreadSelect.value || null));
+  }
+
+  const renameThreadBtn = document.getElementById('renameThreadBtn');
+  if (renameThreadBtn) {
+    renameThreadBtn.addEventListener('click', renameChatThread);
+  }
+
+  const deleteThreadBtn = document.getElementById('deleteThreadBtn');
+  if (deleteThreadBtn) {
+    deleteThreadBtn.addEventListener('click', deleteChatThread);
+  }
+
+  // Note selection; the capture listener runs before the card's own click opens the detail view
+  ['searchResults', 'recentNotes'].forEach(id => {
+    document.getElementById(id)?.addEventListener('click', (e) => {
+      const toggle = (e.target as HTMLElement).closest('.note-select') as HTMLElement | null;
+      if (!toggle?.dataset.id) return;
+      e.preventDefault();
+      e.stopPropagation();
+      toggleNoteSelection(toggle.dataset.id);
+    }, true);
+  });
+
+  const askSelectedBtn = document.getElementById('askSelectedBtn');
+  if (askSelectedBtn) {
+    askSelectedBtn.addEventListener('click', askAboutSelectedNotes);
+  }
+
+  const clearSelectionBtn = document.getElementById('clearSelectionBtn');
+  if (clearSelectionBtn) {
+    clearSelectionBtn.addEventListener('click', clearNoteSelection);
+  }
+
+  const clearChatScopeBtn = document.getElementById('clearChatScopeBtn');
+  if (clearChatScopeBtn) {
+    clearChatScopeBtn.addEventListener('click', () => setChatScope([]));
+  }
+
+  // Collections
+  const toggleCollectionsBtn = document.getElementById('toggleCollectionsBtn');
+  if (toggleCollectionsBtn) {
+    toggleCollectionsBtn.addEventListener('click', () => toggleCollectionSidebar());
+  }
+
+  const newCollectionBtn = document.getElementById('newCollectionBtn');
+  if (newCollectionBtn) {
+    newCollectionBtn.addEventListener('click', () => promptNewCollection(null));
+  }
+
+  const clearCollectionScopeBtn = document.getElementById('clearCollectionScopeBtn');
+  if (clearCollectionScopeBtn) {
+    clearCollectionScopeBtn.addEventListener('click', () => setActiveCollection(null));
+  }
+
+  const collectionTree = document.getElementById('collectionTree');
+  if (collectionTree) {
+    setupCollectionTree(collectionTree);
+  }
+
+  const addSelectedToCollection = document.getElementById('addSelectedToCollection') as HTMLSelectElement;
+  if (addSelectedToCollection) {
+    addSelectedToCollection.addEventListener('change', () => {
+      if (addSelectedToCollection.value) addNotesToCollection([...selectedNoteIds], addSelectedToCollection.value);
+      addSelectedToCollection.value = '';
+    });
+  }
+
+  const noteCollectionSelect = document.getElementById('noteCollectionSelect') as HTMLSelectElement;
+  if (noteCollectionSelect) {
+    noteCollectionSelect.addEventListener('change', () => {
+      if (noteCollectionSelect.value && selectedNote) {
+        setNoteCollections([...(selectedNote.collectionIds || []), noteCollectionSelect.value]);
+      }
+      noteCollectionSelect.value = '';
+    });
+  }
+
+  // Related notes open in place of the current one
+  const noteRelated = document.getElementById('noteRelated');
+  if (noteRelated) {
+    noteRelated.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest('.related-note') as HTMLElement | null;
+      const related = item && relatedNotes[Number(item.dataset.index)];
+      if (related) showNoteDetail(related.note);
+    });
+  }
+
+  const graphCanvas = document.getElementById('graphCanvas') as HTMLCanvasElement | null;
+  if (graphCanvas) {
+    setupNoteGraph(graphCanvas);
+  }
+
+  const noteCollections = document.getElementById('noteCollections');
+  if (noteCollections) {
+    noteCollections.addEventListener('click', (e) => {
+      const remove = (e.target as HTMLElement).closest('.tag-remove') as HTMLElement | null;
+      if (!remove || !selectedNote) return;
+      setNoteCollections((selectedNote.collectionIds || []).filter((id: string) => id !== remove.dataset.collectionId));
+    });
+  }
+
+  // Note cards can be dragged onto a collection in the sidebar
+  ['searchResults', 'recentNotes'].forEach(id => {
+    document.getElementById(id)?.addEventListener('dragstart', (e) => {
+      const card = (e.target as HTMLElement).closest('.note-card') as HTMLElement | null;
+      if (card?.dataset.id) e.dataTransfer?.setData(NOTE_DRAG_TYPE, card.dataset.id);
+    });
+  });
+
+  // Review queue
+  document.getElementById('reviewQueue')?.addEventListener('click', onReviewQueueClick);
+  document.getElementById('generateDigestBtn')?.addEventListener('click', generateReviewDigest);
+
   // Note detail modal
   const closeDetailBtn = document.getElementById('closeDetailBtn');
   if (closeDetailBtn) {
@@ -60,15 +271,61 @@ function setupEventListeners() {
       if (selectedNoteId && confirm('Delete this note?')) {
         await deleteNote(selectedNoteId);
         closeNoteDetail();
-        // Refresh current view
-        if (currentMode === 'search') {
-          const searchInput = document.getElementById('searchInput') as HTMLInputElement;
-          if (searchInput?.value) performSearch(searchInput.value);
-        } else if (currentMode === 'recent') {
-          loadRecentNotes();
-        }
+        refreshCurrentView();
+      }
+    });
+  }
+
+  // Note editing
+  const editNoteBtn = document.getElementById('editNoteBtn');
+  if (editNoteBtn) {
+    editNoteBtn.addEventListener('click', startNoteEdit);
+  }
+
+  const cancelEditBtn = document.getElementById('cancelEditBtn');
+  if (cancelEditBtn) {
+    cancelEditBtn.addEventListener('click', () => setNoteEditing(false));
+  }
+
+  const saveEditBtn = document.getElementById('saveEditBtn');
+  if (saveEditBtn) {
+    saveEditBtn.addEventListener('click', saveNoteEdit);
+  }
+
+  const summarizeNoteBtn = document.getElementById('summarizeNoteBtn');
+  if (summarizeNoteBtn) {
+    summarizeNoteBtn.addEventListener('click', summarizeSelectedNote);
+  }
+
+  const regenerateTagsBtn = document.getElementById('regenerateTagsBtn');
+  if (regenerateTagsBtn) {
+    regenerateTagsBtn.addEventListener('click', regenerateTags);
+  }
+
+  const editTagInput = document.getElementById('editTagInput') as HTMLInputElement;
+  if (editTagInput) {
+    editTagInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' || e.key === ',') {
+        e.preventDefault();
+        addEditTag(editTagInput.value);
+        editTagInput.value = '';
       }
     });
+    // Picking a suggestion from the list adds it straight away
+    editTagInput.addEventListener('change', () => {
+      addEditTag(editTagInput.value);
+      editTagInput.value = '';
+    });
+  }
+
+  const editTagsContainer = document.getElementById('editTags');
+  if (editTagsContainer) {
+    editTagsContainer.addEventListener('click', (e) => {
+      const remove = (e.target as HTMLElement).closest('.tag-remove') as HTMLElement | null;
+      if (!remove) return;
+      editTags = editTags.filter(tag => tag !== remove.dataset.tag);
+      renderEditTags();
+    });
   }
 
   // Ask question about note
@@ -90,7 +347,7 @@ function setupEventListeners() {
   }
 }
 
-function switchMode(mode: 'search' | 'chat' | 'recent') {
+function switchMode(mode: 'search' | 'chat' | 'recent' | 'graph' | 'review') {
   currentMode = mode;
 
   // Update tabs
@@ -111,10 +368,21 @@ function switchMode(mode: 'search' | 'chat' | 'recent') {
   const searchResults = document.getElementById('searchResults');
   const chatContainer = document.getElementById('chatContainer');
   const recentNotes = document.getElementById('recentNotes');
+  const noteGraph = document.getElementById('noteGraph');
+  const reviewView = document.getElementById('reviewView');
 
   if (searchResults) searchResults.style.display = mode === 'search' ? 'grid' : 'none';
   if (chatContainer) chatContainer.style.display = mode === 'chat' ? 'flex' : 'none';
   if (recentNotes) recentNotes.style.display = mode === 'recent' ? 'grid' : 'none';
+  if (noteGraph) noteGraph.style.display = mode === 'graph' ? 'block' : 'none';
+  if (reviewView) reviewView.style.display = mode === 'review' ? 'block' : 'none';
+
+  if (mode === 'graph') {
+    loadNoteGraph();
+  } else {
+    stopGraphLayout();
+  }
+  if (mode === 'review') loadReviewQueue();
 
   // Focus appropriate input
   if (mode === 'search') {
@@ -137,7 +405,7 @@ async function performSearch(query: string) {
   try {
     const response = await chrome.runtime.sendMessage({
       action: 'searchNotes',
-      data: { query }
+      data: { query, collectionId: activeCollectionId ?? undefined }
     });
 
     displaySearchResults(response.notes);
@@ -175,11 +443,13 @@ async function loadRecentNotes() {
   try {
     const response = await chrome.runtime.sendMessage({
       action: 'getRecentNotes',
-      data: { limit: 12 }
+      data: { limit: 12, collectionId: activeCollectionId ?? undefined }
     });
 
     if (response.notes.length === 0) {
-      recentContainer.innerHTML = '<div class="empty">No notes yet. Start saving content from any webpage!</div>';
+      recentContainer.innerHTML = activeCollectionId
+        ? '<div class="empty">No notes in this collection yet. Drag notes onto it, or add them from a note\'s details.</div>'
+        : '<div class="empty">No notes yet. Start saving content from any webpage!</div>';
       return;
     }
 
@@ -204,6 +474,7 @@ function createNoteCard(note: any): string {
     .join('');
 
   const isYouTube = note.source.type === 'youtube';
+  const selected = selectedNoteIds.has(note.id);
   
   // For YouTube videos, show thumbnail and play icon
   const videoPreview = isYouTube ? `
@@ -218,22 +489,54 @@ function createNoteCard(note: any): string {
     </div>
   ` : '';
   
-  const content = isYouTube 
-    ? note.content.split('\n\n')[0] // Just show title for YouTube
-    : escapeHtml(truncate(note.content, 150));
-
+  // The summary says what a note is about better than its first lines, most of all for long transcripts
+  const content = note.summary
+    ? escapeHtml(note.summary.tldr)
+    : isYouTube
+      ? note.content.split('\n\n')[0] // Just show title for YouTube
+      : escapeHtml(truncate(note.content, 150));
+
+  // The selection toggle sits beside the link rather than inside it, since a link can't hold a button
   return `
-    <a href="${note.source.url}" target="_blank" class="note-card ${isYouTube ? 'video-card' : ''}" data-id="${note.id}" onclick="event.preventDefault(); showNoteDetail('${note.id}');">
+    <div class="note-card-item">
+    <button class="note-select${selected ? ' selected' : ''}" data-id="${note.id}" aria-pressed="${selected}" title="Select to ask AI about several notes">✓</button>
+    <a href="${note.matchUrl || note.source.url}" target="_blank" class="note-card ${isYouTube ? 'video-card' : ''}${selected ? ' selected' : ''}" data-id="${note.id}" onclick="event.preventDefault(); showNoteDetail('${note.id}');">
       ${videoPreview}
+      ${createRelevanceBadge(note)}
       <div class="note-content">${content}</div>
       ${tags ? `<div class="note-tags">${tags}</div>` : ''}
-      <div class="note-meta">${date} • ${escapeHtml(truncate(note.source.title, 40))}</div>
+      <div class="note-meta">${date} • ${escapeHtml(truncate(note.source.title, 40))}${note.annotation?.rating ? ` • <span class="rating-stars">${'★'.repeat(note.annotation.rating)}</span>` : ''}</div>
     </a>
+    </div>
+  `;
+}
+
+// Relevance score and match type from hybrid search (absent for plain keyword search)
+function createRelevanceBadge(note: any): string {
+  if (typeof note.score !== 'number') return '';
+
+  const labels: Record<string, string> = {
+    both: 'Exact + semantic',
+    keyword: 'Exact match',
+    semantic: 'Semantic match'
+  };
+  const percent = Math.round(note.score * 100);
+  const details = [
+    note.keywordRank !== null ? `Keyword rank: #${note.keywordRank}` : '',
+    note.similarity !== null ? `Similarity: ${note.similarity.toFixed(2)}` : ''
+  ].filter(Boolean).join(' • ');
+
+  return `
+    <div class="note-relevance" title="${escapeHtml(details)}">
+      <span class="match-badge ${note.matchType}">${labels[note.matchType] || note.matchType}</span>
+      <div class="relevance-bar"><div class="relevance-fill" style="width: ${percent}%"></div></div>
+      <span>${percent}%</span>
+    </div>
   `;
 }
 
 async function sendChatMessage(message: string) {
-  if (!message.trim()) return;
+  if (!message.trim() || chatPort) return;
 
   const chatInput = document.getElementById('chatInput') as HTMLTextAreaElement;
   const chatContainer = document.getElementById('chatContainer') as HTMLDivElement;
@@ -248,51 +551,258 @@ async function sendChatMessage(message: string) {
   chatHistory.push({ role: 'user', content: message });
   appendChatMessage('user', message);
 
-  // Show loading
+  // Show loading until the first tokens arrive
   const loadingId = appendChatMessage('ai', 'Thinking...');
+  const bubble = document.querySelector(`#${loadingId} .chat-bubble`);
 
-  try {
-    const response = await chrome.runtime.sendMessage({
-      action: 'askQuestion',
-      data: { question: message }
-    });
+  let answer = '';
+  let sources: any[] = [];
+  const port = chrome.runtime.connect({ name: 'chat-stream' });
+  chatPort = port;
+  setChatStreaming(true);
+
+  // Swap the streamed bubble for the final message with its sources
+  const finish = (content: string, withSources: boolean) => {
+    if (chatPort !== port) return;
+    chatPort = null;
+    port.disconnect();
+    setChatStreaming(false);
 
-    // Remove loading message
     document.getElementById(loadingId)?.remove();
+    messageSources.delete(loadingId);
+    chatHistory.push({ role: 'ai', content, sources: withSources ? sources : undefined });
+    appendChatMessage('ai', content, withSources ? sources : undefined);
+  };
+
+  port.onMessage.addListener((response) => {
+    switch (response.type) {
+      case 'sources':
+        sources = response.sources;
+        messageSources.set(loadingId, sources);
+        break;
+      case 'token':
+        answer += response.text;
+        if (bubble) bubble.innerHTML = formatAIResponse(answer, sources);
+        chatContainer.scrollTop = chatContainer.scrollHeight;
+        break;
+      case 'done':
+        // Final sources say which ones the answer cited
+        sources = response.sources || sources;
+        setCurrentThread(response.threadId);
+        finish(answer || 'No response generated.', true);
+        break;
+      case 'cancelled':
+        sources = response.sources || sources;
+        setCurrentThread(response.threadId);
+        finish(answer ? `${answer}\n\n*(stopped)*` : 'Stopped.', answer.length > 0);
+        break;
+      case 'error':
+        console.error('Chat error:', response.error);
+        finish('Sorry, I encountered an error. Please try again.', false);
+        break;
+    }
+  });
 
-    // Add AI response
-    chatHistory.push({ 
-      role: 'ai', 
-      content: response.answer,
-      sources: response.sources 
-    });
-    appendChatMessage('ai', response.answer, response.sources);
+  // The service worker went away mid-answer
+  port.onDisconnect.addListener(() => {
+    finish(answer || 'Sorry, I encountered an error. Please try again.', answer.length > 0);
+  });
 
+  port.postMessage({
+    type: 'ask',
+    question: message,
+    threadId: currentThreadId,
+    noteIds: chatScopeNoteIds.length > 0 ? chatScopeNoteIds : undefined,
+    collectionId: chatScopeNoteIds.length > 0 ? undefined : activeCollectionId ?? undefined
+  });
+}
+
+function cancelChatMessage() {
+  chatPort?.postMessage({ type: 'cancel' });
+}
+
+function setChatStreaming(streaming: boolean) {
+  const chatSendBtn = document.getElementById('chatSendBtn');
+  if (chatSendBtn) chatSendBtn.textContent = streaming ? 'Stop' : 'Ask AI';
+
+  // Switching threads mid-answer would save the answer to the wrong one
+  const chatThreadSelect = document.getElementById('chatThreadSelect') as HTMLSelectElement | null;
+  if (chatThreadSelect) chatThreadSelect.disabled = streaming;
+}
+
+function setCurrentThread(threadId: string | null) {
+  if (threadId && threadId !== currentThreadId) {
+    currentThreadId = threadId;
+    loadChatThreads();
+  }
+}
+
+async function loadChatThreads() {
+  const chatThreadSelect = document.getElementById('chatThreadSelect') as HTMLSelectElement | null;
+  if (!chatThreadSelect) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getChatThreads' });
+    const threads: any[] = response?.threads || [];
+
+    chatThreadSelect.innerHTML = '<option value="">New conversation</option>' + threads
+      .map(thread => `<option value="${thread.id}">${escapeHtml(thread.title)} (${new Date(thread.updatedAt).toLocaleDateString()})</option>`)
+      .join('');
+    chatThreadSelect.value = currentThreadId || '';
   } catch (error) {
-    console.error('Chat error:', error);
-    document.getElementById(loadingId)?.remove();
-    appendChatMessage('ai', 'Sorry, I encountered an error. Please try again.');
+    console.error('Failed to load chat threads:', error);
+  }
+  updateThreadButtons();
+}
+
+function updateThreadButtons() {
+  ['renameThreadBtn', 'deleteThreadBtn'].forEach(id => {
+    const button = document.getElementById(id) as HTMLButtonElement | null;
+    if (button) button.disabled = !currentThreadId;
+  });
+}
+
+// Show a saved conversation, or an empty one for a new conversation
+async function openChatThread(threadId: string | null) {
+  const chatContainer = document.getElementById('chatContainer');
+  if (!chatContainer) return;
+
+  currentThreadId = threadId;
+  chatHistory = [];
+  chatContainer.innerHTML = '';
+  updateThreadButtons();
+  setChatScope([]);
+  if (!threadId) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getChatThread', data: { id: threadId } });
+    if (!response?.thread) {
+      throw new Error(response?.error || 'Conversation not found');
+    }
+
+    chatHistory = response.thread.messages;
+    chatHistory.forEach(message => appendChatMessage(message.role, message.content, message.sources));
+
+    // Follow-ups answer from the same notes, collection or whole library as before; threads saved without a scope
+    // keep whatever is in view
+    const scope = response.thread.scope;
+    const collectionId = scope?.collectionId ?? null;
+    if (scope?.noteIds?.length) {
+      setChatScope(scope.noteIds);
+    } else if (scope && collectionId !== activeCollectionId && (!collectionId || collections.some(c => c.id === collectionId))) {
+      setActiveCollection(collectionId);
+    }
+  } catch (error) {
+    console.error('Failed to open chat thread:', error);
+    appendChatMessage('ai', 'Sorry, this conversation could not be loaded.');
+  }
+}
+
+async function renameChatThread() {
+  if (!currentThreadId) return;
+
+  const chatThreadSelect = document.getElementById('chatThreadSelect') as HTMLSelectElement | null;
+  const currentTitle = chatThreadSelect?.selectedOptions[0]?.textContent?.replace(/ \([^)]*\)$/, '') || '';
+  const title = prompt('Conversation name', currentTitle);
+  if (!title?.trim()) return;
+
+  try {
+    await chrome.runtime.sendMessage({ action: 'renameChatThread', data: { id: currentThreadId, title } });
+    loadChatThreads();
+  } catch (error) {
+    console.error('Failed to rename chat thread:', error);
+  }
+}
+
+async function deleteChatThread() {
+  if (!currentThreadId || !confirm('Delete this conversation?')) return;
+
+  try {
+    await chrome.runtime.sendMessage({ action: 'deleteChatThread', data: { id: currentThreadId } });
+    await openChatThread(null);
+    loadChatThreads();
+  } catch (error) {
+    console.error('Failed to delete chat thread:', error);
   }
 }
 
+function toggleNoteSelection(id: string) {
+  if (selectedNoteIds.has(id)) {
+    selectedNoteIds.delete(id);
+  } else {
+    selectedNoteIds.add(id);
+  }
+  updateNoteSelection();
+}
+
+function clearNoteSelection() {
+  selectedNoteIds.clear();
+  updateNoteSelection();
+}
+
+// A note can be on screen in both the search results and the recent notes
+function updateNoteSelection() {
+  document.querySelectorAll('.note-select').forEach(el => {
+    const selected = selectedNoteIds.has((el as HTMLElement).dataset.id || '');
+    el.classList.toggle('selected', selected);
+    el.setAttribute('aria-pressed', String(selected));
+    el.closest('.note-card-item')?.querySelector('.note-card')?.classList.toggle('selected', selected);
+  });
+
+  const selectionBar = document.getElementById('selectionBar');
+  const selectionCount = document.getElementById('selectionCount');
+  if (selectionBar) selectionBar.style.display = selectedNoteIds.size > 0 ? 'flex' : 'none';
+  if (selectionCount) selectionCount.textContent = `${selectedNoteIds.size} note${selectedNoteIds.size === 1 ? '' : 's'} selected`;
+}
+
+// Start a new conversation that answers only from the selected notes
+async function askAboutSelectedNotes() {
+  if (selectedNoteIds.size === 0 || chatPort) return;
+
+  const noteIds = [...selectedNoteIds];
+  clearNoteSelection();
+  switchMode('chat');
+  await openChatThread(null);
+  loadChatThreads();
+  setChatScope(noteIds);
+}
+
+function setChatScope(noteIds: string[]) {
+  chatScopeNoteIds = noteIds;
+
+  const chatScope = document.getElementById('chatScope');
+  const chatScopeLabel = document.getElementById('chatScopeLabel');
+  if (chatScope) chatScope.style.display = noteIds.length > 0 ? 'flex' : 'none';
+  if (chatScopeLabel) chatScopeLabel.textContent = `Answering only from ${noteIds.length} selected note${noteIds.length === 1 ? '' : 's'}`;
+}
+
 function appendChatMessage(role: 'user' | 'ai', content: string, sources?: any[]): string {
   const chatContainer = document.getElementById('chatContainer') as HTMLDivElement;
   if (!chatContainer) return '';
 
-  const messageId = `msg-${Date.now()}`;
+  // Messages are often appended in the same millisecond, so the counter keeps ids unique
+  const messageId = `msg-${Date.now()}-${++messageCount}`;
   const avatarText = role === 'user' ? 'U' : 'AI';
   
+  if (sources && sources.length > 0) {
+    messageSources.set(messageId, sources);
+  }
+
   const sourcesHtml = sources && sources.length > 0 ? `
     <div class="chat-sources">
       <div class="chat-sources-title">Sources (${sources.length}):</div>
-      ${sources.map((source: any) => {
+      ${sources.map((source: any, index: number) => {
         const isYouTube = source.isYouTube || source.tags?.includes('youtube');
         const badge = isYouTube ? '<span class="youtube-badge-mini">▶ YouTube</span>' : '';
         const link = source.url ? `<a href="${source.url}" target="_blank" class="source-link">Open</a>` : '';
+        // Flag notes that were retrieved but not used in the answer
+        const uncited = source.cited === false;
         
         return `
-          <div class="chat-source-item" title="${escapeHtml(source.content)}">
+          <div class="chat-source-item${uncited ? ' uncited' : ''}" title="${escapeHtml(source.content)}">
             <div class="source-header">
+              <button class="citation" data-source="${index + 1}">${source.number ?? index + 1}</button>
+              ${uncited ? '<span class="uncited-badge">Not cited</span>' : ''}
               ${badge}
               ${link}
             </div>
@@ -308,7 +818,7 @@ function appendChatMessage(role: 'user' | 'ai', content: string, sources?: any[]
     <div class="chat-message ${role}" id="${messageId}">
       <div class="chat-avatar ${role}">${avatarText}</div>
       <div class="chat-bubble ${role}">
-        ${role === 'ai' ? formatAIResponse(content) : escapeHtml(content)}
+        ${role === 'ai' ? formatAIResponse(content, sources) : escapeHtml(content)}
         ${sourcesHtml}
       </div>
     </div>
@@ -322,6 +832,8 @@ function appendChatMessage(role: 'user' | 'ai', content: string, sources?: any[]
 
 function showNoteDetail(note: any) {
   selectedNoteId = note.id;
+  selectedNote = note;
+  setNoteEditing(false);
 
   const modal = document.getElementById('noteDetail');
   const noteContent = document.getElementById('noteContent');
@@ -343,7 +855,7 @@ function showNoteDetail(note: any) {
   }
 
   if (noteUrl) {
-    noteUrl.href = note.source.url;
+    noteUrl.href = note.matchUrl || note.source.url;
     noteUrl.textContent = note.source.title || note.source.url;
   }
 
@@ -351,6 +863,11 @@ function showNoteDetail(note: any) {
     noteTimestamp.textContent = new Date(note.createdAt).toLocaleString();
   }
 
+  renderNoteSummary(note.summary);
+  renderAnnotation(note.annotation);
+  renderNoteCollections(note.collectionIds);
+  loadRelatedNotes(note.id);
+
   if (answerSection) answerSection.style.display = 'none';
   if (questionInput) questionInput.value = '';
 
@@ -362,6 +879,944 @@ function closeNoteDetail() {
   const modal = document.getElementById('noteDetail');
   if (modal) modal.style.display = 'none';
   selectedNoteId = null;
+  selectedNote = null;
+}
+
+function renderNoteSummary(summary: any) {
+  const container = document.getElementById('noteSummary');
+  const summarizeNoteBtn = document.getElementById('summarizeNoteBtn');
+  if (!container) return;
+
+  container.style.display = summary ? 'block' : 'none';
+  container.innerHTML = summary ? `
+    <div class="summary-tldr">${escapeHtml(summary.tldr)}</div>
+    ${summary.keyPoints.length > 0 ? `<ul class="summary-points">${summary.keyPoints.map((point: string) => `<li>${escapeHtml(point)}</li>`).join('')}</ul>` : ''}
+  ` : '';
+  if (summarizeNoteBtn) summarizeNoteBtn.textContent = summary ? 'Summarize again' : 'Summarize with AI';
+}
+
+// Notes saved before summaries, or short enough to be saved without one, get theirs on request
+async function summarizeSelectedNote() {
+  const noteId = selectedNoteId;
+  const summarizeNoteBtn = document.getElementById('summarizeNoteBtn') as HTMLButtonElement | null;
+  if (!noteId) return;
+
+  if (summarizeNoteBtn) {
+    summarizeNoteBtn.disabled = true;
+    summarizeNoteBtn.textContent = 'Summarizing...';
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'summarizeNote', data: { id: noteId } });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    // Another note may have been opened meanwhile
+    if (selectedNoteId === noteId) {
+      selectedNote = { ...selectedNote, summary: response.note.summary };
+      renderNoteSummary(response.note.summary);
+    }
+    refreshCurrentView();
+  } catch (error) {
+    console.error('Summarize note error:', error);
+    alert('Failed to summarize the note. Please try again.');
+    if (selectedNoteId === noteId) renderNoteSummary(selectedNote?.summary);
+  } finally {
+    if (summarizeNoteBtn) summarizeNoteBtn.disabled = false;
+  }
+}
+
+function renderAnnotation(annotation: any) {
+  const section = document.getElementById('noteAnnotationSection');
+  const container = document.getElementById('noteAnnotation');
+  if (!section || !container) return;
+
+  const parts = [
+    annotation?.rating ? `<div class="rating-stars" title="${annotation.rating} of 5">${ratingStars(annotation.rating)}</div>` : '',
+    annotation?.reason ? `<div class="annotation-reason">${escapeHtml(annotation.reason)}</div>` : '',
+    annotation?.comment ? `<div class="annotation-comment">${escapeHtml(annotation.comment)}</div>` : ''
+  ].filter(Boolean);
+
+  section.style.display = parts.length > 0 ? 'block' : 'none';
+  container.innerHTML = parts.join('');
+}
+
+function ratingStars(rating: number): string {
+  return '★'.repeat(rating) + '☆'.repeat(5 - rating);
+}
+
+async function loadRelatedNotes(noteId: string) {
+  const section = document.getElementById('noteRelatedSection');
+  const container = document.getElementById('noteRelated');
+  if (!section || !container) return;
+
+  relatedNotes = [];
+  section.style.display = 'none';
+  container.innerHTML = '';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getRelatedNotes', data: { id: noteId } });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    // Another note may have been opened meanwhile
+    if (selectedNoteId !== noteId) return;
+
+    relatedNotes = response.related;
+    section.style.display = relatedNotes.length > 0 ? 'block' : 'none';
+    container.innerHTML = relatedNotes
+      .map((related, index) => `
+        <button class="related-note" data-index="${index}">
+          <span class="related-title">${escapeHtml(truncate(related.note.source.title || related.note.source.url, 60))}</span>
+          <span class="related-score">${Math.round(related.similarity * 100)}%</span>
+        </button>
+      `)
+      .join('');
+  } catch (error) {
+    console.error('Failed to load related notes:', error);
+  }
+}
+
+// Collections sidebar, note membership and the collection scope for search and chat
+async function loadCollections() {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getCollections' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    collections = response.collections;
+  } catch (error) {
+    console.error('Failed to load collections:', error);
+  }
+
+  // The active collection may have been deleted, here or on another device
+  if (activeCollectionId && !collections.some(c => c.id === activeCollectionId)) {
+    activeCollectionId = null;
+    refreshCurrentView();
+  }
+
+  renderCollectionTree();
+  updateCollectionScope();
+  fillCollectionSelect('addSelectedToCollection', []);
+  if (selectedNote) renderNoteCollections(selectedNote.collectionIds);
+}
+
+// Siblings in their manual order; collections whose parent is gone count as top level
+function collectionChildren(parentId: string | null): any[] {
+  const known = new Set(collections.map(c => c.id));
+  return collections
+    .filter(c => (c.parentId && known.has(c.parentId) ? c.parentId : null) === parentId)
+    .sort((a, b) => a.order - b.order || a.createdAt - b.createdAt);
+}
+
+// "Parent / Child"
+function collectionLabel(id: string): string {
+  const names: string[] = [];
+  let current = collections.find(c => c.id === id);
+  while (current && names.length < collections.length) {
+    names.unshift(current.name);
+    current = collections.find(c => c.id === current.parentId);
+  }
+  return names.join(' / ');
+}
+
+function renderCollectionTree() {
+  const tree = document.getElementById('collectionTree');
+  if (!tree) return;
+
+  const rows = [`<div class="collection-row${activeCollectionId ? '' : ' active'}" data-collection-id=""><span class="collection-name">All notes</span></div>`];
+  const addRows = (parentId: string | null, depth: number) => {
+    collectionChildren(parentId).forEach((collection, index, siblings) => {
+      rows.push(`
+        <div class="collection-row${collection.id === activeCollectionId ? ' active' : ''}" data-collection-id="${collection.id}" draggable="true" style="padding-left: ${0.75 + depth}rem">
+          <span class="collection-name">${escapeHtml(collection.name)}</span>
+          <span class="collection-actions">
+            <button data-collection-action="add" title="New collection inside">+</button>
+            <button data-collection-action="up" title="Move up"${index === 0 ? ' disabled' : ''}>↑</button>
+            <button data-collection-action="down" title="Move down"${index === siblings.length - 1 ? ' disabled' : ''}>↓</button>
+            <button data-collection-action="rename" title="Rename">✎</button>
+            <button data-collection-action="delete" title="Delete">×</button>
+          </span>
+        </div>
+      `);
+      addRows(collection.id, depth + 1);
+    });
+  };
+  addRows(null, 0);
+
+  tree.innerHTML = rows.join('');
+}
+
+// Picking, editing and drag and drop, all delegated from the tree
+function setupCollectionTree(tree: HTMLElement) {
+  const rowOf = (e: Event) => (e.target as HTMLElement).closest('.collection-row') as HTMLElement | null;
+
+  tree.addEventListener('click', (e) => {
+    const row = rowOf(e);
+    if (!row) return;
+    const id = row.dataset.collectionId || null;
+    const action = ((e.target as HTMLElement).closest('[data-collection-action]') as HTMLElement | null)?.dataset.collectionAction;
+
+    if (!action) {
+      setActiveCollection(id);
+    } else if (id && action === 'add') {
+      promptNewCollection(id);
+    } else if (id && (action === 'up' || action === 'down')) {
+      sendCollectionChange('moveCollection', { id, direction: action });
+    } else if (id && action === 'rename') {
+      const name = prompt('Collection name', collections.find(c => c.id === id)?.name || '');
+      if (name?.trim()) sendCollectionChange('updateCollection', { id, changes: { name } });
+    } else if (id && action === 'delete') {
+      if (confirm(`Delete "${collectionLabel(id)}" and the collections inside it? Its notes are kept.`)) {
+        sendCollectionChange('deleteCollection', { id });
+      }
+    }
+  });
+
+  tree.addEventListener('dragstart', (e) => {
+    const id = rowOf(e)?.dataset.collectionId;
+    if (id) e.dataTransfer?.setData(COLLECTION_DRAG_TYPE, id);
+  });
+
+  tree.addEventListener('dragover', (e) => {
+    const row = rowOf(e);
+    const types = e.dataTransfer?.types || [];
+    if (!row || !(types.includes(NOTE_DRAG_TYPE) || types.includes(COLLECTION_DRAG_TYPE))) return;
+    e.preventDefault();
+    row.classList.add('drop-target');
+  });
+
+  tree.addEventListener('dragleave', (e) => {
+    rowOf(e)?.classList.remove('drop-target');
+  });
+
+  // A note dropped on a collection joins it; a collection dropped on another is nested in it
+  tree.addEventListener('drop', (e) => {
+    const row = rowOf(e);
+    if (!row || !e.dataTransfer) return;
+    e.preventDefault();
+    row.classList.remove('drop-target');
+
+    const targetId = row.dataset.collectionId || null;
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    const collectionId = e.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+    if (noteId && targetId) {
+      addNotesToCollection([noteId], targetId);
+    } else if (collectionId && collectionId !== targetId) {
+      sendCollectionChange('updateCollection', { id: collectionId, changes: { parentId: targetId } });
+    }
+  });
+}
+
+function toggleCollectionSidebar(open?: boolean) {
+  const sidebar = document.getElementById('collectionSidebar');
+  const toggleCollectionsBtn = document.getElementById('toggleCollectionsBtn');
+  if (!sidebar) return;
+
+  const show = open ?? sidebar.style.display === 'none';
+  sidebar.style.display = show ? 'flex' : 'none';
+  toggleCollectionsBtn?.setAttribute('aria-pressed', String(show));
+}
+
+function promptNewCollection(parentId: string | null) {
+  const name = prompt(parentId ? `New collection inside "${collectionLabel(parentId)}"` : 'New collection');
+  if (name?.trim()) sendCollectionChange('createCollection', { name, parentId });
+}
+
+async function sendCollectionChange(action: string, data: any) {
+  try {
+    const response = await chrome.runtime.sendMessage({ action, data });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+  } catch (error: any) {
+    console.error('Collection update error:', error);
+    alert(error?.message || 'Failed to update collections.');
+  }
+  await loadCollections();
+}
+
+// Search, recent notes and chat follow the active collection
+function setActiveCollection(id: string | null) {
+  activeCollectionId = id;
+  renderCollectionTree();
+  updateCollectionScope();
+
+  // On a narrow panel the sidebar covers the results
+  if (window.matchMedia('(max-width: 640px)').matches) {
+    toggleCollectionSidebar(false);
+  }
+
+  if (currentMode === 'chat') return;
+  if (currentMode === 'graph') {
+    loadNoteGraph();
+    return;
+  }
+  const searchInput = document.getElementById('searchInput') as HTMLInputElement;
+  if (currentMode === 'search' && searchInput?.value.trim()) {
+    performSearch(searchInput.value);
+  } else {
+    switchMode('recent');
+    loadRecentNotes();
+  }
+}
+
+function updateCollectionScope() {
+  const collectionScope = document.getElementById('collectionScope');
+  const collectionScopeLabel = document.getElementById('collectionScopeLabel');
+  if (collectionScope) collectionScope.style.display = activeCollectionId ? 'flex' : 'none';
+  if (collectionScopeLabel && activeCollectionId) {
+    collectionScopeLabel.textContent = `In ${collectionLabel(activeCollectionId)}`;
+  }
+}
+
+// Options for every collection except the ones listed, labelled with their path
+function fillCollectionSelect(selectId: string, excludeIds: string[]) {
+  const select = document.getElementById(selectId) as HTMLSelectElement | null;
+  if (!select) return;
+
+  const options = collections
+    .filter(c => !excludeIds.includes(c.id))
+    .map(c => ({ id: c.id, label: collectionLabel(c.id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  select.innerHTML = `<option value="">${options.length > 0 ? 'Add to collection...' : 'No collections yet'}</option>` + options
+    .map(option => `<option value="${option.id}">${escapeHtml(option.label)}</option>`)
+    .join('');
+  select.disabled = options.length === 0;
+}
+
+function renderNoteCollections(collectionIds: string[] = []) {
+  const noteCollections = document.getElementById('noteCollections');
+  const current = collectionIds.filter(id => collections.some(c => c.id === id));
+
+  if (noteCollections) {
+    noteCollections.innerHTML = current
+      .map(id => `<span class="tag">${escapeHtml(collectionLabel(id))}<button class="tag-remove" data-collection-id="${id}" title="Remove from collection">×</button></span>`)
+      .join('');
+  }
+  fillCollectionSelect('noteCollectionSelect', current);
+}
+
+async function setNoteCollections(collectionIds: string[]) {
+  if (!selectedNoteId) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'updateNote',
+      data: { id: selectedNoteId, updates: { collectionIds } }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    selectedNote = { ...selectedNote, collectionIds: response.note.collectionIds };
+    renderNoteCollections(response.note.collectionIds);
+    if (activeCollectionId) refreshCurrentView();
+  } catch (error) {
+    console.error('Failed to update note collections:', error);
+    alert('Failed to update collections. Please try again.');
+  }
+}
+
+async function addNotesToCollection(noteIds: string[], collectionId: string) {
+  if (noteIds.length === 0) return;
+  await sendCollectionChange('addToCollection', { noteIds, collectionId });
+  if (activeCollectionId) refreshCurrentView();
+}
+
+async function loadNoteGraph() {
+  const graphSummary = document.getElementById('graphSummary');
+  const canvas = document.getElementById('graphCanvas') as HTMLCanvasElement | null;
+  if (!canvas) return;
+
+  if (graphSummary) graphSummary.textContent = 'Linking notes...';
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getNoteGraph',
+      data: { collectionId: activeCollectionId ?? undefined }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    const { nodes, edges } = response.graph;
+    const byId = new Map<string, GraphPoint>();
+    // Start each cluster around its own point on a circle so the layout untangles quickly
+    graphNodes = nodes.map((node: any, i: number) => {
+      const angle = node.cluster * 2.4;
+      const point: GraphPoint = {
+        ...node,
+        degree: 0,
+        x: Math.cos(angle) * 150 + Math.cos(i) * 40,
+        y: Math.sin(angle) * 150 + Math.sin(i) * 40,
+        vx: 0,
+        vy: 0,
+        pinned: false
+      };
+      byId.set(node.id, point);
+      return point;
+    });
+    graphEdges = edges
+      .filter((edge: any) => byId.has(edge.source) && byId.has(edge.target))
+      .map((edge: any) => ({ ...edge, source: byId.get(edge.source)!, target: byId.get(edge.target)! }));
+    graphEdges.forEach(edge => {
+      edge.source.degree++;
+      edge.target.degree++;
+    });
+
+    if (graphSummary) {
+      const pending = response.pending > 0 ? ` • Still finding related notes for ${response.pending}, reopen the graph to see more links` : '';
+      const shown = graphNodes.length < response.total ? `the newest ${graphNodes.length} of ${response.total} notes` : `${graphNodes.length} notes`;
+      graphSummary.textContent = graphNodes.length > 0
+        ? `Showing ${shown} • Linked by meaning and shared tags, coloured by cluster • Drag to move, scroll to zoom, click a note to open it${pending}`
+        : activeCollectionId ? 'No notes in this collection yet.' : 'No notes yet. Start saving content from any webpage!';
+    }
+
+    graphView = { x: 0, y: 0, scale: 1 };
+    resizeGraphCanvas(canvas);
+    startGraphLayout(1);
+  } catch (error) {
+    console.error('Failed to load note graph:', error);
+    if (graphSummary) graphSummary.textContent = 'Failed to load the graph.';
+  }
+}
+
+function setupNoteGraph(canvas: HTMLCanvasElement) {
+  const tooltip = document.getElementById('graphTooltip');
+
+  // Pointer position in graph coordinates
+  const toGraph = (e: MouseEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - rect.width / 2 - graphView.x) / graphView.scale,
+      y: (e.clientY - rect.top - rect.height / 2 - graphView.y) / graphView.scale
+    };
+  };
+
+  canvas.addEventListener('pointerdown', (e) => {
+    const point = toGraph(e);
+    graphDrag = { node: graphNodeAt(point.x, point.y), x: e.clientX, y: e.clientY, moved: false };
+    canvas.setPointerCapture(e.pointerId);
+  });
+
+  canvas.addEventListener('pointermove', (e) => {
+    const point = toGraph(e);
+
+    if (graphDrag) {
+      graphDrag.moved = graphDrag.moved || Math.abs(e.clientX - graphDrag.x) + Math.abs(e.clientY - graphDrag.y) > 3;
+      if (graphDrag.node) {
+        // A dragged note stays where it is dropped; its neighbours follow
+        Object.assign(graphDrag.node, { x: point.x, y: point.y, vx: 0, vy: 0, pinned: true });
+        startGraphLayout(Math.max(graphAlpha, 0.3));
+      } else {
+        graphView.x += e.clientX - graphDrag.x;
+        graphView.y += e.clientY - graphDrag.y;
+        graphDrag.x = e.clientX;
+        graphDrag.y = e.clientY;
+        drawGraph();
+      }
+    }
+
+    graphHover = graphNodeAt(point.x, point.y);
+    canvas.style.cursor = graphHover ? 'pointer' : graphDrag ? 'grabbing' : 'grab';
+    if (tooltip) {
+      tooltip.style.display = graphHover && !graphDrag?.moved ? 'block' : 'none';
+      if (graphHover) {
+        const rect = canvas.getBoundingClientRect();
+        tooltip.textContent = graphHover.tags.length > 0 ? `${graphHover.title} • ${graphHover.tags.join(', ')}` : graphHover.title;
+        tooltip.style.left = `${e.clientX - rect.left + 12}px`;
+        tooltip.style.top = `${e.clientY - rect.top + 12}px`;
+      }
+    }
+    if (!graphFrame) drawGraph();
+  });
+
+  canvas.addEventListener('pointerup', async (e) => {
+    const drag = graphDrag;
+    graphDrag = null;
+    canvas.releasePointerCapture(e.pointerId);
+    if (!drag?.node || drag.moved) return;
+
+    // A click opens the note
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getNote', data: { id: drag.node.id } });
+      if (response?.note) showNoteDetail(response.note);
+    } catch (error) {
+      console.error('Failed to open note from graph:', error);
+    }
+  });
+
+  canvas.addEventListener('pointerleave', () => {
+    graphHover = null;
+    if (tooltip) tooltip.style.display = 'none';
+    if (!graphFrame) drawGraph();
+  });
+
+  // Zoom around the pointer
+  canvas.addEventListener('wheel', (e) => {
+    e.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    const cx = e.clientX - rect.left - rect.width / 2;
+    const cy = e.clientY - rect.top - rect.height / 2;
+    const scale = Math.min(4, Math.max(0.2, graphView.scale * Math.exp(-e.deltaY * 0.001)));
+    graphView.x = cx - (cx - graphView.x) * scale / graphView.scale;
+    graphView.y = cy - (cy - graphView.y) * scale / graphView.scale;
+    graphView.scale = scale;
+    if (!graphFrame) drawGraph();
+  }, { passive: false });
+
+  window.addEventListener('resize', () => {
+    if (currentMode !== 'graph') return;
+    resizeGraphCanvas(canvas);
+    if (!graphFrame) drawGraph();
+  });
+}
+
+function graphNodeRadius(node: GraphPoint): number {
+  return 4 + Math.sqrt(node.degree) * 1.5;
+}
+
+function graphNodeAt(x: number, y: number): GraphPoint | null {
+  for (let i = graphNodes.length - 1; i >= 0; i--) {
+    const node = graphNodes[i];
+    const radius = graphNodeRadius(node) + 3 / graphView.scale;
+    if ((node.x - x) ** 2 + (node.y - y) ** 2 <= radius * radius) return node;
+  }
+  return null;
+}
+
+function resizeGraphCanvas(canvas: HTMLCanvasElement) {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(canvas.clientWidth * ratio);
+  canvas.height = Math.round(canvas.clientHeight * ratio);
+}
+
+function startGraphLayout(alpha: number) {
+  graphAlpha = alpha;
+  if (graphFrame) return;
+
+  const step = () => {
+    graphTick();
+    drawGraph();
+    graphAlpha *= 0.985;
+    graphFrame = graphAlpha > 0.01 ? requestAnimationFrame(step) : null;
+  };
+  graphFrame = requestAnimationFrame(step);
+}
+
+function stopGraphLayout() {
+  if (graphFrame) cancelAnimationFrame(graphFrame);
+  graphFrame = null;
+}
+
+// One step of the simulation: notes push each other apart, links pull them together,
+// and each note drifts towards the middle of its cluster so clusters read as groups
+function graphTick() {
+  const alpha = graphAlpha;
+
+  for (let i = 0; i < graphNodes.length; i++) {
+    const a = graphNodes[i];
+    for (let j = i + 1; j < graphNodes.length; j++) {
+      const b = graphNodes[j];
+      const dx = a.x - b.x || 0.01;
+      const dy = a.y - b.y || 0.01;
+      const distance2 = Math.max(dx * dx + dy * dy, 25);
+      const force = 600 * alpha / distance2;
+      a.vx += dx * force;
+      a.vy += dy * force;
+      b.vx -= dx * force;
+      b.vy -= dy * force;
+    }
+  }
+
+  for (const edge of graphEdges) {
+    const dx = edge.target.x - edge.source.x;
+    const dy = edge.target.y - edge.source.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = (distance - 50) * Math.min(edge.weight, 1) * 0.05 * alpha / distance;
+    edge.source.vx += dx * force;
+    edge.source.vy += dy * force;
+    edge.target.vx -= dx * force;
+    edge.target.vy -= dy * force;
+  }
+
+  const centres = new Map<number, { x: number; y: number; count: number }>();
+  for (const node of graphNodes) {
+    const centre = centres.get(node.cluster) || { x: 0, y: 0, count: 0 };
+    centre.x += node.x;
+    centre.y += node.y;
+    centre.count++;
+    centres.set(node.cluster, centre);
+  }
+
+  for (const node of graphNodes) {
+    const centre = centres.get(node.cluster)!;
+    node.vx += ((centre.x / centre.count - node.x) * 0.02 - node.x * 0.005) * alpha;
+    node.vy += ((centre.y / centre.count - node.y) * 0.02 - node.y * 0.005) * alpha;
+
+    if (node.pinned) {
+      node.vx = 0;
+      node.vy = 0;
+      continue;
+    }
+    node.vx *= 0.6;
+    node.vy *= 0.6;
+    node.x += node.vx;
+    node.y += node.vy;
+  }
+}
+
+function drawGraph() {
+  const canvas = document.getElementById('graphCanvas') as HTMLCanvasElement | null;
+  const context = canvas?.getContext('2d');
+  if (!canvas || !context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.setTransform(
+    ratio * graphView.scale, 0, 0, ratio * graphView.scale,
+    canvas.width / 2 + graphView.x * ratio, canvas.height / 2 + graphView.y * ratio
+  );
+
+  // Tag-only links are dashed; hovering a note brings out its links
+  const muted = getComputedStyle(document.body).color;
+  context.lineWidth = 1 / graphView.scale;
+  for (const edge of graphEdges) {
+    const highlighted = graphHover && (edge.source === graphHover || edge.target === graphHover);
+    context.globalAlpha = highlighted ? 0.8 : 0.12 + Math.min(edge.weight, 1) * 0.25;
+    context.strokeStyle = muted;
+    context.setLineDash(edge.kind === 'tags' ? [4 / graphView.scale, 4 / graphView.scale] : []);
+    context.beginPath();
+    context.moveTo(edge.source.x, edge.source.y);
+    context.lineTo(edge.target.x, edge.target.y);
+    context.stroke();
+  }
+  context.setLineDash([]);
+  context.globalAlpha = 1;
+
+  for (const node of graphNodes) {
+    context.fillStyle = node.degree > 0 ? GRAPH_COLORS[node.cluster % GRAPH_COLORS.length] : GRAPH_UNCLUSTERED_COLOR;
+    context.beginPath();
+    context.arc(node.x, node.y, graphNodeRadius(node), 0, Math.PI * 2);
+    context.fill();
+    if (node === graphHover) {
+      context.strokeStyle = muted;
+      context.lineWidth = 2 / graphView.scale;
+      context.stroke();
+    }
+  }
+}
+
+function refreshCurrentView() {
+  if (currentMode === 'search') {
+    const searchInput = document.getElementById('searchInput') as HTMLInputElement;
+    if (searchInput?.value) performSearch(searchInput.value);
+  } else if (currentMode === 'recent') {
+    loadRecentNotes();
+  } else if (currentMode === 'graph') {
+    loadNoteGraph();
+  } else if (currentMode === 'review') {
+    loadReviewQueue();
+  }
+}
+
+// Notes due today, and the latest digest above them
+async function loadReviewQueue() {
+  const reviewQueue = document.getElementById('reviewQueue');
+  const reviewSummary = document.getElementById('reviewSummary');
+  if (!reviewQueue) return;
+
+  reviewQueue.innerHTML = '<div class="loading-state"><div class="spinner"></div><p>Loading notes to review...</p></div>';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getReviewQueue' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    renderReviewDigest(response.digest);
+    reviewQueueNotes = response.queue.map((item: any) => item.note);
+
+    if (reviewSummary) {
+      reviewSummary.textContent = !response.enabled
+        ? 'Review is turned off in settings'
+        : `${response.due} due • ${response.reviewedToday} of ${response.dailyLimit} reviewed today`;
+    }
+
+    if (!response.enabled) {
+      reviewQueue.innerHTML = '<div class="empty">Turn on review in settings to have saved notes come back to you.</div>';
+    } else if (response.queue.length === 0) {
+      reviewQueue.innerHTML = response.due > 0
+        ? '<div class="empty">That\'s today\'s reviews done. The rest will wait until tomorrow.</div>'
+        : '<div class="empty">Nothing to review right now. Notes come back a day after they are saved.</div>';
+    } else {
+      reviewQueue.innerHTML = response.queue.map((item: any) => createReviewCard(item.note, item.card)).join('');
+    }
+  } catch (error) {
+    console.error('Load review queue error:', error);
+    reviewQueue.innerHTML = '<div class="empty">Failed to load notes to review</div>';
+  }
+}
+
+function createReviewCard(note: any, card: any): string {
+  const title = note.source.title || note.source.url;
+  const content = note.summary ? note.summary.tldr : truncate(note.content, 200);
+  const tags = note.tags.map((tag: string) => `<span class="tag">${escapeHtml(tag)}</span>`).join('');
+  const history = card.lastReviewedAt
+    ? `Last reviewed ${new Date(card.lastReviewedAt).toLocaleDateString()}`
+    : 'First review';
+
+  return `
+    <div class="note-card review-card" data-id="${note.id}">
+      <div class="review-title">${escapeHtml(truncate(title, 80))}</div>
+      <div class="note-content">${escapeHtml(content)}</div>
+      ${tags ? `<div class="note-tags">${tags}</div>` : ''}
+      <div class="note-meta">Saved ${new Date(note.createdAt).toLocaleDateString()} • ${history}</div>
+      <div class="review-actions">
+        ${Object.entries(REVIEW_GRADE_LABELS).map(([grade, label]) =>
+          `<button class="btn-thread review-grade ${grade}" data-grade="${grade}">${label}</button>`).join('')}
+      </div>
+    </div>
+  `;
+}
+
+// The card goes as soon as it is graded; the queue reloads after, to fill in from the notes still due
+async function onReviewQueueClick(e: Event) {
+  const target = e.target as HTMLElement;
+  const card = target.closest('.review-card') as HTMLElement | null;
+  const noteId = card?.dataset.id;
+  if (!card || !noteId) return;
+
+  const gradeBtn = target.closest('.review-grade') as HTMLButtonElement | null;
+  if (!gradeBtn) {
+    const note = reviewQueueNotes.find(queued => queued.id === noteId);
+    if (note) showNoteDetail(note);
+    return;
+  }
+
+  card.querySelectorAll('button').forEach(button => (button as HTMLButtonElement).disabled = true);
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'reviewNote',
+      data: { id: noteId, grade: gradeBtn.dataset.grade }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    card.remove();
+    loadReviewQueue();
+  } catch (error) {
+    console.error('Review note error:', error);
+    alert('Failed to save the review. Please try again.');
+    card.querySelectorAll('button').forEach(button => (button as HTMLButtonElement).disabled = false);
+  }
+}
+
+function renderReviewDigest(digest: any) {
+  const reviewDigest = document.getElementById('reviewDigest');
+  const reviewDigestTitle = document.getElementById('reviewDigestTitle');
+  if (!reviewDigest) return;
+
+  if (!digest) {
+    if (reviewDigestTitle) reviewDigestTitle.textContent = 'Digest';
+    reviewDigest.innerHTML = '<p class="review-digest-empty">No digest yet. One is written on the schedule set in settings, or write one now.</p>';
+    return;
+  }
+
+  const from = new Date(digest.from).toLocaleDateString();
+  const to = new Date(digest.to).toLocaleDateString();
+  if (reviewDigestTitle) {
+    reviewDigestTitle.textContent = `${digest.frequency === 'daily' ? 'Daily' : 'Weekly'} digest • ${from === to ? to : `${from} – ${to}`}`;
+  }
+  reviewDigest.innerHTML = digest.text
+    .split(/\n{2,}/)
+    .map((paragraph: string) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+async function generateReviewDigest() {
+  const generateDigestBtn = document.getElementById('generateDigestBtn') as HTMLButtonElement | null;
+  if (generateDigestBtn) {
+    generateDigestBtn.disabled = true;
+    generateDigestBtn.textContent = 'Writing...';
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'generateDigest' });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+    if (!response.digest) {
+      alert('No notes were saved in the digest period.');
+      return;
+    }
+    renderReviewDigest(response.digest);
+  } catch (error) {
+    console.error('Generate digest error:', error);
+    alert('Failed to write the digest. Please try again.');
+  } finally {
+    if (generateDigestBtn) {
+      generateDigestBtn.disabled = false;
+      generateDigestBtn.textContent = 'Write digest now';
+    }
+  }
+}
+
+function setNoteEditing(editing: boolean) {
+  const noteView = document.getElementById('noteView');
+  const noteEditForm = document.getElementById('noteEditForm');
+  const editNoteBtn = document.getElementById('editNoteBtn');
+  if (noteView) noteView.style.display = editing ? 'none' : 'block';
+  if (noteEditForm) noteEditForm.style.display = editing ? 'block' : 'none';
+  if (editNoteBtn) editNoteBtn.style.display = editing ? 'none' : '';
+}
+
+function startNoteEdit() {
+  if (!selectedNote) return;
+
+  const editTitle = document.getElementById('editTitle') as HTMLInputElement;
+  const editContent = document.getElementById('editContent') as HTMLTextAreaElement;
+  if (editTitle) editTitle.value = selectedNote.source.title || '';
+  if (editContent) editContent.value = selectedNote.content;
+
+  const annotation = selectedNote.annotation || {};
+  const editReason = document.getElementById('editReason') as HTMLInputElement;
+  const editComment = document.getElementById('editComment') as HTMLTextAreaElement;
+  const editRating = document.getElementById('editRating') as HTMLSelectElement;
+  if (editReason) editReason.value = annotation.reason || '';
+  if (editComment) editComment.value = annotation.comment || '';
+  if (editRating) editRating.value = String(annotation.rating || 0);
+
+  editTags = [...selectedNote.tags];
+  renderEditTags();
+  loadTagSuggestions();
+  setNoteEditing(true);
+}
+
+function renderEditTags() {
+  const editTagsContainer = document.getElementById('editTags');
+  if (!editTagsContainer) return;
+
+  editTagsContainer.innerHTML = editTags
+    .map(tag => `<span class="tag">${escapeHtml(tag)}<button class="tag-remove" data-tag="${escapeHtml(tag)}" title="Remove tag">×</button></span>`)
+    .join('');
+}
+
+function addEditTag(value: string) {
+  const tag = value.trim().toLowerCase().replace(/^#/, '');
+  if (tag && !editTags.includes(tag)) {
+    editTags.push(tag);
+    renderEditTags();
+  }
+}
+
+// Existing tags as autocomplete suggestions
+async function loadTagSuggestions() {
+  const tagSuggestions = document.getElementById('tagSuggestions');
+  if (!tagSuggestions) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getTags' });
+    tagSuggestions.innerHTML = (response?.tags || [])
+      .map((tag: string) => `<option value="${escapeHtml(tag)}"></option>`)
+      .join('');
+  } catch (error) {
+    console.error('Failed to load tag suggestions:', error);
+  }
+}
+
+// Replace the tags being edited with fresh AI suggestions for the current text
+async function regenerateTags() {
+  if (!selectedNoteId) return;
+
+  const regenerateTagsBtn = document.getElementById('regenerateTagsBtn') as HTMLButtonElement;
+  const editContent = document.getElementById('editContent') as HTMLTextAreaElement;
+  if (regenerateTagsBtn) {
+    regenerateTagsBtn.disabled = true;
+    regenerateTagsBtn.textContent = 'Generating...';
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'suggestTags',
+      data: { id: selectedNoteId, content: editContent?.value || '' }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    editTags = response.tags;
+    renderEditTags();
+  } catch (error) {
+    console.error('Tag generation error:', error);
+    alert('Failed to generate tags. Please try again.');
+  } finally {
+    if (regenerateTagsBtn) {
+      regenerateTagsBtn.disabled = false;
+      regenerateTagsBtn.textContent = 'Regenerate with AI';
+    }
+  }
+}
+
+async function saveNoteEdit() {
+  if (!selectedNoteId) return;
+
+  const editTitle = document.getElementById('editTitle') as HTMLInputElement;
+  const editContent = document.getElementById('editContent') as HTMLTextAreaElement;
+  const editTagInput = document.getElementById('editTagInput') as HTMLInputElement;
+  const saveEditBtn = document.getElementById('saveEditBtn') as HTMLButtonElement;
+
+  // A tag typed but not yet added still counts
+  if (editTagInput?.value.trim()) {
+    addEditTag(editTagInput.value);
+    editTagInput.value = '';
+  }
+
+  if (!editContent?.value.trim()) {
+    alert('Note content cannot be empty.');
+    return;
+  }
+
+  if (saveEditBtn) {
+    saveEditBtn.disabled = true;
+    saveEditBtn.textContent = 'Saving...';
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'updateNote',
+      data: {
+        id: selectedNoteId,
+        updates: {
+          title: editTitle?.value,
+          content: editContent.value,
+          tags: editTags,
+          annotation: {
+            reason: (document.getElementById('editReason') as HTMLInputElement)?.value,
+            comment: (document.getElementById('editComment') as HTMLTextAreaElement)?.value,
+            rating: Number((document.getElementById('editRating') as HTMLSelectElement)?.value || 0)
+          }
+        }
+      }
+    });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+
+    showNoteDetail(response.note);
+    refreshCurrentView();
+  } catch (error) {
+    console.error('Update note error:', error);
+    alert('Failed to save the note. Please try again.');
+  } finally {
+    if (saveEditBtn) {
+      saveEditBtn.disabled = false;
+      saveEditBtn.textContent = 'Save';
+    }
+  }
 }
 
 async function askQuestion(question: string) {
@@ -376,10 +1831,14 @@ async function askQuestion(question: string) {
   answerText.textContent = 'Thinking...';
 
   try {
+    // Answer from this note alone rather than searching all notes
     const response = await chrome.runtime.sendMessage({
       action: 'askQuestion',
-      data: { question }
+      data: { question, noteIds: [selectedNoteId] }
     });
+    if (response?.error) {
+      throw new Error(response.error);
+    }
 
     answerText.textContent = response.answer;
   } catch (error) {
@@ -410,7 +1869,27 @@ function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
-function formatAIResponse(text: string): string {
+// YouTube sources open at the cited moment, other notes in the detail modal
+async function openSource(source: any) {
+  if (source.isYouTube && source.url) {
+    chrome.tabs.create({ url: source.url });
+    return;
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getNote', data: { id: source.id } });
+    if (response?.note) {
+      showNoteDetail({ ...response.note, matchUrl: source.url });
+    } else if (source.url) {
+      // The note was deleted since the answer was written
+      chrome.tabs.create({ url: source.url });
+    }
+  } catch (error) {
+    console.error('Failed to open cited note:', error);
+  }
+}
+
+function formatAIResponse(text: string, sources?: any[]): string {
   // Escape HTML first for safety
   const escaped = escapeHtml(text);
   
@@ -427,6 +1906,15 @@ function formatAIResponse(text: string): string {
     
     // Handle single line breaks within paragraphs
     processed = processed.replace(/\n/g, '<br>');
+
+    // Turn [1] or [1, 2] citations into markers for the matching sources
+    if (sources && sources.length > 0) {
+      processed = processed.replace(CITATION_PATTERN, (match, numbers: string) => {
+        const valid = numbers.split(',').map(Number).filter(n => n >= 1 && n <= sources.length);
+        if (valid.length === 0) return match;
+        return valid.map(n => `<button class="citation" data-source="${n}">${n}</button>`).join('');
+      });
+    }
     
     // Wrap in paragraph tag
     return `<p>${processed}</p>`;
@@ -0,0 +1,47 @@
+// Personal annotations: cleaning user input and mixing annotations into search
+import { NoteAnnotation } from '../storage/storage-interface';
+import { normalizeVector } from './vector-utils';
+
+// Share of a passage embedding that comes from the note's annotation
+export const ANNOTATION_EMBEDDING_WEIGHT = 0.35;
+// Each annotation word counts this many times in keyword ranking, since the user wrote it on purpose
+export const ANNOTATION_TERM_WEIGHT = 2;
+
+export const MAX_RATING = 5;
+
+// Trim the fields and drop empty ones; undefined when nothing is left
+export function cleanAnnotation(input: any): NoteAnnotation | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const annotation: NoteAnnotation = {};
+  const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+  const comment = typeof input.comment === 'string' ? input.comment.trim() : '';
+  const rating = Math.round(Number(input.rating));
+
+  if (reason) annotation.reason = reason;
+  if (comment) annotation.comment = comment;
+  if (rating >= 1 && rating <= MAX_RATING) annotation.rating = rating;
+
+  return Object.keys(annotation).length > 0 ? annotation : undefined;
+}
+
+// Searchable text of an annotation; the rating is metadata, not text
+export function annotationText(annotation?: NoteAnnotation): string {
+  if (!annotation) return '';
+  return [annotation.reason, annotation.comment].filter(Boolean).join('\n');
+}
+
+export function sameAnnotation(a?: NoteAnnotation, b?: NoteAnnotation): boolean {
+  return (a?.reason || '') === (b?.reason || '') &&
+    (a?.comment || '') === (b?.comment || '') &&
+    (a?.rating || 0) === (b?.rating || 0);
+}
+
+// Pull a passage embedding towards the annotation without letting it outweigh the captured text
+export function blendAnnotationEmbedding(passage: number[], annotation: number[]): number[] {
+  if (passage.length !== annotation.length) return passage;
+
+  const a = normalizeVector(passage);
+  const b = normalizeVector(annotation);
+  return normalizeVector(a.map((value, i) => (1 - ANNOTATION_EMBEDDING_WEIGHT) * value + ANNOTATION_EMBEDDING_WEIGHT * b[i]));
+}
@@ -0,0 +1,91 @@
+// Versioned JSON backup format - every note field, embeddings and passages included
+import { Collection, Note, NoteChunk } from '../storage/storage-interface';
+
+export const BACKUP_FORMAT = 'squirrel-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupChunk = Omit<NoteChunk, 'id' | 'noteId'>;
+
+export interface BackupNote extends Note {
+  chunks: BackupChunk[];
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  storageBackend: 'indexdb' | 'supabase'; // Backend the backup was taken from
+  notes: BackupNote[];
+  collections: Collection[]; // Missing from backups taken before collections
+}
+
+// What to do when a restored note's id already exists
+export type ConflictMode = 'skip' | 'overwrite' | 'duplicate';
+
+// Upgrade steps keyed by the version they upgrade from; add one whenever BACKUP_VERSION is bumped
+const MIGRATIONS: Record<number, (backup: any) => any> = {};
+
+export function createBackup(notes: BackupNote[], storageBackend: Backup['storageBackend'], collections: Collection[] = []): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    storageBackend,
+    notes,
+    collections
+  };
+}
+
+// Parse and validate a backup file, upgrading older versions to the current one
+export function parseBackup(json: string): Backup {
+  let backup: any;
+  try {
+    backup = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT || !Array.isArray(backup.notes)) {
+    throw new Error('Not a Squirrel backup file');
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${backup.version} is newer than this version of Squirrel supports`);
+  }
+
+  for (let version = backup.version; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No upgrade path from backup version ${version}`);
+    }
+    backup = { ...migrate(backup), version: version + 1 };
+  }
+
+  return {
+    ...backup,
+    notes: backup.notes.map(normalizeBackupNote),
+    collections: Array.isArray(backup.collections) ? backup.collections : []
+  };
+}
+
+// Fill in fields that hand-edited or partial backups may be missing
+function normalizeBackupNote(note: any, index: number): BackupNote {
+  if (!note || typeof note.id !== 'string' || typeof note.content !== 'string') {
+    throw new Error(`Backup note ${index + 1} is missing its id or content`);
+  }
+
+  const createdAt = typeof note.createdAt === 'number' ? note.createdAt : Date.now();
+  return {
+    ...note,
+    embedding: Array.isArray(note.embedding) ? note.embedding : [],
+    tags: Array.isArray(note.tags) ? note.tags : [],
+    source: {
+      url: '',
+      title: '',
+      timestamp: createdAt,
+      ...note.source
+    },
+    createdAt,
+    updatedAt: typeof note.updatedAt === 'number' ? note.updatedAt : createdAt,
+    chunks: Array.isArray(note.chunks) ? note.chunks : []
+  };
+}
@@ -0,0 +1,96 @@
+// Saved chat conversations, kept in chrome.storage.local so they can be reopened from the side panel
+import { ChatTurn } from '../ai/ai-interface';
+
+export interface ChatMessage extends ChatTurn {
+  sources?: any[]; // Notes the answer was based on, as shown under the message
+}
+
+// What a chat answer may draw on: notes picked by the user, a collection, or (by default) everything
+export interface ChatScope {
+  noteIds?: string[];
+  collectionId?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  scope?: ChatScope; // As of the latest exchange, so a reopened thread keeps answering from the same notes
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChatThreadSummary = Omit<ChatThread, 'messages'> & { messageCount: number };
+
+const THREADS_KEY = 'chatThreads';
+const MAX_THREADS = 50; // Oldest threads are dropped beyond this
+const TITLE_LENGTH = 60;
+
+export class ChatThreadStore {
+  private static async load(): Promise<ChatThread[]> {
+    const result = await chrome.storage.local.get(THREADS_KEY);
+    return result[THREADS_KEY] || [];
+  }
+
+  private static async save(threads: ChatThread[]): Promise<void> {
+    const kept = threads.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_THREADS);
+    await chrome.storage.local.set({ [THREADS_KEY]: kept });
+  }
+
+  // Newest first, without messages
+  static async list(): Promise<ChatThreadSummary[]> {
+    const threads = await this.load();
+    return threads
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ messages, ...thread }) => ({ ...thread, messageCount: messages.length }));
+  }
+
+  static async get(id: string): Promise<ChatThread | null> {
+    const threads = await this.load();
+    return threads.find(thread => thread.id === id) || null;
+  }
+
+  // Add a question and its answer, starting a new thread named after the question when threadId is null
+  static async appendExchange(
+    threadId: string | null,
+    question: string,
+    answer: string,
+    sources: any[],
+    scope: ChatScope = {}
+  ): Promise<ChatThread> {
+    const threads = await this.load();
+    const now = Date.now();
+
+    let thread = threadId ? threads.find(t => t.id === threadId) : undefined;
+    if (!thread) {
+      thread = { id: crypto.randomUUID(), title: threadTitle(question), messages: [], createdAt: now, updatedAt: now };
+      threads.push(thread);
+    }
+
+    thread.messages.push({ role: 'user', content: question }, { role: 'ai', content: answer, sources });
+    thread.scope = scope;
+    thread.updatedAt = now;
+    await this.save(threads);
+    return thread;
+  }
+
+  static async rename(id: string, title: string): Promise<void> {
+    const threads = await this.load();
+    const thread = threads.find(t => t.id === id);
+    if (!thread) {
+      throw new Error(`Chat thread ${id} not found`);
+    }
+    thread.title = title.trim() || thread.title;
+    await this.save(threads);
+  }
+
+  static async delete(id: string): Promise<void> {
+    const threads = await this.load();
+    await this.save(threads.filter(thread => thread.id !== id));
+  }
+}
+
+function threadTitle(question: string): string {
+  const title = question.trim().replace(/\s+/g, ' ');
+  return title.length > TITLE_LENGTH ? title.substring(0, TITLE_LENGTH) + '...' : title;
+}
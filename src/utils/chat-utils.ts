@@ -0,0 +1,68 @@
+// Helpers for chat: trimming history, turning follow-ups into standalone questions and reading citations
+import { ChatTurn } from '../ai/ai-interface';
+
+const MAX_HISTORY_TURNS = 6;
+const MAX_TURN_LENGTH = 600;
+
+// Added to every answer prompt; the context lists notes as [1], [2], ...
+export const CITATION_INSTRUCTION = 'Cite the notes you use by their number in square brackets, like [1] or [1][3], right after the sentence that uses them. Only cite numbers from the context.';
+
+// Citations written as [1], [1][2] or [1, 2]
+export const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// The last few turns, shortened so long answers don't crowd out the notes in the prompt
+export function recentTurns(history: ChatTurn[]): ChatTurn[] {
+  return history.slice(-MAX_HISTORY_TURNS).map(turn => ({
+    role: turn.role,
+    content: turn.content.length > MAX_TURN_LENGTH ? turn.content.substring(0, MAX_TURN_LENGTH) + '...' : turn.content
+  }));
+}
+
+export function formatChatHistory(history: ChatTurn[]): string {
+  return recentTurns(history)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+}
+
+// The earlier turns for an answer prompt, so follow-up questions can refer back to previous answers
+export function conversationSection(history: ChatTurn[]): string {
+  return history.length > 0 ? `Conversation so far:\n${formatChatHistory(history)}\n\n` : '';
+}
+
+// Prompt asking the model to resolve references like "the second one" against the conversation
+export function buildStandaloneQuestionPrompt(history: ChatTurn[], question: string): string {
+  return `Rewrite the follow-up question so it can be understood without the conversation, for searching the user's notes. Replace pronouns and references like "the second one" with what they refer to. Output ONLY the rewritten question.
+
+Conversation:
+${formatChatHistory(history)}
+
+Follow-up question: ${question}
+
+Standalone question:`;
+}
+
+// Strip quotes and labels models like to wrap the rewritten question in
+export function cleanStandaloneQuestion(text: string): string {
+  return text
+    .trim()
+    .replace(/^(standalone question|rewritten question|question):\s*/i, '')
+    .replace(/^["'](.*)["']$/s, '$1')
+    .trim();
+}
+
+// Source numbers the answer actually cites, ignoring numbers with no matching source
+export function extractCitations(answer: string, sourceCount: number): Set<number> {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    match[1].split(',').map(Number).forEach(number => {
+      if (number >= 1 && number <= sourceCount) cited.add(number);
+    });
+  }
+  return cited;
+}
+
+// Flag each numbered source with whether the answer cited it
+export function markCitedSources<T extends { number: number }>(answer: string, sources: T[]): (T & { cited: boolean })[] {
+  const cited = extractCitations(answer, sources.length);
+  return sources.map(source => ({ ...source, cited: cited.has(source.number) }));
+}
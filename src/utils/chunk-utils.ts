@@ -0,0 +1,114 @@
+// Text chunking utility - splits long content into overlapping passages for embedding
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  start: number; // Character offset into the original text
+  end: number;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number; // Max characters per chunk
+  overlap?: number; // Characters carried over from the previous chunk
+}
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(chunkSize / 2));
+
+  if (!text.trim()) return [];
+  if (text.length <= chunkSize) {
+    return [{ index: 0, ...trimmedSlice(text, 0, text.length) }];
+  }
+
+  const spans = splitSentences(text, chunkSize);
+  const chunks: TextChunk[] = [];
+  let first = 0;
+
+  while (first < spans.length) {
+    // Greedily take sentences until the chunk is full
+    let last = first;
+    while (last + 1 < spans.length && spans[last + 1].end - spans[first].start <= chunkSize) {
+      last++;
+    }
+
+    const end = spans[last].end;
+    chunks.push({ index: chunks.length, ...trimmedSlice(text, spans[first].start, end) });
+
+    if (last === spans.length - 1) break;
+
+    // Start the next chunk with trailing sentences that fit in the overlap window,
+    // as long as the next unseen sentence still fits after them
+    let next = last + 1;
+    while (
+      next - 1 > first &&
+      end - spans[next - 1].start <= overlap &&
+      spans[last + 1].end - spans[next - 1].start <= chunkSize
+    ) {
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks
+    .filter(chunk => chunk.content.length > 0)
+    .map((chunk, index) => ({ ...chunk, index }));
+}
+
+// Slice text[start, end) without its surrounding whitespace, keeping the offsets in step with the content
+function trimmedSlice(text: string, start: number, end: number): Span & { content: string } {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { content: text.slice(start, end), start, end };
+}
+
+// Split text into sentence/paragraph spans, hard-wrapping any span longer than maxLength
+function splitSentences(text: string, maxLength: number): Span[] {
+  const spans: Span[] = [];
+  const pattern = /[^.!?\n]*(?:[.!?]+["')\]]*|\n+|$)\s*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      if (pattern.lastIndex > text.length) break;
+      continue;
+    }
+
+    const start = match.index;
+    const end = start + match[0].length;
+    if (end - start <= maxLength) {
+      spans.push({ start, end });
+    } else {
+      spans.push(...wrapSpan(text, start, end, maxLength));
+    }
+  }
+
+  return spans;
+}
+
+function wrapSpan(text: string, start: number, end: number, maxLength: number): Span[] {
+  const spans: Span[] = [];
+  let cursor = start;
+
+  while (cursor < end) {
+    let cut = Math.min(cursor + maxLength, end);
+    if (cut < end) {
+      // Prefer breaking on whitespace
+      const space = text.lastIndexOf(' ', cut);
+      if (space > cursor) cut = space + 1;
+    }
+    spans.push({ start: cursor, end: cut });
+    cursor = cut;
+  }
+
+  return spans;
+}
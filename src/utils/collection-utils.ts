@@ -0,0 +1,68 @@
+// Collection trees: nesting, manual ordering, and which notes a collection covers
+import { Collection, Note } from '../storage/storage-interface';
+
+export const MAX_COLLECTION_NAME_LENGTH = 80;
+
+export function cleanCollectionName(name: unknown): string {
+  const cleaned = typeof name === 'string' ? name.replace(/\s+/g, ' ').trim() : '';
+  if (!cleaned) {
+    throw new Error('Collection name is empty');
+  }
+  return cleaned.slice(0, MAX_COLLECTION_NAME_LENGTH);
+}
+
+// Siblings in their manual order; ties (from two devices adding at once) fall back to creation time
+export function childCollections(collections: Collection[], parentId: string | null): Collection[] {
+  return collections
+    .filter(collection => collection.parentId === parentId)
+    .sort((a, b) => a.order - b.order || a.createdAt - b.createdAt);
+}
+
+// The collection and everything nested under it; a loop of parents is walked once
+export function collectionSubtree(collections: Collection[], id: string): string[] {
+  const ids = [id];
+  const seen = new Set(ids);
+  for (let i = 0; i < ids.length; i++) {
+    for (const collection of collections) {
+      if (collection.parentId === ids[i] && !seen.has(collection.id)) {
+        seen.add(collection.id);
+        ids.push(collection.id);
+      }
+    }
+  }
+  return ids;
+}
+
+// Whether filing the collection under the parent would make it its own ancestor
+export function createsCollectionCycle(collections: Collection[], id: string, parentId: string | null): boolean {
+  const seen = new Set<string>();
+  let current = parentId;
+  while (current && current !== id && !seen.has(current)) {
+    seen.add(current);
+    current = collections.find(collection => collection.id === current)?.parentId ?? null;
+  }
+  return current === id;
+}
+
+// "Parent / Child" for labels
+export function collectionPath(collections: Collection[], id: string): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = collections.find(collection => collection.id === id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = collections.find(collection => collection.id === current!.parentId);
+  }
+  return names.join(' / ');
+}
+
+export function inCollections(note: Note, collectionIds: string[]): boolean {
+  return !!note.collectionIds?.some(id => collectionIds.includes(id));
+}
+
+// Position after the last sibling
+export function nextCollectionOrder(collections: Collection[], parentId: string | null): number {
+  const siblings = childCollections(collections, parentId);
+  return siblings.length > 0 ? siblings[siblings.length - 1].order + 1 : 0;
+}
@@ -1,18 +1,58 @@
 // Configuration types and utilities
 export interface AppConfig {
   storageBackend: 'indexdb' | 'supabase';
+  mirrorStorage: boolean; // Also write every change to the other backend
   aiProvider: 'chrome' | 'openai' | 'gemini';
   supabaseUrl?: string;
   supabaseKey?: string;
   openaiKey?: string;
   geminiKey?: string;
+  youtubeClipWindow: number; // Seconds of transcript kept around the saved moment (0 = whole transcript)
+  noteSummaries: boolean; // Write a TL;DR and key points for long notes as they are saved
+  quickAnnotate: boolean; // Offer to annotate a selection right after saving it
+  pageHighlights: boolean; // Highlight saved selections when their page is visited again
+  duplicateCheck: boolean; // Ask before saving a selection or clip that matches a saved note
+  duplicateThreshold: number; // Cosine similarity at which two notes count as near-duplicates
+  reviewQueue: boolean; // Bring saved notes back for review on a spaced-repetition schedule
+  reviewDailyLimit: number; // Most notes to review in a day
+  digestFrequency: 'off' | 'daily' | 'weekly'; // How often to write a digest of recently saved notes
+  searchMode: 'keyword' | 'hybrid';
+  similarityFloor: number; // Minimum cosine similarity for semantic matches in hybrid search
+  retrievalTopK: number; // Notes given to the AI for each chat question
+  retrievalContextBudget: number; // Characters of note text in each chat prompt
+  retrievalRerank: boolean; // Ask the AI to reorder candidate notes before answering
+  retrievalQueryFilters: boolean; // Read source type, tag, date and domain filters from chat questions
 }
 
 export const DEFAULT_CONFIG: AppConfig = {
   storageBackend: 'indexdb',
-  aiProvider: 'chrome'
+  mirrorStorage: false,
+  aiProvider: 'chrome',
+  youtubeClipWindow: 60,
+  noteSummaries: true,
+  quickAnnotate: true,
+  pageHighlights: true,
+  duplicateCheck: true,
+  duplicateThreshold: 0.95,
+  reviewQueue: true,
+  reviewDailyLimit: 10,
+  digestFrequency: 'weekly',
+  searchMode: 'hybrid',
+  similarityFloor: 0.35,
+  retrievalTopK: 5,
+  retrievalContextBudget: 3000,
+  retrievalRerank: false,
+  retrievalQueryFilters: true
 };
 
+// Characters of note text a provider's chat prompt can hold; Chrome's on-device model has a small context window
+export const PROVIDER_CONTEXT_LIMITS: Partial<Record<AppConfig['aiProvider'], number>> = { chrome: 3000 };
+
+// A chat context budget, cut down to what the provider can read
+export function clampContextBudget(budget: number, aiProvider: AppConfig['aiProvider']): number {
+  return Math.min(budget, PROVIDER_CONTEXT_LIMITS[aiProvider] ?? Infinity);
+}
+
 export class ConfigManager {
   static async getConfig(): Promise<AppConfig> {
     const result = await chrome.storage.sync.get('config');
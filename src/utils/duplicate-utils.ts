@@ -0,0 +1,176 @@
+// Duplicate detection: exact copies by source and content hash, near-duplicates by embedding similarity
+import { NewNote, Note, NoteAnnotation, NoteSource } from '../storage/storage-interface';
+import { cosineSimilarity, isCompatibleEmbedding } from './vector-utils';
+import { cleanTags } from './tag-utils';
+
+export type DuplicateKind = 'exact' | 'similar';
+
+export interface DuplicateMatch {
+  noteId: string;
+  kind: DuplicateKind;
+  similarity: number; // 1 for exact copies
+}
+
+// What to do with a new note that matches one already saved
+export type DuplicateResolution = 'merge' | 'replace' | 'keep-both';
+
+// Notes that repeat each other, found by the bulk scan
+export interface DuplicateCluster {
+  noteIds: string[];
+  kind: DuplicateKind; // 'exact' only when every note is a copy of the others
+  similarity: number; // Weakest link that joined the cluster
+}
+
+// The parts of a note that merging combines
+export type MergeableNote = Pick<Note, 'content' | 'tags' | 'source'> & Partial<Pick<Note, 'annotation' | 'collectionIds'>>;
+
+// The video for clips, so the same clip saved at another moment still counts; otherwise the URL without its #fragment
+export function sourceKey(source: NoteSource): string {
+  return source.videoId ? `youtube:${source.videoId}` : source.url.split('#')[0];
+}
+
+// Re-selecting the same text rarely catches exactly the same whitespace or case
+export function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export async function contentHash(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeContent(content)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function duplicateKey(note: Pick<Note, 'content' | 'source'>): Promise<string> {
+  return `${sourceKey(note.source)} ${await contentHash(note.content)}`;
+}
+
+// Candidates that are exact copies of the note or similar enough to count as the same thing, closest first
+export async function findDuplicatesOf(note: NewNote, candidates: Note[], threshold: number): Promise<DuplicateMatch[]> {
+  const key = await duplicateKey(note);
+  const matches = new Map<string, DuplicateMatch>();
+
+  for (const candidate of candidates) {
+    if (matches.has(candidate.id)) continue;
+
+    if (await duplicateKey(candidate) === key) {
+      matches.set(candidate.id, { noteId: candidate.id, kind: 'exact', similarity: 1 });
+      continue;
+    }
+
+    const similarity = isCompatibleEmbedding(candidate, note.embedding, note.embeddingModel)
+      ? cosineSimilarity(note.embedding, candidate.embedding)
+      : 0;
+    if (similarity >= threshold) {
+      matches.set(candidate.id, { noteId: candidate.id, kind: 'similar', similarity });
+    }
+  }
+
+  return [...matches.values()].sort((a, b) => b.similarity - a.similarity);
+}
+
+// Group notes into clusters of duplicates. Near-duplicates are looked for only among each note's nearest
+// neighbours, which the vector index finds without comparing every pair of notes
+export async function clusterDuplicates(notes: Note[], threshold: number, nearestTo: (note: Note) => Promise<Note[]>): Promise<DuplicateCluster[]> {
+  const indexById = new Map(notes.map((note, i) => [note.id, i]));
+  const parent = notes.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const links: { a: number; b: number; similarity: number }[] = [];
+  const link = (a: number, b: number, similarity: number) => {
+    links.push({ a, b, similarity });
+    parent[find(a)] = find(b);
+  };
+
+  const firstByKey = new Map<string, number>();
+  const keys = await Promise.all(notes.map(note => duplicateKey(note)));
+  keys.forEach((key, i) => {
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, i);
+    } else {
+      link(first, i, 1);
+    }
+  });
+
+  // Each pair once, whichever of the two found the other
+  const compared = new Set<string>();
+  for (let a = 0; a < notes.length; a++) {
+    for (const neighbour of await nearestTo(notes[a])) {
+      const b = indexById.get(neighbour.id);
+      if (b === undefined || b === a || keys[a] === keys[b]) continue;
+      const pair = a < b ? `${a}:${b}` : `${b}:${a}`;
+      if (compared.has(pair)) continue;
+      compared.add(pair);
+
+      if (!isCompatibleEmbedding(notes[b], notes[a].embedding, notes[a].embeddingModel)) continue;
+      const similarity = cosineSimilarity(notes[a].embedding, notes[b].embedding);
+      if (similarity >= threshold) link(a, b, similarity);
+    }
+  }
+
+  const clusters = new Map<number, { members: Set<number>; exact: boolean; similarity: number }>();
+  for (const { a, b, similarity } of links) {
+    const root = find(a);
+    const cluster = clusters.get(root) || { members: new Set<number>(), exact: true, similarity: 1 };
+    cluster.members.add(a).add(b);
+    cluster.exact = cluster.exact && keys[a] === keys[b];
+    cluster.similarity = Math.min(cluster.similarity, similarity);
+    clusters.set(root, cluster);
+  }
+
+  return [...clusters.values()]
+    .map(cluster => ({
+      // In the order the notes were given, whichever link was found first
+      noteIds: [...cluster.members].sort((a, b) => a - b).map(i => notes[i].id),
+      kind: (cluster.exact ? 'exact' : 'similar') as DuplicateKind,
+      similarity: cluster.similarity
+    }))
+    .sort((a, b) => b.similarity - a.similarity || b.noteIds.length - a.noteIds.length);
+}
+
+function mergeAnnotations(a?: NoteAnnotation, b?: NoteAnnotation): NoteAnnotation | undefined {
+  if (!a || !b) return a || b;
+
+  const comments = [a.comment, b.comment].filter((comment, i, all): comment is string => !!comment && all.indexOf(comment) === i);
+  const rating = Math.max(a.rating || 0, b.rating || 0);
+  return {
+    ...(a.reason || b.reason ? { reason: a.reason || b.reason } : {}),
+    ...(comments.length > 0 ? { comment: comments.join('\n\n') } : {}),
+    ...(rating > 0 ? { rating } : {})
+  };
+}
+
+// Fold another note into the target: text that one already contains is kept once, otherwise the other's
+// text is appended. Tags, collections and annotations are combined; the target keeps its source
+export function mergeNotes(target: MergeableNote, other: MergeableNote): MergeableNote {
+  const targetText = normalizeContent(target.content);
+  const otherText = normalizeContent(other.content);
+
+  let content = target.content;
+  let source = target.source;
+  if (otherText.includes(targetText) && otherText !== targetText) {
+    content = other.content;
+    source = { ...other.source, ...(target.source.anchor && { anchor: target.source.anchor }) };
+  } else if (!targetText.includes(otherText)) {
+    content = `${target.content}\n\n${other.content}`;
+
+    // Captions of a clip appended from the same video keep pointing at their moments
+    if (target.source.transcriptSegments && other.source.transcriptSegments && target.source.videoId === other.source.videoId) {
+      const shift = target.content.length + 2;
+      source = {
+        ...source,
+        transcriptSegments: [
+          ...target.source.transcriptSegments,
+          ...other.source.transcriptSegments.map(segment => ({ ...segment, offset: segment.offset + shift }))
+        ]
+      };
+    }
+  }
+
+  const collectionIds = [...new Set([...(target.collectionIds || []), ...(other.collectionIds || [])])];
+  return {
+    content,
+    source,
+    tags: cleanTags([...target.tags, ...other.tags]),
+    annotation: mergeAnnotations(target.annotation, other.annotation),
+    collectionIds: collectionIds.length > 0 ? collectionIds : undefined
+  };
+}
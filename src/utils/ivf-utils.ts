@@ -0,0 +1,85 @@
+// Inverted file (IVF) helpers for approximate nearest-neighbour search
+// Vectors are grouped around k-means centroids; a query only scans the clusters closest to it
+import { cosineSimilarity, normalizeVector } from './vector-utils';
+
+// Max vectors used to train centroids; assignment still covers every vector
+export const IVF_MAX_TRAINING_SAMPLE = 5000;
+export const IVF_TRAINING_ITERATIONS = 10;
+
+// sqrt(n) clusters is the usual IVF rule of thumb
+export function chooseClusterCount(vectorCount: number): number {
+  return Math.max(1, Math.min(1024, Math.round(Math.sqrt(vectorCount))));
+}
+
+// Number of clusters scanned per query; higher means better recall but slower search
+export function chooseProbeCount(clusterCount: number): number {
+  return Math.min(clusterCount, Math.max(4, Math.ceil(clusterCount * 0.1)));
+}
+
+// Spherical k-means: centroids are unit vectors and assignment uses cosine similarity
+export function trainCentroids(
+  vectors: number[][],
+  clusterCount: number,
+  iterations: number = IVF_TRAINING_ITERATIONS,
+  random: () => number = Math.random
+): number[][] {
+  const sample = sampleVectors(vectors, IVF_MAX_TRAINING_SAMPLE, random).map(normalizeVector);
+  if (sample.length === 0) return [];
+
+  let centroids = sampleVectors(sample, Math.min(clusterCount, sample.length), random);
+  const dimensions = centroids[0].length;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(() => new Array(dimensions).fill(0));
+    const counts = new Array(centroids.length).fill(0);
+
+    sample.forEach(vector => {
+      const [nearest] = nearestCentroids(vector, centroids, 1);
+      counts[nearest]++;
+      const sum = sums[nearest];
+      for (let i = 0; i < dimensions && i < vector.length; i++) {
+        sum[i] += vector[i];
+      }
+    });
+
+    // Empty clusters keep their previous centroid
+    centroids = sums.map((sum, i) => counts[i] > 0 ? normalizeVector(sum) : centroids[i]);
+  }
+
+  return centroids;
+}
+
+// Indices of the n centroids most similar to the query, best first
+export function nearestCentroids(query: number[], centroids: number[][], n: number): number[] {
+  if (n === 1) {
+    // Linear scan avoids sorting when assigning a single vector
+    let best = 0;
+    let bestSimilarity = -Infinity;
+    centroids.forEach((centroid, index) => {
+      const similarity = cosineSimilarity(query, centroid);
+      if (similarity > bestSimilarity) {
+        best = index;
+        bestSimilarity = similarity;
+      }
+    });
+    return centroids.length > 0 ? [best] : [];
+  }
+
+  return centroids
+    .map((centroid, index) => ({ index, similarity: cosineSimilarity(query, centroid) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, n)
+    .map(result => result.index);
+}
+
+function sampleVectors(vectors: number[][], size: number, random: () => number): number[][] {
+  if (vectors.length <= size) return vectors.slice();
+
+  // Partial Fisher-Yates shuffle over indices
+  const indices = vectors.map((_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (indices.length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).map(i => vectors[i]);
+}
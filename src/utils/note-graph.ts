@@ -0,0 +1,137 @@
+// Graph of the hoard: notes linked to their nearest neighbours and to notes sharing specific tags, grouped into clusters
+import { Note } from '../storage/storage-interface';
+import { RelatedNote } from './related-notes';
+import { SOURCE_TAGS } from './tag-utils';
+
+export interface GraphNode {
+  id: string;
+  title: string;
+  tags: string[];
+  type?: Note['source']['type'];
+  cluster: number; // Largest cluster first; notes with no links get a cluster of their own
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  weight: number; // Similarity, plus a little for every shared tag
+  kind: 'similar' | 'tags' | 'both';
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const TAG_WEIGHT = 0.15; // Added to a link for every tag the two notes share
+const MAX_TAG_NOTES = 15; // Tags on more notes than this are too broad to say two notes belong together
+const LABEL_ROUNDS = 20;
+
+export function buildNoteGraph(notes: Note[], related: Map<string, RelatedNote[]>): NoteGraph {
+  const ids = new Set(notes.map(note => note.id));
+  const edges = new Map<string, GraphEdge>();
+  const edgeFor = (a: string, b: string) => {
+    const key = a < b ? `${a} ${b}` : `${b} ${a}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source: a < b ? a : b, target: a < b ? b : a, weight: 0, kind: 'similar' };
+      edges.set(key, edge);
+    }
+    return edge;
+  };
+
+  // Neighbour lists are not symmetric, so a link counts once whichever side found it
+  const linked = new Set<string>();
+  for (const [noteId, neighbours] of related) {
+    if (!ids.has(noteId)) continue;
+    for (const neighbour of neighbours) {
+      if (!ids.has(neighbour.noteId)) continue;
+      const edge = edgeFor(noteId, neighbour.noteId);
+      const key = `${edge.source} ${edge.target}`;
+      if (linked.has(key)) continue;
+      linked.add(key);
+      edge.weight += neighbour.similarity;
+    }
+  }
+
+  const notesByTag = new Map<string, string[]>();
+  for (const note of notes) {
+    for (const tag of note.tags) {
+      if (SOURCE_TAGS.has(tag)) continue;
+      notesByTag.set(tag, [...(notesByTag.get(tag) || []), note.id]);
+    }
+  }
+  for (const tagged of notesByTag.values()) {
+    if (tagged.length < 2 || tagged.length > MAX_TAG_NOTES) continue;
+    for (let i = 0; i < tagged.length; i++) {
+      for (let j = i + 1; j < tagged.length; j++) {
+        const edge = edgeFor(tagged[i], tagged[j]);
+        if (edge.weight === 0) {
+          edge.kind = 'tags';
+        } else if (edge.kind === 'similar') {
+          edge.kind = 'both';
+        }
+        edge.weight += TAG_WEIGHT;
+      }
+    }
+  }
+
+  const edgeList = [...edges.values()];
+  const clusters = labelClusters(notes.map(note => note.id), edgeList);
+
+  return {
+    nodes: notes.map(note => ({
+      id: note.id,
+      title: note.source.title || note.source.url,
+      tags: note.tags,
+      type: note.source.type,
+      cluster: clusters.get(note.id)!
+    })),
+    edges: edgeList
+  };
+}
+
+// Weighted label propagation: every note takes the label most strongly held by its neighbours until nothing changes
+function labelClusters(ids: string[], edges: GraphEdge[]): Map<string, number> {
+  const neighbours = new Map<string, { id: string; weight: number }[]>(ids.map(id => [id, []]));
+  for (const edge of edges) {
+    neighbours.get(edge.source)!.push({ id: edge.target, weight: edge.weight });
+    neighbours.get(edge.target)!.push({ id: edge.source, weight: edge.weight });
+  }
+
+  const labels = new Map(ids.map((id, i) => [id, i]));
+  // Well-connected notes first, so clusters grow from their centres; ties keep the input order
+  const order = [...ids].sort((a, b) => neighbours.get(b)!.length - neighbours.get(a)!.length);
+
+  for (let round = 0; round < LABEL_ROUNDS; round++) {
+    let changed = false;
+    for (const id of order) {
+      const strength = new Map<number, number>();
+      for (const neighbour of neighbours.get(id)!) {
+        const label = labels.get(neighbour.id)!;
+        strength.set(label, (strength.get(label) || 0) + neighbour.weight);
+      }
+
+      let best = labels.get(id)!;
+      let bestStrength = strength.get(best) || 0;
+      for (const [label, value] of strength) {
+        if (value > bestStrength || (value === bestStrength && label < best)) {
+          best = label;
+          bestStrength = value;
+        }
+      }
+      if (best !== labels.get(id)) {
+        labels.set(id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  // Number clusters by size so colours stay stable for the biggest groups
+  const sizes = new Map<number, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) || 0) + 1));
+  const ranked = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const rank = new Map(ranked.map((label, i) => [label, i]));
+  return new Map(ids.map(id => [id, rank.get(labels.get(id)!)!]));
+}
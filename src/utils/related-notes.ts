@@ -0,0 +1,74 @@
+// Each note's nearest neighbours, worked out when it is saved and kept in IndexedDB
+import Dexie, { Table } from 'dexie';
+import { Note } from '../storage/storage-interface';
+import { cosineSimilarity, isCompatibleEmbedding } from './vector-utils';
+
+export interface RelatedNote {
+  noteId: string;
+  similarity: number;
+}
+
+export interface RelatedEntry {
+  embeddingModel?: string; // Neighbours found with another model are stale once the note is re-embedded
+  related: RelatedNote[]; // Closest first
+  updatedAt: number;
+}
+
+export const RELATED_LIMIT = 8;
+
+// A database of their own works whichever backend holds the notes, and keeps them out of chrome.storage.local,
+// whose quota is shared with chat threads, the review queue and the tag taxonomy
+class RelatedNotesDatabase extends Dexie {
+  related!: Table<RelatedEntry & { noteId: string }, string>;
+
+  constructor() {
+    super('AINotesRelated');
+    this.version(1).stores({
+      related: 'noteId'
+    });
+  }
+}
+
+const db = new RelatedNotesDatabase();
+
+export class RelatedNotesStore {
+  static async get(noteIds: string[]): Promise<Map<string, RelatedEntry>> {
+    if (noteIds.length === 0) return new Map();
+    const rows = await db.related.bulkGet(noteIds);
+    return new Map(rows
+      .filter((row): row is RelatedEntry & { noteId: string } => !!row)
+      .map(({ noteId, ...entry }) => [noteId, entry]));
+  }
+
+  static async set(entries: Map<string, RelatedEntry>): Promise<void> {
+    if (entries.size === 0) return;
+    await db.related.bulkPut([...entries].map(([noteId, entry]) => ({ ...entry, noteId })));
+  }
+
+  static async remove(noteIds: string[]): Promise<void> {
+    await db.related.bulkDelete(noteIds);
+  }
+
+  static async clear(): Promise<void> {
+    await db.related.clear();
+  }
+}
+
+// The candidates closest to the note in meaning, leaving out ones below the similarity floor
+export function nearestNotes(note: Note, candidates: Note[], floor: number, limit: number = RELATED_LIMIT): RelatedNote[] {
+  return candidates
+    .filter(candidate => candidate.id !== note.id && isCompatibleEmbedding(candidate, note.embedding, note.embeddingModel))
+    .map(candidate => ({ noteId: candidate.id, similarity: cosineSimilarity(note.embedding, candidate.embedding) }))
+    .filter(neighbour => neighbour.similarity >= floor)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+// A neighbour list with the note added or moved to its new place, or null when it doesn't make the cut
+export function withNeighbour(related: RelatedNote[], neighbour: RelatedNote, limit: number = RELATED_LIMIT): RelatedNote[] | null {
+  const others = related.filter(existing => existing.noteId !== neighbour.noteId);
+  if (others.length >= limit && others[others.length - 1].similarity >= neighbour.similarity) {
+    return null;
+  }
+  return [...others, neighbour].sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
@@ -0,0 +1,193 @@
+// Review: notes resurface on a spaced-repetition curve, and a periodic digest sums up what was saved lately
+import { Note } from '../storage/storage-interface';
+import { SOURCE_TAGS } from './tag-utils';
+import { TagTaxonomy, canonicalTag, tagAncestors } from './tag-taxonomy';
+
+// Archive takes a note out of review for good
+export type ReviewGrade = 'remember' | 'forgot' | 'archive';
+
+export interface ReviewCard {
+  noteId: string;
+  dueAt: number;
+  interval: number; // Days between the last review and the next one
+  ease: number; // What the interval is multiplied by each time the note is remembered
+  streak: number; // Times remembered in a row
+  lapses: number;
+  lastReviewedAt?: number;
+  archived?: boolean;
+}
+
+export interface DigestTopic {
+  topic: string;
+  noteIds: string[];
+}
+
+export interface ReviewDigest {
+  id: string;
+  frequency: 'daily' | 'weekly';
+  from: number; // Notes saved from here...
+  to: number; // ...up to here
+  text: string;
+  topics: DigestTopic[];
+  createdAt: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DIGEST_PERIOD_MS: Record<ReviewDigest['frequency'], number> = { daily: DAY_MS, weekly: 7 * DAY_MS };
+
+const FIRST_INTERVAL_DAYS = 1; // A new or forgotten note comes back the next day
+const SECOND_INTERVAL_DAYS = 3;
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+const FORGOT_EASE_PENALTY = 0.2;
+const MAX_INTERVAL_DAYS = 365;
+
+const MAX_TOPICS = 6; // Smaller groups beyond this go under "Other"
+const DIGEST_EXCERPT_LENGTH = 200;
+
+const SCHEDULE_KEY = 'reviewSchedule';
+const DIGESTS_KEY = 'reviewDigests';
+const MAX_DIGESTS = 10; // Older digests are dropped beyond this
+
+export class ReviewStore {
+  // Notes that were never reviewed have no card yet
+  static async getCards(): Promise<Record<string, ReviewCard>> {
+    const result = await chrome.storage.local.get(SCHEDULE_KEY);
+    return result[SCHEDULE_KEY] || {};
+  }
+
+  static async saveCards(cards: Record<string, ReviewCard>): Promise<void> {
+    await chrome.storage.local.set({ [SCHEDULE_KEY]: cards });
+  }
+
+  // Newest first
+  static async getDigests(): Promise<ReviewDigest[]> {
+    const result = await chrome.storage.local.get(DIGESTS_KEY);
+    return result[DIGESTS_KEY] || [];
+  }
+
+  static async addDigest(digest: ReviewDigest): Promise<void> {
+    const digests = [digest, ...(await this.getDigests())].slice(0, MAX_DIGESTS);
+    await chrome.storage.local.set({ [DIGESTS_KEY]: digests });
+  }
+
+  static async clear(): Promise<void> {
+    await chrome.storage.local.remove([SCHEDULE_KEY, DIGESTS_KEY]);
+  }
+}
+
+// A note's first review is the day after it was saved, so older notes are due as soon as review starts
+export function newCard(note: Pick<Note, 'id' | 'createdAt'>): ReviewCard {
+  return {
+    noteId: note.id,
+    dueAt: note.createdAt + FIRST_INTERVAL_DAYS * DAY_MS,
+    interval: FIRST_INTERVAL_DAYS,
+    ease: START_EASE,
+    streak: 0,
+    lapses: 0
+  };
+}
+
+// Remembered notes come back after 3 days, then at ease-times-longer intervals; forgotten ones start over and grow more slowly
+export function gradeCard(card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewCard {
+  if (grade === 'archive') {
+    return { ...card, archived: true, lastReviewedAt: now };
+  }
+
+  if (grade === 'forgot') {
+    return {
+      ...card,
+      dueAt: now + FIRST_INTERVAL_DAYS * DAY_MS,
+      interval: FIRST_INTERVAL_DAYS,
+      ease: Math.max(MIN_EASE, card.ease - FORGOT_EASE_PENALTY),
+      streak: 0,
+      lapses: card.lapses + 1,
+      lastReviewedAt: now
+    };
+  }
+
+  const interval = card.streak === 0 ? SECOND_INTERVAL_DAYS : Math.min(MAX_INTERVAL_DAYS, Math.round(card.interval * card.ease));
+  return {
+    ...card,
+    dueAt: now + interval * DAY_MS,
+    interval,
+    streak: card.streak + 1,
+    lastReviewedAt: now
+  };
+}
+
+// Due notes, most overdue first, with each card, new or saved
+export function dueNotes(notes: Note[], cards: Record<string, ReviewCard>, now: number = Date.now()): { note: Note; card: ReviewCard }[] {
+  return notes
+    .map(note => ({ note, card: cards[note.id] || newCard(note) }))
+    .filter(({ card }) => !card.archived && card.dueAt <= now)
+    .sort((a, b) => a.card.dueAt - b.card.dueAt);
+}
+
+export function startOfDay(now: number = Date.now()): number {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+// Each note's topic is the broadest tag over its most shared tag, so a digest groups "react" notes under "javascript"
+export function groupByTopic(notes: Note[], taxonomy: TagTaxonomy): DigestTopic[] {
+  const topicOf = (tag: string) => {
+    const canonical = canonicalTag(taxonomy, tag);
+    const ancestors = tagAncestors(taxonomy, canonical);
+    return ancestors.length > 0 ? ancestors[ancestors.length - 1] : canonical;
+  };
+
+  const counts = new Map<string, number>();
+  const noteTopics = notes.map(note => {
+    const topics = [...new Set(note.tags.filter(tag => !SOURCE_TAGS.has(tag)).map(topicOf))];
+    topics.forEach(topic => counts.set(topic, (counts.get(topic) || 0) + 1));
+    return topics;
+  });
+
+  const groups = new Map<string, string[]>();
+  notes.forEach((note, i) => {
+    const topic = noteTopics[i].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b))[0] || '';
+    groups.set(topic, [...(groups.get(topic) || []), note.id]);
+  });
+
+  const ranked = [...groups.entries()]
+    .filter(([topic]) => topic)
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const kept = ranked.slice(0, MAX_TOPICS);
+  const grouped = new Set(kept.flatMap(([, noteIds]) => noteIds));
+  const other = notes.map(note => note.id).filter(noteId => !grouped.has(noteId));
+
+  return [
+    ...kept.map(([topic, noteIds]) => ({ topic, noteIds })),
+    ...(other.length > 0 ? [{ topic: 'Other', noteIds: other }] : [])
+  ];
+}
+
+function digestLine(note: Note): string {
+  const title = note.source.title || note.source.url;
+  const text = note.summary?.tldr || note.content.replace(/\s+/g, ' ').substring(0, DIGEST_EXCERPT_LENGTH);
+  return `${title}: ${text}`;
+}
+
+export function buildDigestPrompt(frequency: ReviewDigest['frequency'], topics: DigestTopic[], notesById: Map<string, Note>): string {
+  const sections = topics
+    .map(({ topic, noteIds }) => `Topic: ${topic}\n${noteIds.map(noteId => `- ${digestLine(notesById.get(noteId)!)}`).join('\n')}`)
+    .join('\n\n');
+
+  return `Write a short ${frequency} digest of the notes the user saved ${frequency === 'daily' ? 'today' : 'this week'}, grouped by topic.
+For each topic, write the topic name on its own line, then 1-3 sentences on what the notes cover and how they connect.
+End with one sentence suggesting what might be worth revisiting. Use plain text, no markdown.
+
+${sections}`;
+}
+
+// Used when the AI can't write one: the topics with the titles saved under each
+export function plainDigest(topics: DigestTopic[], notesById: Map<string, Note>): string {
+  return topics
+    .map(({ topic, noteIds }) => `${topic}\n${noteIds.map(noteId => {
+      const note = notesById.get(noteId)!;
+      return `• ${note.source.title || note.source.url}`;
+    }).join('\n')}`)
+    .join('\n\n');
+}
@@ -0,0 +1,40 @@
+// Tokenization and rank fusion utilities for full-text and hybrid search
+
+export interface RankedResult<T> {
+  item: T;
+  score: number;
+}
+
+// Reciprocal rank fusion constant; larger values flatten the advantage of top ranks
+export const RRF_K = 60;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+// Merge several rankings of the same items: score = sum of 1 / (k + rank) over every list an item appears in
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  getKey: (item: T) => string,
+  k: number = RRF_K
+): RankedResult<T>[] {
+  const fused = new Map<string, RankedResult<T>>();
+
+  rankings.forEach(ranking => {
+    ranking.forEach((item, rank) => {
+      const key = getKey(item);
+      const existing = fused.get(key);
+      const contribution = 1 / (k + rank + 1);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(key, { item, score: contribution });
+      }
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,141 @@
+// Note summaries: a one-line TL;DR and key points, written by the AI or picked out of the text
+import { NoteSummary } from '../storage/storage-interface';
+import { chunkText } from './chunk-utils';
+
+export const SUMMARY_MIN_LENGTH = 600; // Shorter notes read faster than a summary of them
+export const SUMMARY_INPUT_LENGTH = 12000; // Characters the AI reads per prompt; longer notes are summarized in parts
+
+const MAX_SUMMARY_PARTS = 8; // Prompts per summary, besides the one combining them
+
+const MAX_KEY_POINTS = 5;
+const TLDR_LENGTH = 200;
+const MAX_SENTENCE_WORDS = 40; // Captions often have no punctuation, so longer runs are cut into pieces
+const PIECE_WORDS = 25;
+
+export const SUMMARY_INSTRUCTION = `Summarize the text for someone deciding whether to read it again.
+Reply in exactly this format and nothing else:
+TL;DR: <one sentence of at most 25 words>
+- <key point>
+- <key point>
+Give 3-5 key points, each a short sentence. Use only what the text says.`;
+
+export function buildSummaryPrompt(content: string, limit: number = SUMMARY_INPUT_LENGTH): string {
+  return `${SUMMARY_INSTRUCTION}
+
+Text:
+${content.substring(0, limit)}`;
+}
+
+// Long notes are summarized part by part and the part summaries summarized in turn, so a long transcript is read to
+// the end. summarizeText sends at most `limit` characters of text to the model, with the instruction, and returns its reply
+export async function summarizeInParts(
+  content: string,
+  limit: number,
+  summarizeText: (text: string) => Promise<string>
+): Promise<NoteSummary | null> {
+  if (content.length <= limit) return parseSummary(await summarizeText(content));
+
+  const parts = evenlySpaced(chunkText(content, { chunkSize: limit, overlap: 0 }), MAX_SUMMARY_PARTS);
+  const summaries: NoteSummary[] = [];
+  // One at a time, to stay within provider rate limits
+  for (const part of parts) {
+    const summary = parseSummary(await summarizeText(part.content));
+    if (summary) summaries.push(summary);
+  }
+  if (summaries.length <= 1) return summaries[0] || null;
+  return parseSummary(await summarizeText(partSummariesText(summaries, limit)));
+}
+
+// Each part gets an equal share of the limit, so the last parts aren't the ones cut off
+function partSummariesText(summaries: NoteSummary[], limit: number): string {
+  const heading = 'Summaries of the consecutive parts of one long text, in order:';
+  const share = Math.floor((limit - heading.length) / summaries.length) - 2;
+  return [heading, ...summaries.map((summary, i) =>
+    `Part ${i + 1}: ${summary.tldr}\n${summary.keyPoints.map(point => `- ${point}`).join('\n')}`.substring(0, share))]
+    .join('\n\n');
+}
+
+// At most `count` items spread from the first to the last, so a very long note is still sampled from start to end
+function evenlySpaced<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.round(i * (items.length - 1) / (count - 1))]);
+}
+
+// Cut at a word boundary so a long TL;DR still fits on a card
+function oneLine(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (line.length <= TLDR_LENGTH) return line;
+  const cut = line.lastIndexOf(' ', TLDR_LENGTH);
+  return `${line.substring(0, cut > 0 ? cut : TLDR_LENGTH)}…`;
+}
+
+// Reads the TL;DR line and the bullets; a model that leaves out the label gets its first line taken as the TL;DR
+export function parseSummary(text: string): NoteSummary | null {
+  let tldr = '';
+  const keyPoints: string[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/\*\*/g, '').trim();
+    if (!line) continue;
+
+    const labelled = line.match(/^(?:tl;?\s?dr|summary)\s*[:\-–]\s*(.*)$/i);
+    const bullet = line.match(/^(?:[-*•]|\d+[.)])\s+(.*)$/);
+    if (labelled && !tldr) {
+      tldr = labelled[1];
+    } else if (bullet) {
+      keyPoints.push(bullet[1].trim());
+    } else if (!tldr && !/^key points?:?$/i.test(line)) {
+      tldr = line;
+    }
+  }
+
+  if (!tldr) return null;
+  return { tldr: oneLine(tldr), keyPoints: keyPoints.filter(Boolean).slice(0, MAX_KEY_POINTS) };
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .flatMap(sentence => {
+      const words = sentence.trim().split(/\s+/).filter(Boolean);
+      if (words.length <= MAX_SENTENCE_WORDS) return [words.join(' ')];
+      const pieces: string[] = [];
+      for (let i = 0; i < words.length; i += PIECE_WORDS) {
+        pieces.push(words.slice(i, i + PIECE_WORDS).join(' '));
+      }
+      return pieces;
+    })
+    .filter(sentence => sentence.length >= 20);
+}
+
+function sentenceWords(sentence: string): string[] {
+  return sentence.toLowerCase().match(/[\p{L}\p{N}']{4,}/gu) || [];
+}
+
+// Without a model: the sentences whose words recur most across the note. The best one is the TL;DR
+// and the runners-up, in reading order, the key points
+export function extractiveSummary(content: string): NoteSummary {
+  const sentences = splitSentences(content);
+  if (sentences.length === 0) {
+    return { tldr: oneLine(content), keyPoints: [] };
+  }
+
+  const frequency = new Map<string, number>();
+  sentences.forEach(sentence => {
+    sentenceWords(sentence).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1));
+  });
+
+  // Square root of the length, so long sentences don't win just by having more words
+  const scores = sentences.map(sentence => {
+    const words = sentenceWords(sentence);
+    const unique = [...new Set(words)];
+    return words.length > 0 ? unique.reduce((sum, word) => sum + frequency.get(word)!, 0) / Math.sqrt(words.length) : 0;
+  });
+
+  const ranked = sentences.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+  const [best, ...rest] = ranked.slice(0, MAX_KEY_POINTS + 1);
+  return {
+    tldr: oneLine(sentences[best]),
+    keyPoints: rest.sort((a, b) => a - b).map(i => sentences[i])
+  };
+}
@@ -0,0 +1,259 @@
+// Tag taxonomy: synonyms folded into one canonical tag, and parent tags filing narrower tags under broader ones
+import { Note } from '../storage/storage-interface';
+import { cosineSimilarity } from './vector-utils';
+import { SOURCE_TAGS } from './tag-utils';
+
+export interface TagTaxonomy {
+  synonyms: Record<string, string>; // Alias -> canonical tag; aliases are rewritten on save, so notes never carry them
+  parents: Record<string, string>; // Tag -> the broader tag it is filed under
+}
+
+// A tag as the tag manager lists it
+export interface TagSummary {
+  tag: string;
+  count: number;
+  parent?: string;
+  aliases: string[];
+}
+
+export interface TagStatistics {
+  counts: Map<string, number>;
+  together: Map<string, Map<string, number>>; // Notes carrying both tags
+}
+
+export interface TagSuggestion {
+  kind: 'merge' | 'parent';
+  tag: string; // The tag merged away, or the narrower one
+  into: string; // The tag it is merged into, or the parent it belongs under
+  score: number;
+  reason: string;
+}
+
+const TAXONOMY_KEY = 'tagTaxonomy';
+
+const MERGE_SCORE = 0.75; // Blend of name and company similarity a merge suggestion needs
+const NAME_WEIGHT = 0.7; // The rest comes from the other tags the two keep company with
+const MIN_NAME_SIMILARITY = 0.6;
+const MAX_SHARED_SHARE = 0.5; // Tags given together on most of their notes mean different things
+const PARENT_SHARE = 0.8; // Share of a tag's notes that carry the broader tag too
+const PARENT_MIN_NOTES = 3;
+const PARENT_BREADTH = 2; // A parent is on at least this many times as many notes
+const MAX_SUGGESTIONS = 30;
+
+export class TagTaxonomyStore {
+  static async get(): Promise<TagTaxonomy> {
+    const result = await chrome.storage.local.get(TAXONOMY_KEY);
+    return { synonyms: {}, parents: {}, ...result[TAXONOMY_KEY] };
+  }
+
+  static async save(taxonomy: TagTaxonomy): Promise<void> {
+    await chrome.storage.local.set({ [TAXONOMY_KEY]: taxonomy });
+  }
+}
+
+// Follows alias chains; a chain looping back on itself stops where it started repeating
+export function canonicalTag(taxonomy: TagTaxonomy, tag: string): string {
+  const seen = new Set<string>();
+  while (taxonomy.synonyms[tag] && !seen.has(tag)) {
+    seen.add(tag);
+    tag = taxonomy.synonyms[tag];
+  }
+  return tag;
+}
+
+export function applySynonyms(taxonomy: TagTaxonomy, tags: string[]): string[] {
+  return [...new Set(tags.map(tag => canonicalTag(taxonomy, tag)))];
+}
+
+// Parent, grandparent and so on, nearest first
+export function tagAncestors(taxonomy: TagTaxonomy, tag: string): string[] {
+  const ancestors: string[] = [];
+  let parent = taxonomy.parents[tag];
+  while (parent && parent !== tag && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = taxonomy.parents[parent];
+  }
+  return ancestors;
+}
+
+export function canSetParent(taxonomy: TagTaxonomy, tag: string, parent: string): boolean {
+  return parent !== tag && !tagAncestors(taxonomy, parent).includes(tag);
+}
+
+// The tag with every tag filed under it, at any depth, so a filter on a broad tag finds the narrower ones too
+export function tagFamily(taxonomy: TagTaxonomy, tag: string): string[] {
+  const family = [canonicalTag(taxonomy, tag)];
+  for (let i = 0; i < family.length; i++) {
+    for (const [child, parent] of Object.entries(taxonomy.parents)) {
+      if (parent === family[i] && !family.includes(child)) family.push(child);
+    }
+  }
+  return family;
+}
+
+// Aliases and children follow a tag to its new name
+export function renameInTaxonomy(taxonomy: TagTaxonomy, from: string, to: string): TagTaxonomy {
+  const synonyms: Record<string, string> = {};
+  for (const [alias, tag] of Object.entries(taxonomy.synonyms)) {
+    if (alias !== to) synonyms[alias] = tag === from ? to : tag;
+  }
+
+  const parents: Record<string, string> = {};
+  for (const [tag, parent] of Object.entries(taxonomy.parents)) {
+    // The tag renamed onto keeps its own parent over the old one's, and is never filed under its own children
+    if (tag === from && (taxonomy.parents[to] || tagAncestors(taxonomy, parent).includes(to))) continue;
+    const child = tag === from ? to : tag;
+    const renamed = parent === from ? to : parent;
+    if (child !== renamed) parents[child] = renamed;
+  }
+  return { synonyms, parents };
+}
+
+// The old name becomes an alias, so the AI suggesting it again lands on the tag it was merged into
+export function mergeInTaxonomy(taxonomy: TagTaxonomy, from: string, into: string): TagTaxonomy {
+  const merged = renameInTaxonomy(taxonomy, from, into);
+  merged.synonyms[from] = into;
+  return merged;
+}
+
+// Children of a deleted tag move up to its parent; its aliases go with it
+export function removeFromTaxonomy(taxonomy: TagTaxonomy, tag: string): TagTaxonomy {
+  const parentOfTag = taxonomy.parents[tag];
+  const synonyms = Object.fromEntries(Object.entries(taxonomy.synonyms).filter(([, canonical]) => canonical !== tag));
+  const parents: Record<string, string> = {};
+  for (const [child, parent] of Object.entries(taxonomy.parents)) {
+    if (child === tag) continue;
+    if (parent !== tag) {
+      parents[child] = parent;
+    } else if (parentOfTag) {
+      parents[child] = parentOfTag;
+    }
+  }
+  return { synonyms, parents };
+}
+
+export function tagStatistics(notes: Pick<Note, 'tags'>[]): TagStatistics {
+  const counts = new Map<string, number>();
+  const together = new Map<string, Map<string, number>>();
+  for (const note of notes) {
+    const tags = [...new Set(note.tags)];
+    for (const tag of tags) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+      const row = together.get(tag) || new Map<string, number>();
+      for (const other of tags) {
+        if (other !== tag) row.set(other, (row.get(other) || 0) + 1);
+      }
+      together.set(tag, row);
+    }
+  }
+  return { counts, together };
+}
+
+export function summarizeTags(taxonomy: TagTaxonomy, counts: Map<string, number>): TagSummary[] {
+  const aliases = new Map<string, string[]>();
+  for (const [alias, tag] of Object.entries(taxonomy.synonyms)) {
+    aliases.set(tag, [...(aliases.get(tag) || []), alias]);
+  }
+
+  // Parents no note carries any more are still listed, so their children have somewhere to hang
+  const tags = new Set([...counts.keys(), ...Object.keys(taxonomy.parents), ...Object.values(taxonomy.parents)]);
+  return [...tags]
+    .map(tag => ({
+      tag,
+      count: counts.get(tag) || 0,
+      ...(taxonomy.parents[tag] && { parent: taxonomy.parents[tag] }),
+      aliases: (aliases.get(tag) || []).sort()
+    }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Spelling variants: hyphens dropped and a plural s trimmed
+function tagForm(tag: string): string {
+  return tag.replace(/-/g, '').replace(/(\w{3})s$/, '$1');
+}
+
+// How alike two tags' company is: the other tags each is given alongside, compared as vectors
+function companySimilarity(stats: TagStatistics, a: string, b: string): number {
+  const rowA = stats.together.get(a) || new Map<string, number>();
+  const rowB = stats.together.get(b) || new Map<string, number>();
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [tag, count] of rowA) {
+    if (tag === b) continue;
+    normA += count * count;
+    dot += count * (rowB.get(tag) || 0);
+  }
+  for (const [tag, count] of rowB) {
+    if (tag !== a) normB += count * count;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Merges for tags that name the same thing, judged by spelling, by the embeddings of their names and by the
+// tags they appear with; parents for tags that almost always come with a broader one. Best first
+export function suggestTagChanges(
+  taxonomy: TagTaxonomy,
+  stats: TagStatistics,
+  nameEmbeddings: Map<string, number[]>
+): TagSuggestion[] {
+  const tags = [...stats.counts.keys()].filter(tag => !SOURCE_TAGS.has(tag));
+  const count = (tag: string) => stats.counts.get(tag) || 0;
+  const forms = new Map(tags.map(tag => [tag, tagForm(tag)]));
+  const suggestions: TagSuggestion[] = [];
+
+  for (let i = 0; i < tags.length; i++) {
+    for (let j = i + 1; j < tags.length; j++) {
+      const [a, b] = [tags[i], tags[j]];
+      if (tagAncestors(taxonomy, a).includes(b) || tagAncestors(taxonomy, b).includes(a)) continue;
+
+      // The less used tag goes into the more used one
+      const [from, into] = count(a) < count(b) || (count(a) === count(b) && a.length > b.length) ? [a, b] : [b, a];
+      const shared = stats.together.get(a)?.get(b) || 0;
+
+      if (forms.get(a) === forms.get(b)) {
+        suggestions.push({ kind: 'merge', tag: from, into, score: 1, reason: 'Same word, spelled differently' });
+        continue;
+      }
+
+      const vectorA = nameEmbeddings.get(a);
+      const vectorB = nameEmbeddings.get(b);
+      if (vectorA && vectorB && vectorA.length === vectorB.length && shared <= MAX_SHARED_SHARE * Math.min(count(a), count(b))) {
+        const name = cosineSimilarity(vectorA, vectorB);
+        const company = companySimilarity(stats, a, b);
+        const score = NAME_WEIGHT * name + (1 - NAME_WEIGHT) * company;
+        if (name >= MIN_NAME_SIMILARITY && score >= MERGE_SCORE) {
+          suggestions.push({
+            kind: 'merge',
+            tag: from,
+            into,
+            score,
+            reason: `Names ${Math.round(name * 100)}% alike, used with ${Math.round(company * 100)}% the same tags`
+          });
+          continue;
+        }
+      }
+
+      const [narrow, broad] = count(a) < count(b) ? [a, b] : [b, a];
+      if (
+        count(narrow) >= PARENT_MIN_NOTES &&
+        count(broad) >= PARENT_BREADTH * count(narrow) &&
+        shared >= PARENT_SHARE * count(narrow) &&
+        !taxonomy.parents[narrow] &&
+        canSetParent(taxonomy, narrow, broad)
+      ) {
+        suggestions.push({
+          kind: 'parent',
+          tag: narrow,
+          into: broad,
+          score: shared / count(narrow),
+          reason: `${shared} of its ${count(narrow)} notes are also tagged #${broad}`
+        });
+      }
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => Number(a.kind === 'parent') - Number(b.kind === 'parent') || b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+}
@@ -9,6 +9,9 @@ const STOPWORDS = new Set([
   'should', 'may', 'might', 'must', 'shall', 'not', 'no', 'yes', 'so'
 ]);
 
+// Tags that only repeat the source type; the side panel relies on them to tell videos apart
+export const SOURCE_TAGS = new Set(['youtube']);
+
 export function cleanTags(tags: string[]): string[] {
   return tags
     .map(tag => {
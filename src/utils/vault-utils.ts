@@ -0,0 +1,256 @@
+// Markdown vault export/import - one file per note with YAML front-matter, compatible with Obsidian
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { Note, NoteAnnotation, NoteSource, TranscriptSegment } from '../storage/storage-interface';
+import { cleanAnnotation } from './annotation-utils';
+
+// A note read back from a vault file, ready for StorageBackend.saveNote
+export interface VaultNote {
+  fileName: string;
+  content: string;
+  tags: string[];
+  source: NoteSource;
+  annotation?: NoteAnnotation;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+type FrontMatterValue = string | number | string[];
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+// Obsidian-style flat properties for a note
+function buildFrontMatter(note: Note): [string, FrontMatterValue | undefined][] {
+  const { source } = note;
+  return [
+    ['title', source.title],
+    ['tags', note.tags],
+    ['source', source.url],
+    ['type', source.type],
+    ['captured', toIsoDate(source.timestamp)],
+    ['created', toIsoDate(note.createdAt)],
+    ['updated', toIsoDate(note.updatedAt)],
+    ['video_id', source.videoId],
+    ['video_timestamp', source.videoTimestamp],
+    ['channel', source.channel],
+    ['thumbnail', source.thumbnail],
+    // As JSON, so clip timestamps survive a round trip; offsets point into the note body
+    ['transcript_segments', source.transcriptSegments ? JSON.stringify(source.transcriptSegments) : undefined],
+    ['byline', source.byline],
+    ['published', source.publishedAt ? toIsoDate(source.publishedAt) : undefined],
+    ['site_name', source.siteName],
+    ['rating', note.annotation?.rating],
+    ['saved_because', note.annotation?.reason],
+    ['comment', note.annotation?.comment]
+  ];
+}
+
+function toIsoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function formatValue(value: FrontMatterValue): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? '\n' + value.map(item => `  - ${JSON.stringify(item)}`).join('\n') : ' []';
+  }
+  if (typeof value === 'number') return ` ${value}`;
+  // ISO dates stay unquoted so Obsidian recognizes them as date properties
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/.test(value)) return ` ${value}`;
+  // JSON strings are valid double-quoted YAML scalars
+  return ` ${JSON.stringify(value)}`;
+}
+
+export function noteToMarkdown(note: Note): string {
+  const frontMatter = buildFrontMatter(note)
+    .filter((entry): entry is [string, FrontMatterValue] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => `${key}:${formatValue(value)}`)
+    .join('\n');
+
+  return `---\n${frontMatter}\n---\n\n${note.content}\n`;
+}
+
+// Split a Markdown file into its front-matter properties and body
+export function parseFrontMatter(markdown: string): { properties: Record<string, FrontMatterValue>; body: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { properties: {}, body: markdown };
+  }
+
+  const properties: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s*(.*)$/);
+    if (item && listKey) {
+      (properties[listKey] as string[]).push(parseScalar(item[1]));
+      return;
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) return;
+
+    const [, key, raw] = pair;
+    listKey = null;
+    if (raw === '') {
+      // Block list follows on the next lines
+      properties[key] = [];
+      listKey = key;
+    } else if (raw.startsWith('[') && raw.endsWith(']')) {
+      properties[key] = raw.slice(1, -1).split(',').map(parseScalar).filter(Boolean);
+    } else {
+      properties[key] = parseScalar(raw);
+    }
+  });
+
+  return { properties, body: markdown.slice(match[0].length).replace(/^\r?\n/, '') };
+}
+
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function getString(properties: Record<string, FrontMatterValue>, key: string): string | undefined {
+  const value = properties[key];
+  return Array.isArray(value) ? value[0] : value !== undefined ? String(value) : undefined;
+}
+
+function getDate(properties: Record<string, FrontMatterValue>, key: string): number | undefined {
+  const value = getString(properties, key);
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+// Segments that don't parse are dropped; the note still imports without its timestamps
+function getSegments(properties: Record<string, FrontMatterValue>, key: string): TranscriptSegment[] | undefined {
+  const value = getString(properties, key);
+  if (!value) return undefined;
+
+  try {
+    const segments = JSON.parse(value);
+    if (!Array.isArray(segments)) return undefined;
+    const valid = segments.filter((segment): segment is TranscriptSegment =>
+      typeof segment?.start === 'number' && typeof segment.duration === 'number' &&
+      typeof segment.offset === 'number' && typeof segment.text === 'string'
+    );
+    return valid.length > 0 ? valid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Obsidian allows tags as a list, an inline list or a comma/space separated string, with or without '#'
+function getTags(properties: Record<string, FrontMatterValue>): string[] {
+  const value = properties.tags ?? properties.tag;
+  if (value === undefined) return [];
+
+  const tags = Array.isArray(value) ? value : String(value).split(/[,\s]+/);
+  return Array.from(new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+}
+
+export function markdownToNote(markdown: string, fileName: string): VaultNote {
+  const { properties, body } = parseFrontMatter(markdown);
+  const baseName = fileName.split('/').pop()!.replace(/\.md$/i, '');
+  const type = getString(properties, 'type');
+  const videoTimestamp = Number(getString(properties, 'video_timestamp'));
+
+  const createdAt = getDate(properties, 'created');
+  const source: NoteSource = {
+    url: getString(properties, 'source') || getString(properties, 'url') || '',
+    title: getString(properties, 'title') || baseName,
+    timestamp: getDate(properties, 'captured') ?? createdAt ?? Date.now(),
+    type: type === 'youtube' || type === 'article' ? type : undefined,
+    videoId: getString(properties, 'video_id'),
+    videoTimestamp: isNaN(videoTimestamp) ? undefined : videoTimestamp,
+    channel: getString(properties, 'channel'),
+    thumbnail: getString(properties, 'thumbnail'),
+    transcriptSegments: getSegments(properties, 'transcript_segments'),
+    byline: getString(properties, 'byline'),
+    publishedAt: getDate(properties, 'published'),
+    siteName: getString(properties, 'site_name')
+  };
+
+  // Drop unset optional fields so imported notes look like freshly saved ones
+  (Object.keys(source) as (keyof NoteSource)[]).forEach(key => {
+    if (source[key] === undefined) delete source[key];
+  });
+
+  return {
+    fileName,
+    content: body.replace(/\s+$/, ''),
+    tags: getTags(properties),
+    source,
+    annotation: cleanAnnotation({
+      rating: getString(properties, 'rating'),
+      reason: getString(properties, 'saved_because'),
+      comment: getString(properties, 'comment')
+    }),
+    createdAt,
+    updatedAt: getDate(properties, 'updated')
+  };
+}
+
+// File-system safe, unique file name based on the note title
+function noteFileName(note: Note, used: Set<string>): string {
+  const base = (note.source.title || 'Untitled')
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim() || 'Untitled';
+
+  let name = `${base}.md`;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base} ${n}.md`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+export function buildVaultZip(notes: Note[]): Uint8Array {
+  const used = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+
+  notes.forEach(note => {
+    files[noteFileName(note, used)] = strToU8(noteToMarkdown(note));
+  });
+
+  return zipSync(files);
+}
+
+// Every Markdown file in a zipped vault, skipping Obsidian's own config folder
+export function readVaultZip(data: Uint8Array): { fileName: string; markdown: string }[] {
+  const files = unzipSync(data, {
+    filter: file => /\.md$/i.test(file.name) && !file.name.split('/').some(part => part.startsWith('.'))
+  });
+
+  return Object.entries(files).map(([fileName, bytes]) => ({ fileName, markdown: strFromU8(bytes) }));
+}
+
+// Zip files travel between the options page and the service worker as base64 strings
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -5,12 +5,12 @@ export function cosineSimilarity(a: number[], b: number[]): number {
     return 0;
   }
 
-  // If vectors have different lengths, pad or truncate to match
-  const maxLen = Math.max(a.length, b.length);
-  const minLen = Math.min(a.length, b.length);
-  
-  // Use the shorter length to avoid errors
-  const len = minLen;
+  // Vectors of different sizes come from different models and are not comparable
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  const len = a.length;
   
   let dotProduct = 0;
   let normA = 0;
@@ -28,12 +28,36 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / magnitude;
 }
 
+// Whether a stored embedding can be compared with a query embedding from the given model
+// Older items without a recorded model fall back to a dimension check
+export function isCompatibleEmbedding(
+  item: { embedding: number[]; embeddingModel?: string },
+  query: number[],
+  embeddingModel?: string
+): boolean {
+  if (!item.embedding || item.embedding.length !== query.length) return false;
+  return !embeddingModel || !item.embeddingModel || item.embeddingModel === embeddingModel;
+}
+
 export function normalizeVector(vector: number[]): number[] {
   const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
   if (norm === 0) return vector;
   return vector.map(val => val / norm);
 }
 
+export function averageVectors(vectors: number[][]): number[] {
+  const valid = vectors.filter(v => v && v.length > 0);
+  if (valid.length === 0) return [];
+
+  const dimensions = valid[0].length;
+  const sum = new Array(dimensions).fill(0);
+  valid
+    .filter(v => v.length === dimensions)
+    .forEach(v => v.forEach((val, i) => sum[i] += val));
+
+  return normalizeVector(sum);
+}
+
 export interface SimilarityResult<T> {
   item: T;
   similarity: number;
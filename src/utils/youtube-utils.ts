@@ -0,0 +1,63 @@
+// YouTube transcript utilities - clip windows and timestamp deep links
+import { Note, TranscriptSegment } from '../storage/storage-interface';
+
+export interface CaptionSegment {
+  start: number; // Seconds
+  duration: number;
+  text: string;
+}
+
+export function buildVideoUrl(videoId: string, seconds: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
+
+// Keep the captions overlapping [timestamp - window, timestamp + window]; a window of 0 keeps everything
+export function selectClipWindow(segments: CaptionSegment[], timestamp: number, window: number): CaptionSegment[] {
+  if (!window || window <= 0) return segments;
+
+  const from = timestamp - window;
+  const to = timestamp + window;
+  return segments.filter(segment => segment.start + segment.duration >= from && segment.start <= to);
+}
+
+// Join caption segments into transcript text, recording where each segment starts in it
+export function joinSegments(segments: CaptionSegment[], baseOffset: number = 0): {
+  transcript: string;
+  segments: TranscriptSegment[];
+} {
+  const parts: string[] = [];
+  const aligned: TranscriptSegment[] = [];
+  let offset = baseOffset;
+
+  segments.forEach(segment => {
+    const text = segment.text.trim();
+    if (!text) return;
+
+    aligned.push({ ...segment, text, offset });
+    parts.push(text);
+    offset += text.length + 1; // Joined with a single space
+  });
+
+  return { transcript: parts.join(' '), segments: aligned };
+}
+
+// Find the transcript segment containing a character offset of the note content
+export function findSegmentAtOffset(segments: TranscriptSegment[], offset: number): TranscriptSegment | null {
+  let match: TranscriptSegment | null = null;
+  for (const segment of segments) {
+    if (segment.offset > offset) break;
+    match = segment;
+  }
+  return match;
+}
+
+// Deep link to the moment in the video where a character offset of the note falls
+export function getDeepLink(note: Note, offset: number): string {
+  const { videoId, transcriptSegments } = note.source;
+  if (!videoId || !transcriptSegments || transcriptSegments.length === 0) {
+    return note.source.url;
+  }
+
+  const segment = findSegmentAtOffset(transcriptSegments, offset);
+  return segment ? buildVideoUrl(videoId, segment.start) : note.source.url;
+}
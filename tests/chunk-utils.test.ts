@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { chunkText } from '../src/utils/chunk-utils';
+
+const sentences = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} talks about something.`).join(' ');
+
+describe('chunkText', () => {
+  test('keeps short text as one chunk', () => {
+    expect(chunkText('  Just a short note.  ')).toEqual([{ index: 0, content: 'Just a short note.', start: 2, end: 20 }]);
+  });
+
+  test('returns nothing for blank text', () => {
+    expect(chunkText(' \n ')).toEqual([]);
+  });
+
+  test('chunks stay within the size and point back at the original text', () => {
+    const chunks = chunkText(sentences, { chunkSize: 200, overlap: 50 });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(200);
+      expect(sentences.slice(chunk.start, chunk.end)).toBe(chunk.content);
+    });
+  });
+
+  test('covers the whole text, with consecutive chunks overlapping', () => {
+    const chunks = chunkText(sentences, { chunkSize: 200, overlap: 50 });
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(sentences.length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+    }
+  });
+
+  test('without overlap, chunks follow on from each other', () => {
+    const chunks = chunkText(sentences, { chunkSize: 200, overlap: 0 });
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeGreaterThanOrEqual(chunks[i - 1].end);
+      expect(sentences.slice(chunks[i - 1].end, chunks[i].start).trim()).toBe('');
+    }
+  });
+
+  test('hard-wraps text with no sentence breaks', () => {
+    const words = Array.from({ length: 100 }, () => 'word').join(' ');
+    const chunks = chunkText(words, { chunkSize: 120, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.content.length).toBeLessThanOrEqual(120);
+      expect(chunk.content.startsWith('word')).toBe(true);
+      expect(words.slice(chunk.start, chunk.end)).toBe(chunk.content);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  childCollections,
+  cleanCollectionName,
+  collectionPath,
+  collectionSubtree,
+  createsCollectionCycle,
+  nextCollectionOrder
+} from '../src/utils/collection-utils';
+import { Collection } from '../src/storage/storage-interface';
+
+function collection(id: string, parentId: string | null, order: number = 0, createdAt: number = 0): Collection {
+  return { id, name: id.toUpperCase(), parentId, order, createdAt, updatedAt: createdAt };
+}
+
+// work > (projects > (alpha), reading); home
+const tree = [
+  collection('work', null, 0),
+  collection('projects', 'work', 0),
+  collection('alpha', 'projects', 0),
+  collection('reading', 'work', 1),
+  collection('home', null, 1)
+];
+
+// a and b filed under each other, as two devices can leave them after a sync
+const loop = [collection('a', 'b'), collection('b', 'a'), collection('c', 'a')];
+
+describe('collectionSubtree', () => {
+  test('lists the collection and everything nested under it', () => {
+    expect(collectionSubtree(tree, 'work')).toEqual(['work', 'projects', 'reading', 'alpha']);
+    expect(collectionSubtree(tree, 'home')).toEqual(['home']);
+  });
+
+  test('walks a loop of parents once', () => {
+    expect(collectionSubtree(loop, 'a')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('createsCollectionCycle', () => {
+  test('refuses filing a collection under itself or its descendants', () => {
+    expect(createsCollectionCycle(tree, 'work', 'work')).toBe(true);
+    expect(createsCollectionCycle(tree, 'work', 'alpha')).toBe(true);
+  });
+
+  test('allows moves elsewhere and to the top level', () => {
+    expect(createsCollectionCycle(tree, 'alpha', 'home')).toBe(false);
+    expect(createsCollectionCycle(tree, 'projects', null)).toBe(false);
+  });
+
+  test('ends on an existing loop that does not include the collection', () => {
+    expect(createsCollectionCycle(loop, 'home', 'a')).toBe(false);
+  });
+});
+
+describe('collectionPath', () => {
+  test('names every ancestor', () => {
+    expect(collectionPath(tree, 'alpha')).toBe('WORK / PROJECTS / ALPHA');
+  });
+
+  test('stops at a loop of parents', () => {
+    expect(collectionPath(loop, 'a')).toBe('B / A');
+  });
+});
+
+describe('ordering', () => {
+  test('sorts siblings by order, then creation time', () => {
+    const siblings = [collection('x', null, 1, 5), collection('y', null, 0, 9), collection('z', null, 1, 2)];
+    expect(childCollections(siblings, null).map(c => c.id)).toEqual(['y', 'z', 'x']);
+  });
+
+  test('places new collections after the last sibling', () => {
+    expect(nextCollectionOrder(tree, 'work')).toBe(2);
+    expect(nextCollectionOrder(tree, 'alpha')).toBe(0);
+  });
+});
+
+describe('cleanCollectionName', () => {
+  test('collapses whitespace and rejects empty names', () => {
+    expect(cleanCollectionName('  Reading \n list ')).toBe('Reading list');
+    expect(() => cleanCollectionName('   ')).toThrow('Collection name is empty');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { clusterDuplicates, findDuplicatesOf, mergeNotes, normalizeContent, sourceKey } from '../src/utils/duplicate-utils';
+import { Note } from '../src/storage/storage-interface';
+
+function note(id: string, content: string, embedding: number[], url: string = `https://example.com/${id}`): Note {
+  return {
+    id,
+    content,
+    embedding,
+    embeddingModel: 'test',
+    tags: [],
+    source: { url, title: id, timestamp: 0 },
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+// Every note is its own neighbour list, as a search without an index would give
+const everyNote = (notes: Note[]) => async () => notes;
+
+describe('sourceKey and normalizeContent', () => {
+  test('ignores the URL fragment and the clip moment', () => {
+    expect(sourceKey({ url: 'https://example.com/a#intro', title: '', timestamp: 0 })).toBe('https://example.com/a');
+    expect(sourceKey({ url: 'https://youtube.com/watch?v=x&t=30', title: '', timestamp: 0, videoId: 'x' })).toBe('youtube:x');
+  });
+
+  test('ignores case and whitespace differences', () => {
+    expect(normalizeContent('  Hello\n\nWorld ')).toBe('hello world');
+  });
+});
+
+describe('findDuplicatesOf', () => {
+  test('finds exact copies and near-duplicates above the threshold, closest first', async () => {
+    const candidates = [
+      note('copy', 'Hello   WORLD', [0, 1], 'https://example.com/page#top'),
+      note('close', 'Something else', [0.6, 0.8]),
+      note('far', 'Unrelated', [1, 0])
+    ];
+    const matches = await findDuplicatesOf(note('new', 'hello world', [0, 1], 'https://example.com/page'), candidates, 0.75);
+    expect(matches).toEqual([
+      { noteId: 'copy', kind: 'exact', similarity: 1 },
+      { noteId: 'close', kind: 'similar', similarity: expect.closeTo(0.8) }
+    ]);
+  });
+
+  test('does not compare embeddings from another model', async () => {
+    const other = { ...note('other', 'Different text', [0, 1]), embeddingModel: 'other' };
+    expect(await findDuplicatesOf(note('new', 'New text', [0, 1]), [other], 0.5)).toEqual([]);
+  });
+});
+
+describe('clusterDuplicates', () => {
+  test('groups exact copies and near-duplicates, linking through shared neighbours', async () => {
+    const notes = [
+      note('a', 'First', [1, 0]),
+      note('b', 'Second', [0.96, 0.28]),
+      note('c', 'Third', [0.8, 0.6]),
+      note('d', 'Copy', [0, 1], 'https://example.com/same'),
+      note('e', 'copy', [-0.5, 0.5], 'https://example.com/same'),
+      note('f', 'Alone', [-1, 0])
+    ];
+    const clusters = await clusterDuplicates(notes, 0.9, everyNote(notes));
+    expect(clusters).toEqual([
+      { noteIds: ['d', 'e'], kind: 'exact', similarity: 1 },
+      { noteIds: ['a', 'b', 'c'], kind: 'similar', similarity: expect.closeTo(0.936) }
+    ]);
+  });
+
+  test('only compares the neighbours it is given', async () => {
+    const notes = [note('a', 'First', [1, 0]), note('b', 'Second', [1, 0])];
+    expect(await clusterDuplicates(notes, 0.9, async () => [])).toEqual([]);
+    // One side finding the other is enough
+    const clusters = await clusterDuplicates(notes, 0.9, async n => (n.id === 'b' ? [notes[0]] : []));
+    expect(clusters.map(cluster => cluster.noteIds)).toEqual([['a', 'b']]);
+  });
+});
+
+describe('mergeNotes', () => {
+  test('keeps text once when one note contains the other', () => {
+    const target = note('t', 'A short quote', []);
+    const other = note('o', 'Before. A short quote. After.', []);
+    expect(mergeNotes(target, other).content).toBe(other.content);
+    expect(mergeNotes(other, target).content).toBe(other.content);
+  });
+
+  test('appends other text and combines tags, collections and annotations', () => {
+    const target = { ...note('t', 'First part', []), tags: ['react'], collectionIds: ['c1'], annotation: { comment: 'mine', rating: 3 } };
+    const other = { ...note('o', 'Second part', []), tags: ['react', 'hooks'], collectionIds: ['c2'], annotation: { comment: 'theirs', rating: 5 } };
+    expect(mergeNotes(target, other)).toEqual({
+      content: 'First part\n\nSecond part',
+      source: target.source,
+      tags: ['react', 'hooks'],
+      annotation: { comment: 'mine\n\ntheirs', rating: 5 },
+      collectionIds: ['c1', 'c2']
+    });
+  });
+
+  test('shifts the captions of an appended clip of the same video', () => {
+    const segment = { start: 10, duration: 2, text: 'Second part', offset: 0 };
+    const target = { ...note('t', 'First part', []), source: { url: 'u', title: 't', timestamp: 0, videoId: 'v', transcriptSegments: [{ ...segment, text: 'First part' }] } };
+    const other = { ...note('o', 'Second part', []), source: { url: 'u', title: 'o', timestamp: 0, videoId: 'v', transcriptSegments: [segment] } };
+    expect(mergeNotes(target, other).source.transcriptSegments?.map(s => s.offset)).toEqual([0, 12]);
+  });
+});
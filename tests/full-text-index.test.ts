@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { parseQuery } from '../src/storage/full-text-index';
+
+describe('parseQuery', () => {
+  test('treats the last bare word as a prefix while typing', () => {
+    expect(parseQuery('react hoo')).toEqual([
+      { words: ['react'], prefix: false },
+      { words: ['hoo'], prefix: true }
+    ]);
+  });
+
+  test('keeps quoted phrases together and never as a prefix', () => {
+    expect(parseQuery('"state management" redux')).toEqual([
+      { words: ['state', 'management'], prefix: false },
+      { words: ['redux'], prefix: true }
+    ]);
+    expect(parseQuery('redux "state management"')).toEqual([
+      { words: ['redux'], prefix: false },
+      { words: ['state', 'management'], prefix: false }
+    ]);
+  });
+
+  test('a trailing * makes any word a prefix', () => {
+    expect(parseQuery('type* script ')).toEqual([
+      { words: ['type'], prefix: true },
+      { words: ['script'], prefix: true }
+    ]);
+  });
+
+  test('returns nothing for an empty query', () => {
+    expect(parseQuery('  ""  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+// An in-memory stand-in for the Supabase REST API, answering the PostgREST requests SupabaseStorage makes
+// through fetch. Only the parts of the README schema that sync relies on are modelled: primary keys,
+// defaults, the synced_at trigger and the cascade from notes to their passages.
+
+type Row = Record<string, any>;
+
+const PRIMARY_KEYS: Record<string, string> = { note_tombstones: 'note_id' };
+const SYNCED_TABLES = new Set(['notes', 'note_tombstones']);
+
+export class PostgrestStandIn {
+  readonly url = 'http://postgrest.test';
+  readonly key = 'test-key';
+  offline = false;
+  private tables = new Map<string, Row[]>();
+  private clock = Date.UTC(2024, 0, 1);
+  private originalFetch: typeof fetch | null = null;
+
+  install(): void {
+    this.originalFetch = globalThis.fetch;
+    globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => this.handle(input, init)) as typeof fetch;
+  }
+
+  uninstall(): void {
+    if (this.originalFetch) globalThis.fetch = this.originalFetch;
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  private async handle(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    if (this.offline) throw new TypeError('Failed to fetch');
+
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const match = url.pathname.match(/^\/rest\/v1\/(\w+)$/);
+    if (!match) return json({ message: `Unexpected request ${url.pathname}` }, 404);
+
+    const table = match[1];
+    const headers = new Headers(init.headers);
+    const prefer = headers.get('Prefer') || '';
+    const method = (init.method || 'GET').toUpperCase();
+    const body = init.body ? JSON.parse(init.body as string) : null;
+
+    let result: Row[];
+    switch (method) {
+      case 'GET':
+        result = this.select(table, url.searchParams);
+        break;
+      case 'POST':
+        result = this.insert(table, Array.isArray(body) ? body : [body], prefer.includes('resolution=merge-duplicates'));
+        break;
+      case 'PATCH':
+        result = this.filter(table, url.searchParams).map(row => this.write(table, Object.assign(row, body)));
+        break;
+      case 'DELETE':
+        result = this.remove(table, url.searchParams);
+        break;
+      default:
+        return json({ message: `Unexpected method ${method}` }, 405);
+    }
+
+    if (headers.get('Accept') === 'application/vnd.pgrst.object+json') {
+      if (result.length !== 1) {
+        return json({
+          code: 'PGRST116',
+          details: `The result contains ${result.length} rows`,
+          hint: null,
+          message: 'JSON object requested, multiple (or no) rows returned'
+        }, 406);
+      }
+      return json(result[0]);
+    }
+    if (method !== 'GET' && !prefer.includes('return=representation')) {
+      return new Response(null, { status: method === 'POST' ? 201 : 204 });
+    }
+    return json(result);
+  }
+
+  private select(table: string, params: URLSearchParams): Row[] {
+    let rows = this.filter(table, params);
+
+    const order = params.get('order');
+    if (order) {
+      const [column, direction] = order.split('.');
+      const sign = direction === 'desc' ? -1 : 1;
+      rows = [...rows].sort((a, b) => (a[column] < b[column] ? -sign : a[column] > b[column] ? sign : 0));
+    }
+
+    const limit = params.get('limit');
+    return limit ? rows.slice(0, Number(limit)) : rows;
+  }
+
+  private insert(table: string, values: Row[], upsert: boolean): Row[] {
+    const key = primaryKey(table);
+    const rows = this.rows(table);
+
+    return values.map(value => {
+      const existing = value[key] !== undefined ? rows.find(row => row[key] === value[key]) : undefined;
+      if (existing) {
+        if (!upsert) throw new Error(`Duplicate key ${value[key]} in ${table}`);
+        return this.write(table, Object.assign(existing, withoutUndefined(value)));
+      }
+
+      const now = new Date(this.clock).toISOString();
+      const row: Row = { [key]: crypto.randomUUID(), created_at: now, updated_at: now, ...withoutUndefined(value) };
+      rows.push(row);
+      return this.write(table, row);
+    });
+  }
+
+  private remove(table: string, params: URLSearchParams): Row[] {
+    const removed = this.filter(table, params);
+    this.tables.set(table, this.rows(table).filter(row => !removed.includes(row)));
+
+    // note_chunks.note_id references notes(id) on delete cascade
+    if (table === 'notes') {
+      const ids = new Set(removed.map(row => row.id));
+      this.tables.set('note_chunks', this.rows('note_chunks').filter(row => !ids.has(row.note_id)));
+    }
+    return removed;
+  }
+
+  // The touch_synced_at trigger: every write is stamped with a server clock that only moves forward
+  private write(table: string, row: Row): Row {
+    if (SYNCED_TABLES.has(table)) {
+      row.synced_at = new Date(++this.clock).toISOString();
+    }
+    return row;
+  }
+
+  private filter(table: string, params: URLSearchParams): Row[] {
+    const filters = [...params].filter(([column]) => !['select', 'order', 'limit', 'columns', 'on_conflict'].includes(column));
+    return this.rows(table).filter(row => filters.every(([column, condition]) => {
+      const dot = condition.indexOf('.');
+      const [op, value] = [condition.slice(0, dot), condition.slice(dot + 1)];
+      switch (op) {
+        case 'eq':
+          return String(row[column]) === value;
+        case 'gt':
+          return row[column] > value;
+        case 'in':
+          return value.slice(1, -1).split(',').map(item => item.replace(/^"|"$/g, '')).includes(String(row[column]));
+        default:
+          throw new Error(`Unsupported filter ${op}`);
+      }
+    }));
+  }
+}
+
+function primaryKey(table: string): string {
+  return PRIMARY_KEYS[table] || 'id';
+}
+
+function withoutUndefined(value: Row): Row {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined));
+}
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
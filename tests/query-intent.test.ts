@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { classifyQuery, matchesFilters } from '../src/retrieval/query-intent';
+import { Note } from '../src/storage/storage-interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 15, 12).getTime();
+
+function note(overrides: Partial<Note> = {}): Note {
+  return {
+    id: 'n1',
+    content: 'Notes on kubernetes',
+    embedding: [],
+    tags: [],
+    source: { url: 'https://www.example.com/post', title: 'Post', timestamp: NOW },
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides
+  };
+}
+
+describe('classifyQuery', () => {
+  test('browses when only filters are named', () => {
+    expect(classifyQuery('what videos did I save last week?', NOW)).toEqual({
+      intent: 'browse',
+      filters: { sourceType: 'youtube', after: NOW - 7 * DAY_MS },
+      newestFirst: false
+    });
+  });
+
+  test('keeps the topic of questions asking for recent notes', () => {
+    expect(classifyQuery('latest notes about kubernetes', NOW)).toEqual({
+      intent: 'search',
+      filters: {},
+      newestFirst: true
+    });
+  });
+
+  test('browses newest first when recency is all that is asked', () => {
+    const classified = classifyQuery('show me my recent notes', NOW);
+    expect(classified.intent).toBe('browse');
+    expect(classified.newestFirst).toBe(true);
+  });
+
+  test('reads tags, domains and years', () => {
+    const start = new Date(2023, 0, 1).getTime();
+    const end = new Date(2024, 0, 1).getTime();
+    expect(classifyQuery('articles tagged rust from blog.rust-lang.org in 2023', NOW).filters).toEqual({
+      sourceType: 'article',
+      tag: 'rust',
+      domain: 'blog.rust-lang.org',
+      after: start,
+      before: end
+    });
+    expect(classifyQuery('#react hooks', NOW)).toMatchObject({ intent: 'search', filters: { tag: 'react' } });
+  });
+
+  test('yesterday is the whole previous day', () => {
+    const today = new Date(NOW);
+    today.setHours(0, 0, 0, 0);
+    expect(classifyQuery('what did I save yesterday', NOW).filters).toEqual({
+      after: today.getTime() - DAY_MS,
+      before: today.getTime()
+    });
+  });
+});
+
+describe('matchesFilters', () => {
+  test('matches subdomains of a domain filter', () => {
+    expect(matchesFilters(note(), { domain: 'example.com' })).toBe(true);
+    expect(matchesFilters(note({ source: { url: 'https://docs.example.com', title: '', timestamp: NOW } }), { domain: 'example.com' })).toBe(true);
+    expect(matchesFilters(note({ source: { url: 'https://notexample.com', title: '', timestamp: NOW } }), { domain: 'example.com' })).toBe(false);
+  });
+
+  test('a tag filter accepts the narrower tags of its family', () => {
+    expect(matchesFilters(note({ tags: ['react'] }), { tag: 'javascript', tagFamily: ['javascript', 'react'] })).toBe(true);
+    expect(matchesFilters(note({ tags: ['python'] }), { tag: 'javascript', tagFamily: ['javascript', 'react'] })).toBe(false);
+  });
+
+  test('date bounds include the start and exclude the end', () => {
+    expect(matchesFilters(note(), { after: NOW, before: NOW + 1 })).toBe(true);
+    expect(matchesFilters(note(), { before: NOW })).toBe(false);
+  });
+
+  test('youtube notes are told apart by tag or source type', () => {
+    expect(matchesFilters(note({ tags: ['youtube'] }), { sourceType: 'youtube' })).toBe(true);
+    expect(matchesFilters(note(), { sourceType: 'selection' })).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import { DAY_MS, dueNotes, gradeCard, groupByTopic, newCard, plainDigest } from '../src/utils/review-utils';
+import { Note } from '../src/storage/storage-interface';
+
+const NOW = Date.UTC(2024, 5, 15);
+
+function note(id: string, tags: string[] = [], createdAt: number = NOW - 10 * DAY_MS): Note {
+  return {
+    id,
+    content: `Content of ${id}`,
+    embedding: [],
+    tags,
+    source: { url: `https://example.com/${id}`, title: id.toUpperCase(), timestamp: createdAt },
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+describe('gradeCard', () => {
+  test('a new card is due the day after the note was saved', () => {
+    expect(newCard(note('a'))).toMatchObject({ dueAt: NOW - 9 * DAY_MS, interval: 1, streak: 0 });
+  });
+
+  test('remembered notes come back after 3 days, then at growing intervals', () => {
+    const first = gradeCard(newCard(note('a')), 'remember', NOW);
+    expect(first).toMatchObject({ interval: 3, streak: 1, dueAt: NOW + 3 * DAY_MS, lastReviewedAt: NOW });
+    const second = gradeCard(first, 'remember', NOW);
+    expect(second).toMatchObject({ interval: 8, streak: 2 });
+  });
+
+  test('forgotten notes start over with a lower ease', () => {
+    const card = { ...newCard(note('a')), interval: 20, streak: 4, ease: 2.5 };
+    expect(gradeCard(card, 'forgot', NOW)).toMatchObject({ interval: 1, streak: 0, lapses: 1, ease: 2.3, dueAt: NOW + DAY_MS });
+    expect(gradeCard({ ...card, ease: 1.35 }, 'forgot', NOW).ease).toBe(1.3);
+  });
+
+  test('intervals stop growing after a year', () => {
+    const card = { ...newCard(note('a')), interval: 300, streak: 5, ease: 2.5 };
+    expect(gradeCard(card, 'remember', NOW).interval).toBe(365);
+  });
+
+  test('archived notes leave review', () => {
+    const archived = gradeCard(newCard(note('a')), 'archive', NOW);
+    expect(dueNotes([note('a')], { a: archived }, NOW)).toEqual([]);
+  });
+});
+
+describe('dueNotes', () => {
+  test('lists due notes, most overdue first, and skips ones not due yet', () => {
+    const notes = [note('recent', [], NOW - 2 * DAY_MS), note('old', [], NOW - 20 * DAY_MS), note('fresh', [], NOW)];
+    const scheduled = { ...newCard(notes[0]), dueAt: NOW + DAY_MS };
+    expect(dueNotes(notes, {}, NOW).map(({ note }) => note.id)).toEqual(['old', 'recent']);
+    expect(dueNotes(notes, { recent: scheduled }, NOW).map(({ note }) => note.id)).toEqual(['old']);
+  });
+});
+
+describe('groupByTopic', () => {
+  const taxonomy = { synonyms: { js: 'javascript' }, parents: { react: 'javascript' } };
+
+  test('groups notes under the broadest tag of their most shared tag', () => {
+    const notes = [
+      note('a', ['react', 'youtube']),
+      note('b', ['js']),
+      note('c', ['cooking']),
+      note('d', ['youtube']),
+      note('e', ['cooking', 'react'])
+    ];
+    expect(groupByTopic(notes, taxonomy)).toEqual([
+      { topic: 'javascript', noteIds: ['a', 'b', 'e'] },
+      { topic: 'cooking', noteIds: ['c'] },
+      { topic: 'Other', noteIds: ['d'] }
+    ]);
+  });
+
+  test('plain digests list the titles under each topic', () => {
+    const notes = [note('a', ['react']), note('b', ['react'])];
+    const byId = new Map(notes.map(n => [n.id, n]));
+    expect(plainDigest(groupByTopic(notes, taxonomy), byId)).toBe('javascript\n• A\n• B');
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, test } from 'bun:test';
+import { reciprocalRankFusion, tokenize } from '../src/utils/search-utils';
+
+describe('tokenize', () => {
+  test('lowercases and splits on anything but letters and digits', () => {
+    expect(tokenize('Hello, World! ES2020 café')).toEqual(['hello', 'world', 'es2020', 'café']);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  test('ranks items found by both lists above items found by one', () => {
+    const fused = reciprocalRankFusion([['a', 'b'], ['c', 'a']], id => id);
+    expect(fused.map(result => result.item)).toEqual(['a', 'c', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+});
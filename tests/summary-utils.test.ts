@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { buildSummaryPrompt, extractiveSummary, parseSummary, summarizeInParts } from '../src/utils/summary-utils';
+
+const reply = (tldr: string) => `TL;DR: ${tldr}\n- First point\n- Second point`;
+
+describe('parseSummary', () => {
+  test('reads the TL;DR line and the bullets', () => {
+    expect(parseSummary('**TL;DR:** A note about caching.\n\nKey points:\n- Cache reads\n2. Expire writes\n* Measure')).toEqual({
+      tldr: 'A note about caching.',
+      keyPoints: ['Cache reads', 'Expire writes', 'Measure']
+    });
+  });
+
+  test('takes the first line when the label is missing', () => {
+    expect(parseSummary('A note about caching.\n- Cache reads')).toEqual({ tldr: 'A note about caching.', keyPoints: ['Cache reads'] });
+  });
+
+  test('returns null without a TL;DR and cuts long ones at a word', () => {
+    expect(parseSummary('- Only a bullet')).toBeNull();
+    const tldr = parseSummary(`TL;DR: ${'word '.repeat(60)}`)!.tldr;
+    expect(tldr.length).toBeLessThanOrEqual(201);
+    expect(tldr.endsWith('word…')).toBe(true);
+  });
+});
+
+describe('buildSummaryPrompt', () => {
+  test('cuts the text at the limit', () => {
+    expect(buildSummaryPrompt('abcdef', 3).endsWith('Text:\nabc')).toBe(true);
+  });
+});
+
+describe('summarizeInParts', () => {
+  test('summarizes text within the limit in one call', async () => {
+    const calls: string[] = [];
+    const summary = await summarizeInParts('Short text.', 100, async text => {
+      calls.push(text);
+      return reply('Short');
+    });
+    expect(calls).toEqual(['Short text.']);
+    expect(summary?.tldr).toBe('Short');
+  });
+
+  test('summarizes long text part by part to the end, then combines the parts', async () => {
+    const content = Array.from({ length: 30 }, (_, i) => `Sentence ${i} of the transcript.`).join(' ');
+    const calls: string[] = [];
+    const summary = await summarizeInParts(content, 200, async text => {
+      calls.push(text);
+      return reply(`Summary ${calls.length}`);
+    });
+
+    const combined = calls[calls.length - 1];
+    expect(calls.length).toBeGreaterThan(2);
+    calls.forEach(call => expect(call.length).toBeLessThanOrEqual(200));
+    expect(calls[calls.length - 2]).toContain('Sentence 29');
+    expect(combined).toContain('Part 1: Summary 1');
+    expect(summary?.tldr).toBe(`Summary ${calls.length}`);
+  });
+
+  test('samples at most eight parts from start to end', async () => {
+    const content = Array.from({ length: 200 }, (_, i) => `Sentence ${i} of the transcript.`).join(' ');
+    const calls: string[] = [];
+    await summarizeInParts(content, 200, async text => {
+      calls.push(text);
+      return reply('Part');
+    });
+    expect(calls.length).toBe(9);
+    expect(calls[0]).toContain('Sentence 0 ');
+    expect(calls[7]).toContain('Sentence 199');
+  });
+
+  test('returns the only part summary that parsed, without combining', async () => {
+    const content = Array.from({ length: 30 }, (_, i) => `Sentence ${i} of the transcript.`).join(' ');
+    let call = 0;
+    const summary = await summarizeInParts(content, 200, async () => (++call === 1 ? reply('Only one') : ''));
+    expect(summary?.tldr).toBe('Only one');
+  });
+});
+
+describe('extractiveSummary', () => {
+  test('picks the sentence whose words recur most as the TL;DR, and the rest in reading order', () => {
+    const summary = extractiveSummary(
+      'Caching speeds up repeated reads considerably. ' +
+      'The weather was pleasant that afternoon outside. ' +
+      'Caching repeated reads. ' +
+      'Repeated reads from caching save database load.'
+    );
+    expect(summary).toEqual({
+      tldr: 'Caching repeated reads.',
+      keyPoints: [
+        'Caching speeds up repeated reads considerably.',
+        'The weather was pleasant that afternoon outside.',
+        'Repeated reads from caching save database load.'
+      ]
+    });
+  });
+
+  test('cuts captions without punctuation into pieces', () => {
+    const captions = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const summary = extractiveSummary(captions);
+    expect([summary.tldr, ...summary.keyPoints].every(piece => piece.split(' ').length <= 25)).toBe(true);
+  });
+});
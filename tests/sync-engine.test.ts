@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import Dexie from 'dexie';
+import { IndexDBStorage } from '../src/storage/indexdb-storage';
+import { SupabaseStorage } from '../src/storage/supabase-storage';
+import { LOCAL_NOTES_COPIED_KEY, SyncEngine } from '../src/storage/sync-engine';
+import { NewNote } from '../src/storage/storage-interface';
+import { PostgrestStandIn } from './postgrest-stand-in';
+
+let server: PostgrestStandIn;
+
+interface Device {
+  local: IndexDBStorage;
+  engine: SyncEngine;
+}
+
+// Each device gets an IndexedDB of its own; Dexie picks up the factory when a database is created
+function newDatabase(): void {
+  Dexie.dependencies.indexedDB = new IDBFactory();
+  Dexie.dependencies.IDBKeyRange = IDBKeyRange;
+}
+
+async function openDevice(): Promise<Device> {
+  const local = new IndexDBStorage(true);
+  await local.initialize();
+  return { local, engine: new SyncEngine(local, new SupabaseStorage(server.url, server.key)) };
+}
+
+async function newDevice(): Promise<Device> {
+  newDatabase();
+  return openDevice();
+}
+
+function newNote(content: string): NewNote {
+  return {
+    content,
+    embedding: [1, 0, 0],
+    embeddingModel: 'test',
+    tags: ['sync'],
+    source: { url: 'https://example.com/article', title: 'Article', timestamp: 0 }
+  };
+}
+
+const passage = (content: string) => ({ index: 0, content, embedding: [1, 0, 0], embeddingModel: 'test', start: 0, end: content.length });
+
+async function contents(device: Device): Promise<string[]> {
+  return (await device.local.getAllNotes()).map(note => note.content).sort();
+}
+
+let now = Date.UTC(2024, 5, 1);
+
+beforeEach(() => {
+  server = new PostgrestStandIn();
+  server.install();
+  setSystemTime(new Date(now));
+});
+
+afterEach(() => {
+  server.uninstall();
+  setSystemTime();
+});
+
+// Moves the clock a second on, so edits made on two devices never tie
+function later(): void {
+  now += 1000;
+  setSystemTime(new Date(now));
+}
+
+describe('SyncEngine', () => {
+  test('queues a note saved offline and pushes it once the server is back', async () => {
+    const laptop = await newDevice();
+    server.offline = true;
+
+    const note = await laptop.local.saveNote(newNote('Written on a train'));
+    await laptop.local.saveChunks(note.id, [passage('Written on a train')]);
+    expect((await laptop.engine.getStatus()).pending).toBe(1);
+
+    await expect(laptop.engine.sync()).rejects.toThrow();
+    expect(await laptop.engine.getStatus()).toMatchObject({ pending: 1, lastError: expect.any(String) });
+
+    server.offline = false;
+    await laptop.engine.sync();
+    expect(await laptop.engine.getStatus()).toMatchObject({ pending: 0, lastError: null });
+    expect(server.rows('notes').find(row => row.id === note.id)?.content).toBe('Written on a train');
+
+    const phone = await newDevice();
+    await phone.engine.sync();
+    expect(await phone.local.getNote(note.id)).toMatchObject({ content: 'Written on a train', updatedAt: note.updatedAt });
+    expect((await phone.local.getChunks(note.id)).map(chunk => chunk.content)).toEqual(['Written on a train']);
+  });
+
+  test('a delete leaves a tombstone that removes the note on the other device', async () => {
+    const laptop = await newDevice();
+    const phone = await newDevice();
+    const note = await laptop.local.saveNote(newNote('Soon to be deleted'));
+    await laptop.local.saveChunks(note.id, [passage('Soon to be deleted')]);
+    await laptop.engine.sync();
+    await phone.engine.sync();
+    expect(await phone.local.getNote(note.id)).not.toBeNull();
+
+    later();
+    await laptop.local.deleteNote(note.id);
+    await laptop.engine.sync();
+    expect(server.rows('notes').some(row => row.id === note.id)).toBe(false);
+    expect(server.rows('note_tombstones').some(row => row.note_id === note.id)).toBe(true);
+
+    await phone.engine.sync();
+    expect(await phone.local.getNote(note.id)).toBeNull();
+    expect(await phone.local.getChunks(note.id)).toEqual([]);
+    // Applying a remote delete queues nothing to send back
+    expect((await phone.engine.getStatus()).pending).toBe(0);
+  });
+
+  test('the same note edited on two devices keeps the latest edit and a conflict copy of the other', async () => {
+    const laptop = await newDevice();
+    const phone = await newDevice();
+    const note = await laptop.local.saveNote(newNote('First draft'));
+    await laptop.engine.sync();
+    await phone.engine.sync();
+
+    later();
+    await laptop.local.updateNote(note.id, { content: 'Edited on the laptop' });
+    later();
+    await phone.local.updateNote(note.id, { content: 'Edited on the phone' });
+
+    await laptop.engine.sync();
+    await phone.engine.sync();
+
+    // The phone's edit is newer, so it wins and the laptop's is kept beside it
+    expect((await phone.local.getNote(note.id))?.content).toBe('Edited on the phone');
+    const copy = (await phone.local.getAllNotes()).find(other => other.id !== note.id);
+    expect(copy).toMatchObject({ content: 'Edited on the laptop', source: { title: 'Article (conflict copy)' } });
+    expect((await phone.engine.getStatus()).conflicts).toBe(1);
+
+    // The copy goes up with the next sync and both devices end up with the same two notes
+    await phone.engine.sync();
+    await laptop.engine.sync();
+    expect(await contents(laptop)).toEqual(['Edited on the laptop', 'Edited on the phone']);
+    expect(await contents(phone)).toEqual(['Edited on the laptop', 'Edited on the phone']);
+    expect((await laptop.engine.getStatus()).conflicts).toBe(0);
+  });
+
+  test('edits to different notes on two devices sync without conflicts', async () => {
+    const laptop = await newDevice();
+    const phone = await newDevice();
+    const first = await laptop.local.saveNote(newNote('One'));
+    const second = await laptop.local.saveNote(newNote('Two'));
+    await laptop.engine.sync();
+    await phone.engine.sync();
+
+    later();
+    await laptop.local.updateNote(first.id, { content: 'One, edited' });
+    await phone.local.updateNote(second.id, { content: 'Two, edited' });
+    await laptop.engine.sync();
+    await phone.engine.sync();
+    await laptop.engine.sync();
+
+    expect(await contents(laptop)).toEqual(['One, edited', 'Two, edited']);
+    expect(await contents(phone)).toEqual(['One, edited', 'Two, edited']);
+    expect((await phone.engine.getStatus()).conflicts).toBe(0);
+  });
+
+  describe('first sync', () => {
+    // Notes saved while IndexedDB was the only store, before sync was turned on
+    async function deviceWithLocalNotes(): Promise<{ device: Device; saved: string }> {
+      newDatabase();
+      const before = new IndexDBStorage();
+      await before.initialize();
+      const saved = (await before.saveNote(newNote('Saved before sync'))).id;
+      return { device: await openDevice(), saved };
+    }
+
+    test('leaves local notes off the server when they were not copied', async () => {
+      const { device, saved } = await deviceWithLocalNotes();
+      await device.engine.sync();
+
+      expect(server.rows('notes').some(row => row.id === saved)).toBe(false);
+      expect(await device.local.getNote(saved)).not.toBeNull();
+    });
+
+    test('uploads local notes once they have been copied', async () => {
+      const { device, saved } = await deviceWithLocalNotes();
+      await device.local.outbox.setState(LOCAL_NOTES_COPIED_KEY, true);
+      await device.engine.sync();
+
+      expect(server.rows('notes').find(row => row.id === saved)?.content).toBe('Saved before sync');
+    });
+
+    test('keeps the newer side of a note both sides already have', async () => {
+      const { device, saved } = await deviceWithLocalNotes();
+      const note = (await device.local.getNote(saved))!;
+      const remote = new SupabaseStorage(server.url, server.key);
+      await remote.initialize();
+      await remote.putNote({ ...note, content: 'Older text on the server', updatedAt: note.updatedAt - 1000 });
+
+      await device.engine.sync();
+      expect(server.rows('notes').find(row => row.id === saved)?.content).toBe('Saved before sync');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  TagTaxonomy,
+  applySynonyms,
+  canSetParent,
+  canonicalTag,
+  mergeInTaxonomy,
+  removeFromTaxonomy,
+  renameInTaxonomy,
+  suggestTagChanges,
+  summarizeTags,
+  tagAncestors,
+  tagFamily,
+  tagStatistics
+} from '../src/utils/tag-taxonomy';
+
+const taxonomy: TagTaxonomy = {
+  synonyms: { js: 'javascript', ecmascript: 'js' },
+  parents: { react: 'javascript', hooks: 'react', javascript: 'programming' }
+};
+
+describe('synonyms', () => {
+  test('follow alias chains to the canonical tag', () => {
+    expect(canonicalTag(taxonomy, 'ecmascript')).toBe('javascript');
+    expect(applySynonyms(taxonomy, ['js', 'javascript', 'react'])).toEqual(['javascript', 'react']);
+  });
+
+  test('stop on a looping chain', () => {
+    expect(canonicalTag({ synonyms: { a: 'b', b: 'a' }, parents: {} }, 'a')).toBe('a');
+  });
+});
+
+describe('parents', () => {
+  test('lists ancestors nearest first and stops on loops', () => {
+    expect(tagAncestors(taxonomy, 'hooks')).toEqual(['react', 'javascript', 'programming']);
+    expect(tagAncestors({ synonyms: {}, parents: { a: 'b', b: 'a' } }, 'a')).toEqual(['b']);
+  });
+
+  test('refuses filing a tag under itself or its descendants', () => {
+    expect(canSetParent(taxonomy, 'javascript', 'hooks')).toBe(false);
+    expect(canSetParent(taxonomy, 'react', 'react')).toBe(false);
+    expect(canSetParent(taxonomy, 'hooks', 'programming')).toBe(true);
+  });
+
+  test('a family holds every tag filed under the tag, through its aliases', () => {
+    expect(tagFamily(taxonomy, 'js')).toEqual(['javascript', 'react', 'hooks']);
+  });
+});
+
+describe('editing the taxonomy', () => {
+  test('renaming moves aliases and children to the new name', () => {
+    expect(renameInTaxonomy(taxonomy, 'javascript', 'jscript')).toEqual({
+      synonyms: { js: 'jscript', ecmascript: 'js' },
+      parents: { react: 'jscript', hooks: 'react', jscript: 'programming' }
+    });
+  });
+
+  test('merging keeps the old name as an alias', () => {
+    expect(mergeInTaxonomy(taxonomy, 'hooks', 'react').synonyms.hooks).toBe('react');
+    expect(mergeInTaxonomy(taxonomy, 'hooks', 'react').parents.hooks).toBeUndefined();
+  });
+
+  test('removing a tag moves its children up and drops its aliases', () => {
+    expect(removeFromTaxonomy(taxonomy, 'react')).toEqual({
+      synonyms: taxonomy.synonyms,
+      parents: { hooks: 'javascript', javascript: 'programming' }
+    });
+    expect(removeFromTaxonomy(taxonomy, 'javascript').synonyms).toEqual({ ecmascript: 'js' });
+  });
+});
+
+describe('statistics and suggestions', () => {
+  const notes = [
+    { tags: ['react', 'javascript'] },
+    { tags: ['react', 'javascript', 'frontend'] },
+    { tags: ['react', 'javascript'] },
+    { tags: ['javascript'] },
+    { tags: ['javascript', 'node-js'] },
+    { tags: ['javascript', 'nodejs'] },
+    { tags: ['javascript', 'youtube'] }
+  ];
+
+  test('counts tags and the tags they come with', () => {
+    const stats = tagStatistics(notes);
+    expect(stats.counts.get('javascript')).toBe(7);
+    expect(stats.together.get('react')?.get('javascript')).toBe(3);
+  });
+
+  test('lists parents no note carries any more', () => {
+    const summary = summarizeTags({ synonyms: { js: 'javascript' }, parents: { react: 'frontend' } }, new Map([['react', 2], ['javascript', 1]]));
+    expect(summary).toEqual([
+      { tag: 'react', count: 2, parent: 'frontend', aliases: [] },
+      { tag: 'javascript', count: 1, aliases: ['js'] },
+      { tag: 'frontend', count: 0, aliases: [] }
+    ]);
+  });
+
+  test('suggests merging spelling variants and filing narrow tags under broad ones', () => {
+    const suggestions = suggestTagChanges({ synonyms: {}, parents: {} }, tagStatistics(notes), new Map());
+    expect(suggestions.map(({ kind, tag, into }) => ({ kind, tag, into }))).toEqual([
+      { kind: 'merge', tag: 'node-js', into: 'nodejs' },
+      { kind: 'parent', tag: 'react', into: 'javascript' }
+    ]);
+  });
+
+  test('suggests merging tags whose names embed alike and keep the same company', () => {
+    const stats = tagStatistics([{ tags: ['ml', 'python'] }, { tags: ['machine-learning', 'python'] }, { tags: ['machine-learning', 'python'] }]);
+    const embeddings = new Map([['ml', [1, 0]], ['machine-learning', [0.99, 0.14]]]);
+    const [suggestion] = suggestTagChanges({ synonyms: {}, parents: {} }, stats, embeddings);
+    expect(suggestion).toMatchObject({ kind: 'merge', tag: 'ml', into: 'machine-learning' });
+  });
+});
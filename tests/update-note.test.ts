@@ -0,0 +1,153 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { Note, StorageBackend } from '../src/storage/storage-interface';
+import { normalizeVector } from '../src/utils/vector-utils';
+
+// Chrome APIs the service worker touches: storage areas backed by objects, listeners recorded, the rest no-ops
+const listeners = new Map<string, Function>();
+
+function storageArea() {
+  const items: Record<string, any> = {};
+  return {
+    async get(keys: string | string[] | null) {
+      if (keys === null) return { ...items };
+      return Object.fromEntries((Array.isArray(keys) ? keys : [keys]).filter(key => key in items).map(key => [key, items[key]]));
+    },
+    async set(values: Record<string, any>) {
+      Object.assign(items, values);
+    },
+    async remove(keys: string | string[]) {
+      (Array.isArray(keys) ? keys : [keys]).forEach(key => delete items[key]);
+    }
+  };
+}
+
+function chromeApi(path: string, known: Record<string, any>): any {
+  return new Proxy(known, {
+    get(target, name: string) {
+      if (name in target) return target[name];
+      if (name === 'addListener') return (listener: Function) => listeners.set(path, listener);
+      return chromeApi(`${path}.${name}`, () => undefined as any);
+    }
+  });
+}
+
+(globalThis as any).chrome = chromeApi('chrome', { storage: { sync: storageArea(), local: storageArea() } });
+
+// Embeds each text as its length and position of its first 'b', so changed passages get changed vectors
+const embedded: string[] = [];
+let failEmbedding = false;
+const ai = {
+  async generateEmbedding(text: string) {
+    if (failEmbedding) throw new Error('Embedding failed');
+    embedded.push(text);
+    return [text.length, text.indexOf('b') + 1, 1];
+  },
+  getEmbeddingModel: () => 'test/model',
+  async summarize() {
+    return { tldr: 'Summary', keyPoints: [] };
+  }
+};
+
+mock.module('../src/ai/ai-factory', () => ({
+  AIFactory: { getAIService: async () => ai, clearInstance: () => {} }
+}));
+
+let storage: StorageBackend;
+let writes: string[] = [];
+let failNoteWrite = false;
+
+async function send(action: string, data: any): Promise<any> {
+  const listener = listeners.get('chrome.runtime.onMessage')!;
+  return new Promise(resolve => listener({ action, data }, {}, resolve));
+}
+
+async function savedNote(content: string): Promise<Note> {
+  const note = await storage.saveNote({
+    content,
+    embedding: [content.length, 0, 1],
+    embeddingModel: 'test/model',
+    tags: ['draft'],
+    source: { url: 'https://example.com/a', title: 'Original title', timestamp: 0 }
+  });
+  await storage.saveChunks(note.id, [{ index: 0, content, embedding: note.embedding, embeddingModel: 'test/model', start: 0, end: content.length }]);
+  return note;
+}
+
+beforeAll(async () => {
+  await import('../src/background/service-worker');
+  const { StorageFactory } = await import('../src/storage/storage-factory');
+  storage = await StorageFactory.getStorage();
+
+  // Record the order the note and its passages are written in
+  const { updateNote, saveChunks } = storage;
+  storage.updateNote = async (...args) => {
+    writes.push('note');
+    if (failNoteWrite) throw new Error('Write failed');
+    return updateNote.apply(storage, args);
+  };
+  storage.saveChunks = async (...args) => {
+    writes.push('passages');
+    return saveChunks.apply(storage, args);
+  };
+});
+
+beforeEach(() => {
+  embedded.length = 0;
+  failEmbedding = false;
+  failNoteWrite = false;
+});
+
+describe('updateNote', () => {
+  test('edited content is chunked and embedded again, the note written before its passages', async () => {
+    const note = await savedNote('The old text.');
+    writes = [];
+
+    const { note: updated } = await send('updateNote', { id: note.id, updates: { content: '  A brand new body.  ' } });
+
+    expect(updated.content).toBe('A brand new body.');
+    expect(embedded).toEqual(['A brand new body.']);
+    expect(updated.embedding).toEqual(normalizeVector([17, 3, 1]));
+    expect(updated.embeddingModel).toBe('test/model');
+    expect(writes).toEqual(['note', 'passages']);
+
+    const chunks = await storage.getChunks(note.id);
+    expect(chunks.map(chunk => ({ content: chunk.content, embedding: chunk.embedding }))).toEqual([
+      { content: 'A brand new body.', embedding: [17, 3, 1] }
+    ]);
+  });
+
+  test('a title or tag edit keeps the passages and the embedding', async () => {
+    const note = await savedNote('Text that stays.');
+    writes = [];
+
+    const { note: updated } = await send('updateNote', { id: note.id, updates: { title: 'New title', tags: ['Final'] } });
+
+    expect(updated.source.title).toBe('New title');
+    expect(updated.tags).toEqual(['final']);
+    expect(updated.embedding).toEqual(note.embedding);
+    expect(embedded).toEqual([]);
+    expect(writes).toEqual(['note']);
+  });
+
+  test('a note that fails to save keeps its old passages', async () => {
+    const note = await savedNote('Untouched text.');
+    failNoteWrite = true;
+
+    const response = await send('updateNote', { id: note.id, updates: { content: 'Lost edit.' } });
+
+    expect(response.error).toBe('Write failed');
+    expect((await storage.getChunks(note.id)).map(chunk => chunk.content)).toEqual(['Untouched text.']);
+  });
+
+  test('a failed embedding leaves the note and its passages as they were', async () => {
+    const note = await savedNote('Untouched text.');
+    failEmbedding = true;
+
+    const response = await send('updateNote', { id: note.id, updates: { content: 'Lost edit.' } });
+
+    expect(response.error).toBe('Embedding failed');
+    expect((await storage.getNote(note.id))?.content).toBe('Untouched text.');
+    expect((await storage.getChunks(note.id)).map(chunk => chunk.content)).toEqual(['Untouched text.']);
+  });
+});
@@ -7,7 +7,9 @@ module.exports = {
     'content/content-script': './src/content/content-script.ts',
     'ui/popup/popup': './src/ui/popup/popup.ts',
     'ui/search/search': './src/ui/search/search.ts',
-    'ui/options/options': './src/ui/options/options.ts'
+    'ui/options/options': './src/ui/options/options.ts',
+    'ui/annotate/annotate': './src/ui/annotate/annotate.ts',
+    'ui/duplicate/duplicate': './src/ui/duplicate/duplicate.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -48,6 +50,10 @@ module.exports = {
         { from: 'src/ui/search/search.css', to: 'ui/search/search.css' },
         { from: 'src/ui/options/options.html', to: 'ui/options/options.html' },
         { from: 'src/ui/options/options.css', to: 'ui/options/options.css' },
+        { from: 'src/ui/annotate/annotate.html', to: 'ui/annotate/annotate.html' },
+        { from: 'src/ui/annotate/annotate.css', to: 'ui/annotate/annotate.css' },
+        { from: 'src/ui/duplicate/duplicate.html', to: 'ui/duplicate/duplicate.html' },
+        { from: 'src/ui/duplicate/duplicate.css', to: 'ui/duplicate/duplicate.css' },
         { from: 'icons', to: 'icons' }
       ]
     })